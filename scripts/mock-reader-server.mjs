@@ -0,0 +1,282 @@
+/**
+ * 模拟阅读服务器（开发用）
+ * 在内存中提供 Google Reader 兼容 API（/api/greader.php）与 Miniflux API（/v1），两者共用同一份订阅与条目数据，
+ * 供阅读服务器模式在本地测试，并允许跨域访问
+ *
+ * 用法：node scripts/mock-reader-server.mjs
+ *   PORT  监听端口，默认 8789
+ *   USERNAME / PASSWORD  登录凭据，默认 demo / demo
+ *   TOKEN  Miniflux API 令牌，默认 demo-token
+ *
+ * 应用中的服务器地址：
+ *   Google Reader API  http://localhost:PORT/api/greader.php
+ *   Miniflux           http://localhost:PORT
+ */
+import { createServer } from 'node:http'
+import { randomUUID } from 'node:crypto'
+
+const PORT = Number(process.env.PORT) || 8789
+const USERNAME = process.env.USERNAME || 'demo'
+const PASSWORD = process.env.PASSWORD || 'demo'
+const TOKEN = process.env.TOKEN || 'demo-token'
+
+const GREADER_PREFIX = '/api/greader.php'
+const ITEM_ID_PREFIX = 'tag:google.com,2005:reader/item/'
+const READ_TAG = 'user/-/state/com.google/read'
+const STARRED_TAG = 'user/-/state/com.google/starred'
+const EDIT_TOKEN = 'mock-edit-token'
+
+const HOUR = 60 * 60 * 1000
+
+const feeds = [
+    { id: 1, title: 'Mock Tech', url: 'https://tech.example.com/feed.xml', siteUrl: 'https://tech.example.com/', category: '科技' },
+    { id: 2, title: 'Mock News', url: 'https://news.example.com/rss', siteUrl: 'https://news.example.com/', category: '新闻' },
+]
+
+const now = Date.now()
+const entries = Array.from({ length: 6 }, (_, i) => {
+    const feed = feeds[i % feeds.length]
+    const id = i + 1
+    return {
+        id,
+        feedId: feed.id,
+        title: `${feed.title} 文章 ${id}`,
+        url: `${feed.siteUrl}posts/${id}`,
+        content: `<p>这是 ${feed.title} 的第 ${id} 篇模拟文章。</p>`,
+        author: 'Mock Author',
+        published: now - id * HOUR,
+        read: id > 4,
+        starred: id === 2,
+    }
+})
+
+// 已签发的登录令牌
+const authTokens = new Set()
+
+function log(...args) {
+    console.log(`[MockReader ${new Date().toISOString()}]`, ...args)
+}
+
+function setCorsHeaders(res) {
+    res.setHeader('Access-Control-Allow-Origin', '*')
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-Auth-Token')
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS')
+}
+
+function readBody(req) {
+    return new Promise((resolve, reject) => {
+        const chunks = []
+        req.on('data', chunk => chunks.push(chunk))
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')))
+        req.on('error', reject)
+    })
+}
+
+function sendJson(res, status, data) {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' }).end(JSON.stringify(data))
+}
+
+function sendText(res, status, text) {
+    res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' }).end(text)
+}
+
+/** ========== Google Reader API ========== */
+
+function toLongId(id) {
+    return ITEM_ID_PREFIX + id.toString(16).padStart(16, '0')
+}
+
+function fromItemId(id) {
+    return id.startsWith(ITEM_ID_PREFIX) ? parseInt(id.slice(ITEM_ID_PREFIX.length), 16) : Number(id)
+}
+
+function toGReaderItem(entry) {
+    const feed = feeds.find(f => f.id === entry.feedId)
+    const categories = ['user/-/state/com.google/reading-list']
+    if (entry.read) categories.push(READ_TAG)
+    if (entry.starred) categories.push(STARRED_TAG)
+    return {
+        id: toLongId(entry.id),
+        title: entry.title,
+        published: Math.floor(entry.published / 1000),
+        crawlTimeMsec: String(entry.published),
+        author: entry.author,
+        canonical: [{ href: entry.url }],
+        alternate: [{ href: entry.url, type: 'text/html' }],
+        summary: { content: entry.content },
+        categories,
+        origin: { streamId: `feed/${feed.id}`, title: feed.title, htmlUrl: feed.siteUrl },
+    }
+}
+
+async function handleGReader(req, res, path, query) {
+    if (path === '/accounts/ClientLogin') {
+        const form = new URLSearchParams(req.method === 'POST' ? await readBody(req) : query)
+        if (form.get('Email') !== USERNAME || form.get('Passwd') !== PASSWORD) {
+            sendText(res, 401, 'Error=BadAuthentication\n')
+            return
+        }
+        const token = `${USERNAME}/${randomUUID()}`
+        authTokens.add(token)
+        sendText(res, 200, `SID=${token}\nLSID=null\nAuth=${token}\n`)
+        return
+    }
+
+    const auth = (req.headers.authorization || '').replace(/^GoogleLogin auth=/, '')
+    if (!authTokens.has(auth)) {
+        sendText(res, 401, 'Unauthorized')
+        return
+    }
+
+    const apiPath = path.replace(/^\/reader\/api\/0\//, '')
+    if (apiPath === 'token') {
+        sendText(res, 200, `${EDIT_TOKEN}\n`)
+    } else if (apiPath === 'user-info') {
+        sendJson(res, 200, { userId: '1', userName: USERNAME, userProfileId: '1', userEmail: '' })
+    } else if (apiPath === 'subscription/list') {
+        sendJson(res, 200, {
+            subscriptions: feeds.map(feed => ({
+                id: `feed/${feed.id}`,
+                title: feed.title,
+                url: feed.url,
+                htmlUrl: feed.siteUrl,
+                categories: [{ id: `user/-/label/${feed.category}`, label: feed.category }],
+            })),
+        })
+    } else if (apiPath.startsWith('stream/contents')) {
+        const n = Number(query.get('n')) || 20
+        const ot = Number(query.get('ot')) || 0
+        const offset = Number(query.get('c')) || 0
+        const matched = entries
+            .filter(entry => entry.published >= ot * 1000)
+            .sort((a, b) => b.published - a.published)
+        const page = matched.slice(offset, offset + n)
+        const data = { id: 'user/-/state/com.google/reading-list', items: page.map(toGReaderItem) }
+        if (offset + n < matched.length) data.continuation = String(offset + n)
+        sendJson(res, 200, data)
+    } else if (apiPath === 'stream/items/ids') {
+        const n = Number(query.get('n')) || 20
+        let matched = entries
+        if (query.get('s') === STARRED_TAG) matched = matched.filter(entry => entry.starred)
+        if (query.get('xt') === READ_TAG) matched = matched.filter(entry => !entry.read)
+        sendJson(res, 200, { itemRefs: matched.slice(0, n).map(entry => ({ id: String(entry.id) })) })
+    } else if (apiPath === 'edit-tag' && req.method === 'POST') {
+        const form = new URLSearchParams(await readBody(req))
+        if (form.get('T') !== EDIT_TOKEN) {
+            sendText(res, 400, 'Invalid token')
+            return
+        }
+        const ids = form.getAll('i').map(fromItemId)
+        for (const entry of entries.filter(e => ids.includes(e.id))) {
+            if (form.get('a') === READ_TAG) entry.read = true
+            if (form.get('r') === READ_TAG) entry.read = false
+            if (form.get('a') === STARRED_TAG) entry.starred = true
+            if (form.get('r') === STARRED_TAG) entry.starred = false
+        }
+        log(`edit-tag ${ids.join(',')} a=${form.get('a') ?? ''} r=${form.get('r') ?? ''}`)
+        sendText(res, 200, 'OK')
+    } else {
+        sendText(res, 404, 'Not found')
+    }
+}
+
+/** ========== Miniflux API ========== */
+
+function isMinifluxAuthorized(req) {
+    if (req.headers['x-auth-token'] === TOKEN) return true
+    const expected = `Basic ${Buffer.from(`${USERNAME}:${PASSWORD}`).toString('base64')}`
+    return req.headers.authorization === expected
+}
+
+function toMinifluxEntry(entry) {
+    return {
+        id: entry.id,
+        feed_id: entry.feedId,
+        title: entry.title,
+        url: entry.url,
+        content: entry.content,
+        author: entry.author,
+        published_at: new Date(entry.published).toISOString(),
+        status: entry.read ? 'read' : 'unread',
+        starred: entry.starred,
+        enclosures: null,
+    }
+}
+
+async function handleMiniflux(req, res, path, query) {
+    if (!isMinifluxAuthorized(req)) {
+        sendJson(res, 401, { error_message: 'Access Unauthorized' })
+        return
+    }
+
+    const entryMatch = path.match(/^\/v1\/entries\/(\d+)(\/bookmark)?$/)
+    if (path === '/v1/me') {
+        sendJson(res, 200, { id: 1, username: USERNAME })
+    } else if (path === '/v1/feeds') {
+        sendJson(res, 200, feeds.map(feed => ({
+            id: feed.id,
+            title: feed.title,
+            feed_url: feed.url,
+            site_url: feed.siteUrl,
+            category: { id: feed.id, title: feed.category },
+        })))
+    } else if (path === '/v1/entries' && req.method === 'GET') {
+        const limit = Number(query.get('limit')) || 100
+        const offset = Number(query.get('offset')) || 0
+        const after = Number(query.get('after')) || 0
+        const afterId = Number(query.get('after_entry_id')) || 0
+        const beforeId = Number(query.get('before_entry_id')) || Infinity
+        const matched = entries
+            .filter(entry => entry.published >= after * 1000)
+            .filter(entry => entry.id > afterId && entry.id < beforeId)
+            .filter(entry => !query.get('status') || (query.get('status') === 'read') === entry.read)
+            .filter(entry => query.get('starred') !== 'true' || entry.starred)
+            .sort((a, b) => b.published - a.published)
+        sendJson(res, 200, { total: matched.length, entries: matched.slice(offset, offset + limit).map(toMinifluxEntry) })
+    } else if (path === '/v1/entries' && req.method === 'PUT') {
+        const { entry_ids: ids = [], status } = JSON.parse(await readBody(req) || '{}')
+        for (const entry of entries.filter(e => ids.includes(e.id))) entry.read = status === 'read'
+        log(`entries ${ids.join(',')} status=${status}`)
+        res.writeHead(204).end()
+    } else if (entryMatch) {
+        const entry = entries.find(e => e.id === Number(entryMatch[1]))
+        if (!entry) {
+            sendJson(res, 404, { error_message: 'Entry not found' })
+        } else if (entryMatch[2] && req.method === 'PUT') {
+            entry.starred = !entry.starred
+            log(`bookmark ${entry.id} starred=${entry.starred}`)
+            res.writeHead(204).end()
+        } else {
+            sendJson(res, 200, toMinifluxEntry(entry))
+        }
+    } else {
+        sendJson(res, 404, { error_message: 'Not found' })
+    }
+}
+
+const server = createServer(async (req, res) => {
+    setCorsHeaders(res)
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204).end()
+        return
+    }
+
+    const { pathname, searchParams } = new URL(req.url || '/', `http://localhost:${PORT}`)
+    try {
+        if (pathname.startsWith(GREADER_PREFIX)) {
+            await handleGReader(req, res, pathname.slice(GREADER_PREFIX.length), searchParams)
+        } else if (pathname.startsWith('/v1/')) {
+            await handleMiniflux(req, res, pathname, searchParams)
+        } else {
+            sendText(res, 404, 'Not found')
+        }
+    } catch (err) {
+        log(`${req.method} ${pathname} 失败:`, err.message)
+        sendText(res, 500, err.message)
+    }
+})
+
+server.listen(PORT, () => {
+    log(`模拟阅读服务器已启动: http://localhost:${PORT}${GREADER_PREFIX}（Google Reader API）、http://localhost:${PORT}（Miniflux）`)
+})
@@ -0,0 +1,161 @@
+/**
+ * 简易 WebDAV 服务（开发用）
+ * 供多设备同步在本地测试，支持同步所需的 PROPFIND / GET / PUT / MKCOL / DELETE，并允许跨域访问
+ *
+ * 用法：node scripts/webdav-server.mjs
+ *   PORT      监听端口，默认 8788
+ *   DATA_DIR  文件存放目录，默认 .webdav-data
+ *   USERNAME / PASSWORD  设置后要求 Basic 认证
+ *
+ * 应用中的 WebDAV 地址填写 http://localhost:PORT/folo/
+ */
+import { createServer } from 'node:http'
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises'
+import { join, normalize, resolve, sep } from 'node:path'
+
+const PORT = Number(process.env.PORT) || 8788
+const DATA_DIR = resolve(process.env.DATA_DIR || '.webdav-data')
+const USERNAME = process.env.USERNAME || ''
+const PASSWORD = process.env.PASSWORD || ''
+
+function log(...args) {
+    console.log(`[WebDAV ${new Date().toISOString()}]`, ...args)
+}
+
+function setCorsHeaders(res) {
+    res.setHeader('Access-Control-Allow-Origin', '*')
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Depth')
+    res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE, PROPFIND, MKCOL, OPTIONS')
+}
+
+function readBody(req) {
+    return new Promise((resolve, reject) => {
+        const chunks = []
+        req.on('data', chunk => chunks.push(chunk))
+        req.on('end', () => resolve(Buffer.concat(chunks)))
+        req.on('error', reject)
+    })
+}
+
+function isAuthorized(req) {
+    if (!USERNAME) return true
+    const expected = `Basic ${Buffer.from(`${USERNAME}:${PASSWORD}`).toString('base64')}`
+    return req.headers.authorization === expected
+}
+
+/**
+ * 请求路径映射到数据目录下的文件（拒绝越出数据目录的路径）
+ */
+function resolvePath(pathname) {
+    const relative = normalize(decodeURIComponent(pathname)).replace(/^[/\\]+/, '')
+    const target = join(DATA_DIR, relative)
+    return target === DATA_DIR || target.startsWith(DATA_DIR + sep) ? target : null
+}
+
+function escapeXml(text) {
+    return text.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`)
+}
+
+function propfindEntry(href, info) {
+    const resourceType = info.isDirectory() ? '<d:collection/>' : ''
+    return `<d:response><d:href>${escapeXml(href)}</d:href><d:propstat><d:prop>`
+        + `<d:resourcetype>${resourceType}</d:resourcetype>`
+        + `<d:getcontentlength>${info.isDirectory() ? 0 : info.size}</d:getcontentlength>`
+        + `<d:getlastmodified>${info.mtime.toUTCString()}</d:getlastmodified>`
+        + '</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>'
+}
+
+async function handlePropfind(req, res, pathname, target) {
+    const info = await stat(target).catch(() => null)
+    if (!info) {
+        res.writeHead(404).end()
+        return
+    }
+
+    const entries = [propfindEntry(pathname, info)]
+    if (info.isDirectory() && req.headers.depth !== '0') {
+        const base = pathname.endsWith('/') ? pathname : `${pathname}/`
+        for (const name of await readdir(target)) {
+            const childInfo = await stat(join(target, name))
+            entries.push(propfindEntry(base + encodeURIComponent(name), childInfo))
+        }
+    }
+
+    res.writeHead(207, { 'Content-Type': 'application/xml; charset=utf-8' })
+    res.end(`<?xml version="1.0" encoding="utf-8"?><d:multistatus xmlns:d="DAV:">${entries.join('')}</d:multistatus>`)
+}
+
+const server = createServer(async (req, res) => {
+    setCorsHeaders(res)
+
+    if (req.method === 'OPTIONS') {
+        res.setHeader('DAV', '1')
+        res.writeHead(204).end()
+        return
+    }
+    if (!isAuthorized(req)) {
+        res.writeHead(401, { 'WWW-Authenticate': 'Basic realm="folo"' }).end()
+        return
+    }
+
+    const { pathname } = new URL(req.url || '/', `http://localhost:${PORT}`)
+    const target = resolvePath(pathname)
+    if (!target) {
+        res.writeHead(403).end()
+        return
+    }
+
+    try {
+        switch (req.method) {
+            case 'PROPFIND':
+                await handlePropfind(req, res, pathname, target)
+                return
+            case 'GET': {
+                const content = await readFile(target).catch(() => null)
+                if (content === null) {
+                    res.writeHead(404).end()
+                    return
+                }
+                res.writeHead(200, { 'Content-Type': 'application/octet-stream' }).end(content)
+                return
+            }
+            case 'PUT': {
+                const parent = await stat(join(target, '..')).catch(() => null)
+                if (!parent?.isDirectory()) {
+                    res.writeHead(409).end()
+                    return
+                }
+                const existed = await stat(target).then(() => true, () => false)
+                await writeFile(target, await readBody(req))
+                log(`PUT ${pathname}`)
+                res.writeHead(existed ? 204 : 201).end()
+                return
+            }
+            case 'MKCOL': {
+                if (await stat(target).then(() => true, () => false)) {
+                    res.writeHead(405).end()
+                    return
+                }
+                await mkdir(target)
+                log(`MKCOL ${pathname}`)
+                res.writeHead(201).end()
+                return
+            }
+            case 'DELETE':
+                await rm(target, { recursive: true, force: true })
+                log(`DELETE ${pathname}`)
+                res.writeHead(204).end()
+                return
+            default:
+                res.writeHead(405).end()
+        }
+    } catch (err) {
+        log(`${req.method} ${pathname} 失败:`, err.message)
+        res.writeHead(500).end(err.message)
+    }
+})
+
+await mkdir(DATA_DIR, { recursive: true })
+server.listen(PORT, () => {
+    log(`WebDAV 服务已启动: http://localhost:${PORT}/（数据目录 ${DATA_DIR}）`)
+})
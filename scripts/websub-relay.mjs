@@ -0,0 +1,207 @@
+/**
+ * WebSub 推送中继（开发用）
+ * 浏览器无法接收 hub 回调，由本中继代为订阅并接收推送，再通过 SSE 通知应用
+ *
+ * 用法：PUBLIC_URL=https://你的公网地址 node scripts/websub-relay.mjs
+ *   PORT        监听端口，默认 8787
+ *   PUBLIC_URL  hub 可访问到的本中继地址（用于回调），默认 http://localhost:PORT（公网 hub 无法访问，订阅不会生效）
+ *
+ * 接口：
+ *   GET  /events     SSE 事件流：内容推送 {"topic": "..."}；订阅状态事件 verified（{"topic", "leaseSeconds"}，hub 已验证）、
+ *                    unsubscribed / denied（{"topic"}，订阅已失效）
+ *   POST /subscribe  {"hub": "...", "topic": "..."}，向 hub 发起订阅
+ *   GET  /callback   hub 订阅验证（回显 hub.challenge）
+ *   POST /callback   hub 内容推送
+ */
+import { createServer } from 'node:http'
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+
+const PORT = Number(process.env.PORT) || 8787
+const PUBLIC_URL = (process.env.PUBLIC_URL || `http://localhost:${PORT}`).replace(/\/+$/, '')
+
+// 默认租期（秒），到期前自动续订
+const DEFAULT_LEASE_SECONDS = 24 * 60 * 60
+
+/** @type {Set<import('node:http').ServerResponse>} */
+const clients = new Set()
+
+/** @type {Map<string, { hub: string, secret: string, renewTimer?: NodeJS.Timeout }>} */
+const subscriptions = new Map()
+
+function log(...args) {
+    console.log(`[WebSub Relay ${new Date().toISOString()}]`, ...args)
+}
+
+function setCorsHeaders(res) {
+    res.setHeader('Access-Control-Allow-Origin', '*')
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+}
+
+function readBody(req) {
+    return new Promise((resolve, reject) => {
+        const chunks = []
+        req.on('data', chunk => chunks.push(chunk))
+        req.on('end', () => resolve(Buffer.concat(chunks)))
+        req.on('error', reject)
+    })
+}
+
+function broadcast(topic) {
+    const payload = `data: ${JSON.stringify({ topic })}\n\n`
+    for (const client of clients) client.write(payload)
+    log(`推送通知 ${clients.size} 个客户端: ${topic}`)
+}
+
+/**
+ * 通知客户端订阅状态变化（命名事件，与内容推送区分）
+ */
+function broadcastState(event, data) {
+    const payload = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+    for (const client of clients) client.write(payload)
+}
+
+/**
+ * 向 hub 发起订阅请求（hub 随后会异步回调 /callback 进行验证）
+ */
+async function subscribe(hub, topic) {
+    const existing = subscriptions.get(topic)
+    if (existing?.renewTimer) clearTimeout(existing.renewTimer)
+
+    const secret = existing?.secret || randomBytes(16).toString('hex')
+    subscriptions.set(topic, { hub, secret })
+
+    const response = await fetch(hub, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            'hub.mode': 'subscribe',
+            'hub.topic': topic,
+            'hub.callback': `${PUBLIC_URL}/callback?topic=${encodeURIComponent(topic)}`,
+            'hub.lease_seconds': String(DEFAULT_LEASE_SECONDS),
+            'hub.secret': secret,
+        }),
+    })
+    if (!response.ok && response.status !== 202) {
+        throw new Error(`hub 返回 HTTP ${response.status}`)
+    }
+    log(`已向 hub 发起订阅: ${topic}`)
+}
+
+/**
+ * 校验推送内容的签名（X-Hub-Signature: sha1=... / sha256=...）
+ */
+function verifySignature(secret, body, header) {
+    const [algorithm, signature] = (header || '').split('=')
+    if (!signature || !['sha1', 'sha256', 'sha384', 'sha512'].includes(algorithm)) return false
+    const expected = createHmac(algorithm, secret).update(body).digest('hex')
+    return expected.length === signature.length && timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+}
+
+const server = createServer(async (req, res) => {
+    setCorsHeaders(res)
+    const url = new URL(req.url || '/', PUBLIC_URL)
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204).end()
+        return
+    }
+
+    // SSE 事件流
+    if (req.method === 'GET' && url.pathname === '/events') {
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+        })
+        res.write(': connected\n\n')
+        clients.add(res)
+        req.on('close', () => clients.delete(res))
+        return
+    }
+
+    // 应用请求订阅
+    if (req.method === 'POST' && url.pathname === '/subscribe') {
+        try {
+            const { hub, topic } = JSON.parse((await readBody(req)).toString('utf-8'))
+            if (!hub || !topic) {
+                res.writeHead(400).end('Missing hub or topic')
+                return
+            }
+            await subscribe(hub, topic)
+            res.writeHead(202).end()
+        } catch (err) {
+            log('订阅失败:', err.message)
+            res.writeHead(502).end(err.message)
+        }
+        return
+    }
+
+    const topic = url.searchParams.get('topic')
+    const subscription = topic ? subscriptions.get(topic) : undefined
+
+    // hub 订阅验证
+    if (req.method === 'GET' && url.pathname === '/callback') {
+        const mode = url.searchParams.get('hub.mode')
+        const challenge = url.searchParams.get('hub.challenge')
+
+        // hub 拒绝订阅（不带 challenge）
+        if (mode === 'denied' && subscription) {
+            if (subscription.renewTimer) clearTimeout(subscription.renewTimer)
+            subscriptions.delete(topic)
+            broadcastState('denied', { topic })
+            log(`hub 拒绝订阅（${url.searchParams.get('hub.reason') || '未说明原因'}）: ${topic}`)
+            res.writeHead(200).end()
+            return
+        }
+
+        if (!subscription || !challenge || (mode !== 'subscribe' && mode !== 'unsubscribe')) {
+            res.writeHead(404).end()
+            return
+        }
+
+        if (mode === 'subscribe') {
+            // 到期前 10% 自动续订
+            const lease = Number(url.searchParams.get('hub.lease_seconds')) || DEFAULT_LEASE_SECONDS
+            subscription.renewTimer = setTimeout(() => {
+                subscribe(subscription.hub, topic).catch(err => log('续订失败:', err.message))
+            }, lease * 900)
+            broadcastState('verified', { topic, leaseSeconds: lease })
+            log(`订阅已验证（租期 ${lease} 秒）: ${topic}`)
+        } else {
+            if (subscription.renewTimer) clearTimeout(subscription.renewTimer)
+            subscriptions.delete(topic)
+            broadcastState('unsubscribed', { topic })
+            log(`订阅已取消: ${topic}`)
+        }
+        res.writeHead(200, { 'Content-Type': 'text/plain' }).end(challenge)
+        return
+    }
+
+    // hub 内容推送
+    if (req.method === 'POST' && url.pathname === '/callback') {
+        const body = await readBody(req)
+        if (!subscription) {
+            res.writeHead(404).end()
+            return
+        }
+        if (!verifySignature(subscription.secret, body, req.headers['x-hub-signature'])) {
+            log(`签名校验失败，忽略推送: ${topic}`)
+            // 按规范仍返回 2xx，避免 hub 重试
+            res.writeHead(202).end()
+            return
+        }
+        broadcast(topic)
+        res.writeHead(204).end()
+        return
+    }
+
+    res.writeHead(404).end()
+})
+
+server.listen(PORT, () => {
+    log(`中继已启动: http://localhost:${PORT}（回调地址 ${PUBLIC_URL}/callback）`)
+    if (/^https?:\/\/(localhost|127\.0\.0\.1)(:|\/|$)/i.test(PUBLIC_URL)) {
+        log('警告: PUBLIC_URL 为本机地址，公网 hub 无法回调验证，订阅不会生效（应用将继续轮询）')
+    }
+})
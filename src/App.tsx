@@ -13,7 +13,14 @@ import { useFeedStore } from '@/stores/feedStore'
 import { useThemeStore } from '@/stores/themeStore'
 import { dbHelpers } from '@/db'
 import { SearchModal } from '@/components/SearchModal'
+import { MiniPlayer } from '@/components/MiniPlayer'
 import type { Note } from '@/types'
+import { isAutoRefreshEnabled } from '@/services/refreshScheduler'
+import { runCleanup } from '@/services/retention'
+import { REFRESH_CONSTANTS } from '@/utils/constants'
+import { useWebSubRelay } from '@/hooks/useWebSubRelay'
+import { useSync } from '@/hooks/useSync'
+import { useRemoteBackend } from '@/hooks/useRemoteBackend'
 
 const STORAGE_KEY = 'folo-panel-layout'
 const COLLAPSED_WIDTH = 48
@@ -59,20 +66,49 @@ function App() {
         localStorage.setItem(STORAGE_KEY, JSON.stringify(layout))
     }, [layout])
 
-    // 应用启动时清理过期数据,并设置定时清理
+    // 应用启动时按保留规则清理文章与过期对话,并设置定时清理
     useEffect(() => {
+        const cleanup = () => {
+            runCleanup().catch(err => console.error('[App] Cleanup failed:', err))
+        }
+
         // 立即执行一次清理
-        dbHelpers.cleanupExpiredData()
+        cleanup()
 
         // 每小时执行一次清理
-        const cleanupInterval = setInterval(() => {
-            dbHelpers.cleanupExpiredData()
-        }, 60 * 60 * 1000) // 1小时
+        const cleanupInterval = setInterval(cleanup, 60 * 60 * 1000) // 1小时
 
         // 组件卸载时清除定时器
         return () => clearInterval(cleanupInterval)
     }, [])
 
+    // 后台自动刷新：定期检查到期的订阅源，标签页隐藏时暂停
+    useEffect(() => {
+        const runDueRefresh = () => {
+            if (document.hidden || !isAutoRefreshEnabled()) return
+            useFeedStore.getState().refreshDueFeeds()
+        }
+
+        const refreshInterval = setInterval(runDueRefresh, REFRESH_CONSTANTS.TICK_INTERVAL * 60 * 1000)
+
+        // 切回标签页时立即补刷隐藏期间到期的订阅源
+        document.addEventListener('visibilitychange', runDueRefresh)
+
+        return () => {
+            clearInterval(refreshInterval)
+            document.removeEventListener('visibilitychange', runDueRefresh)
+        }
+    }, [])
+
+    // WebSub 推送：配置了中继时由推送触发刷新
+    useWebSubRelay()
+
+    // 多设备同步：开启后记录变更并定期同步
+    useSync()
+
+    // 阅读服务器：回写阅读状态并定期拉取
+    useRemoteBackend()
+
     // 全局快捷键监听
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -292,6 +328,9 @@ function App() {
                 }}
             />
 
+            {/* 迷你播放器 - 切换文章时保持播放 */}
+            <MiniPlayer />
+
             {/* Toast 通知 */}
             <Toaster
                 position="top-center"
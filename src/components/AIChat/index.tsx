@@ -7,8 +7,7 @@ import { useFeedStore } from '@/stores/feedStore'
 import { useUIStore } from '@/stores/uiStore'
 import { toast } from 'sonner'
 import { chatWithAIStream, isAIConfigured, DEFAULT_MODEL } from '@/services/ai'
-import { fetchArticleContent } from '@/services/rss'
-import { extractTextFromHtml } from '@/services/contentExtractor'
+import { getArticleContent } from '@/services/contentCache'
 import { db, dbHelpers } from '@/db'
 import { AI_CONSTANTS } from '@/utils/constants'
 import { generateUUID } from '@/utils/uuid'
@@ -181,8 +180,7 @@ export function AIChat({ isOpen, onClose }: AIChatProps) {
     const loadArticleContent = async () => {
         if (!selectedArticle) return
         try {
-            const html = await fetchArticleContent(selectedArticle.link)
-            const text = extractTextFromHtml(html)
+            const { text } = await getArticleContent(selectedArticle)
             setArticleContent(text.slice(0, AI_CONSTANTS.MAX_CONTENT_LENGTH))
         } catch (err) {
             console.error('Failed to load article content:', err)
@@ -1,31 +1,160 @@
 /**
  * 添加订阅源弹窗组件
+ * 粘贴网站首页时会自动发现页面中的订阅源，由用户选择后进入预览，确认后才写入订阅
  */
 import { useState } from 'react'
 import { toast } from 'sonner'
+import { clsx } from 'clsx'
 import { useFeedStore } from '@/stores/feedStore'
+import { discoverFeeds, fetchFeed, type FeedCandidate, type FeedData } from '@/services/rss'
+import { RSSHUB_ROUTE_TEMPLATES, buildRSSHubRoute } from '@/services/rsshub'
+import { FeedPreview, type FeedPreviewFields } from './FeedPreview'
 
 interface AddFeedModalProps {
     isOpen: boolean
     onClose: () => void
+    onScrape?: (url: string) => void  // 网站没有 RSS 时改为按 CSS 选择器生成订阅源
 }
 
-export function AddFeedModal({ isOpen, onClose }: AddFeedModalProps) {
-    const { addFeed } = useFeedStore()
+const INPUT_CLASS = 'w-full px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-orange-500'
+
+const FEED_TYPE_LABELS: Record<NonNullable<FeedCandidate['type']>, string> = {
+    rss: 'RSS',
+    atom: 'Atom',
+    json: 'JSON',
+}
+
+const EMPTY_PREVIEW_FIELDS: FeedPreviewFields = { title: '', category: '', aiFilter: '' }
+
+export function AddFeedModal({ isOpen, onClose, onScrape }: AddFeedModalProps) {
+    const { addFeed, updateFeed, feeds } = useFeedStore()
     const [newFeedUrl, setNewFeedUrl] = useState('')
-    const [newFeedTitle, setNewFeedTitle] = useState('')
     const [isAdding, setIsAdding] = useState(false)
+    // 从网页中发现的候选订阅源（null 表示尚未进入选择步骤）
+    const [candidates, setCandidates] = useState<FeedCandidate[] | null>(null)
+    const [selectedCandidateUrl, setSelectedCandidateUrl] = useState<string | null>(null)
+    // 预览中的订阅源（null 表示尚未进入预览步骤）
+    const [preview, setPreview] = useState<{ url: string; feedData: FeedData } | null>(null)
+    const [previewFields, setPreviewFields] = useState<FeedPreviewFields>(EMPTY_PREVIEW_FIELDS)
+    // RSSHub 路由生成器
+    const [showRouteBuilder, setShowRouteBuilder] = useState(false)
+    const [routeTemplateId, setRouteTemplateId] = useState(RSSHUB_ROUTE_TEMPLATES[0].id)
+    const [routeValues, setRouteValues] = useState<Record<string, string>>({})
 
-    const handleAddFeed = async () => {
-        if (!newFeedUrl.trim()) return
+    const routeTemplate = RSSHUB_ROUTE_TEMPLATES.find(t => t.id === routeTemplateId) ?? RSSHUB_ROUTE_TEMPLATES[0]
+
+    const categories = [...new Set(feeds.map(f => f.category).filter((c): c is string => !!c))]
+
+    // 预览地址已订阅（含迁移前的旧地址）时，确认后改为更新现有订阅源
+    const findSubscribedFeed = (url: string) => feeds.find(f => f.url === url || !!f.previousUrls?.includes(url))
+    const existingFeed = preview ? findSubscribedFeed(preview.url) : undefined
+
+    const resetForm = () => {
+        setNewFeedUrl('')
+        setCandidates(null)
+        setSelectedCandidateUrl(null)
+        setPreview(null)
+        setPreviewFields(EMPTY_PREVIEW_FIELDS)
+        setShowRouteBuilder(false)
+        setRouteValues({})
+    }
+
+    const handleBuildRoute = () => {
+        const route = buildRSSHubRoute(routeTemplate, routeValues)
+        if (!route) {
+            toast.error('请填写完整的路由参数')
+            return
+        }
+        setNewFeedUrl(route)
+        setShowRouteBuilder(false)
+    }
+
+    const handleClose = () => {
+        resetForm()
+        onClose()
+    }
+
+    const handleScrape = () => {
+        const url = newFeedUrl.trim()
+        resetForm()
+        onScrape?.(url)
+    }
+
+    // 进入预览：发现阶段未抓取内容的候选地址先抓取一次（此时不写入数据库）
+    const openPreview = async (candidate: FeedCandidate) => {
+        const feedData = candidate.feedData ?? await fetchFeed(candidate.url)
+        const subscribed = findSubscribedFeed(candidate.url)
+        setPreview({ url: candidate.url, feedData })
+        setPreviewFields(subscribed
+            ? { title: subscribed.title, category: subscribed.category ?? '', aiFilter: subscribed.aiFilter ?? '' }
+            : { ...EMPTY_PREVIEW_FIELDS, title: feedData.title })
+    }
+
+    const handleBack = () => {
+        if (preview) {
+            setPreview(null)
+        } else {
+            setCandidates(null)
+        }
+    }
+
+    const handleSubscribe = async () => {
+        if (!preview) return
 
         setIsAdding(true)
         try {
-            await addFeed(newFeedUrl.trim(), newFeedTitle.trim() || undefined)
-            setNewFeedUrl('')
-            setNewFeedTitle('')
+            if (existingFeed) {
+                await updateFeed(existingFeed.id, {
+                    title: previewFields.title.trim() || existingFeed.title,
+                    category: previewFields.category.trim() || undefined,
+                    aiFilter: previewFields.aiFilter.trim() || undefined,
+                })
+                resetForm()
+                onClose()
+                toast.success('订阅源已更新')
+                return
+            }
+
+            await addFeed(
+                preview.url,
+                previewFields.title.trim() || undefined,
+                previewFields.category.trim() || undefined,
+                previewFields.aiFilter.trim() || undefined,
+                preview.feedData
+            )
+            resetForm()
             onClose()
             toast.success('订阅源添加成功')
+        } catch (err) {
+            console.error('Failed to add feed:', err)
+            toast.error('添加订阅源失败，请重试')
+        } finally {
+            setIsAdding(false)
+        }
+    }
+
+    const handleAddFeed = async () => {
+        if (!newFeedUrl.trim()) return
+
+        setIsAdding(true)
+        try {
+            const found = await discoverFeeds(newFeedUrl.trim())
+
+            if (found.length === 0) {
+                toast.error('未在该网页中发现订阅源', onScrape ? {
+                    action: { label: '按选择器生成', onClick: handleScrape },
+                } : undefined)
+                return
+            }
+
+            // 输入本身就是 Feed，直接预览
+            if (found.length === 1 && found[0].feedData && found[0].url === newFeedUrl.trim()) {
+                await openPreview(found[0])
+                return
+            }
+
+            setCandidates(found)
+            setSelectedCandidateUrl(found[0].url)
         } catch (err) {
             console.error('Failed to add feed:', err)
             toast.error('添加订阅源失败，请检查 URL 是否正确')
@@ -34,53 +163,180 @@ export function AddFeedModal({ isOpen, onClose }: AddFeedModalProps) {
         }
     }
 
+    const handlePreviewCandidate = async () => {
+        const candidate = candidates?.find(c => c.url === selectedCandidateUrl)
+        if (!candidate) return
+
+        setIsAdding(true)
+        try {
+            await openPreview(candidate)
+        } catch (err) {
+            console.error('Failed to preview feed:', err)
+            toast.error('无法获取该订阅源，请尝试其他候选地址')
+        } finally {
+            setIsAdding(false)
+        }
+    }
+
     if (!isOpen) return null
 
     return (
         <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
-            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl p-6 w-96 max-w-[90vw]">
-                <h2 className="text-lg font-semibold mb-4 text-slate-800 dark:text-slate-100">添加订阅源</h2>
-                <div className="space-y-4">
-                    <div>
-                        <label className="block text-sm text-slate-500 dark:text-slate-400 mb-1">
-                            RSS 地址 *
-                        </label>
-                        <input
-                            type="url"
-                            value={newFeedUrl}
-                            onChange={(e) => setNewFeedUrl(e.target.value)}
-                            placeholder="https://example.com/feed.xml"
-                            className="w-full px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-orange-500"
-                            autoFocus
-                        />
+            <div className={clsx(
+                'bg-white dark:bg-slate-800 rounded-xl shadow-xl p-6 max-w-[90vw] max-h-[90vh] overflow-y-auto',
+                preview ? 'w-[32rem]' : 'w-96'
+            )}>
+                <h2 className="text-lg font-semibold mb-4 text-slate-800 dark:text-slate-100">
+                    {preview ? '预览订阅源' : '添加订阅源'}
+                </h2>
+                {preview ? (
+                    <FeedPreview
+                        url={preview.url}
+                        feedData={preview.feedData}
+                        fields={previewFields}
+                        categories={categories}
+                        alreadySubscribed={!!existingFeed}
+                        onChange={setPreviewFields}
+                    />
+                ) : candidates ? (
+                    <div className="space-y-2">
+                        <p className="text-sm text-slate-500 dark:text-slate-400">
+                            在该网页中发现 {candidates.length} 个订阅源，请选择：
+                        </p>
+                        <div className="max-h-64 overflow-y-auto space-y-2">
+                            {candidates.map(candidate => (
+                                <label
+                                    key={candidate.url}
+                                    className={clsx(
+                                        'flex items-start gap-2 p-2 rounded-lg border cursor-pointer transition-colors',
+                                        selectedCandidateUrl === candidate.url
+                                            ? 'border-orange-500 bg-orange-50 dark:bg-orange-900/20'
+                                            : 'border-slate-200 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700'
+                                    )}
+                                >
+                                    <input
+                                        type="radio"
+                                        name="feed-candidate"
+                                        checked={selectedCandidateUrl === candidate.url}
+                                        onChange={() => setSelectedCandidateUrl(candidate.url)}
+                                        className="mt-1 accent-orange-500"
+                                    />
+                                    <div className="flex-1 min-w-0">
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-sm font-medium text-slate-700 dark:text-slate-200 truncate">
+                                                {candidate.title || '未命名订阅源'}
+                                            </span>
+                                            {candidate.type && (
+                                                <span className="text-xs px-1.5 rounded bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400">
+                                                    {FEED_TYPE_LABELS[candidate.type]}
+                                                </span>
+                                            )}
+                                        </div>
+                                        <p className="text-xs text-slate-400 truncate">{candidate.url}</p>
+                                    </div>
+                                </label>
+                            ))}
+                        </div>
                     </div>
-                    <div>
-                        <label className="block text-sm text-slate-500 dark:text-slate-400 mb-1">
-                            名称（可选）
-                        </label>
-                        <input
-                            type="text"
-                            value={newFeedTitle}
-                            onChange={(e) => setNewFeedTitle(e.target.value)}
-                            placeholder="留空则自动获取"
-                            className="w-full px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-orange-500"
-                        />
+                ) : (
+                    <div className="space-y-4">
+                        <div>
+                            <label className="block text-sm text-slate-500 dark:text-slate-400 mb-1">
+                                RSS 或网站地址 *
+                            </label>
+                            <input
+                                type="url"
+                                value={newFeedUrl}
+                                onChange={(e) => setNewFeedUrl(e.target.value)}
+                                placeholder="https://example.com/feed.xml"
+                                className={INPUT_CLASS}
+                                autoFocus
+                            />
+                            <div className="mt-1 flex justify-between">
+                                <button
+                                    onClick={() => setShowRouteBuilder(!showRouteBuilder)}
+                                    className="text-xs text-orange-500 hover:underline"
+                                >
+                                    {showRouteBuilder ? '收起 RSSHub 路由生成' : '使用 RSSHub 路由生成地址'}
+                                </button>
+                                {onScrape && (
+                                    <button
+                                        onClick={handleScrape}
+                                        className="text-xs text-slate-400 hover:text-orange-500 hover:underline"
+                                    >
+                                        网站没有 RSS？
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                        {showRouteBuilder && (
+                            <div className="space-y-2 p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+                                <select
+                                    value={routeTemplate.id}
+                                    onChange={(e) => {
+                                        setRouteTemplateId(e.target.value)
+                                        setRouteValues({})
+                                    }}
+                                    className={INPUT_CLASS}
+                                >
+                                    {RSSHUB_ROUTE_TEMPLATES.map(template => (
+                                        <option key={template.id} value={template.id}>{template.name}</option>
+                                    ))}
+                                </select>
+                                {routeTemplate.params.map(param => (
+                                    <input
+                                        key={param.key}
+                                        type="text"
+                                        value={routeValues[param.key] || ''}
+                                        onChange={(e) => setRouteValues(prev => ({ ...prev, [param.key]: e.target.value }))}
+                                        placeholder={`${param.label}，如 ${param.placeholder}`}
+                                        className={INPUT_CLASS}
+                                    />
+                                ))}
+                                <button
+                                    onClick={handleBuildRoute}
+                                    className="w-full px-3 py-1.5 rounded-lg border border-orange-500 text-orange-500 text-sm hover:bg-orange-50 dark:hover:bg-orange-900/20"
+                                >
+                                    生成 rsshub:// 地址
+                                </button>
+                            </div>
+                        )}
                     </div>
-                </div>
+                )}
                 <div className="flex gap-2 mt-6">
                     <button
-                        onClick={onClose}
+                        onClick={preview || candidates ? handleBack : handleClose}
                         className="flex-1 px-4 py-2 rounded-lg border border-slate-200 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors text-slate-600 dark:text-slate-300"
                     >
-                        取消
-                    </button>
-                    <button
-                        onClick={handleAddFeed}
-                        disabled={isAdding || !newFeedUrl.trim()}
-                        className="flex-1 btn-primary disabled:opacity-50"
-                    >
-                        {isAdding ? '添加中...' : '添加'}
+                        {preview || candidates ? '返回' : '取消'}
                     </button>
+                    {preview ? (
+                        <button
+                            onClick={handleSubscribe}
+                            disabled={isAdding}
+                            className="flex-1 btn-primary disabled:opacity-50"
+                        >
+                            {existingFeed
+                                ? (isAdding ? '更新中...' : '更新订阅源')
+                                : (isAdding ? '订阅中...' : '订阅')}
+                        </button>
+                    ) : candidates ? (
+                        <button
+                            onClick={handlePreviewCandidate}
+                            disabled={isAdding || !selectedCandidateUrl}
+                            className="flex-1 btn-primary disabled:opacity-50"
+                        >
+                            {isAdding ? '获取中...' : '预览所选'}
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleAddFeed}
+                            disabled={isAdding || !newFeedUrl.trim()}
+                            className="flex-1 btn-primary disabled:opacity-50"
+                        >
+                            {isAdding ? '查找中...' : '下一步'}
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
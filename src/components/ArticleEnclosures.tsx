@@ -0,0 +1,129 @@
+/**
+ * 文章附件组件 - 音频交给迷你播放器播放，视频内嵌播放，其他类型提供下载链接
+ */
+import { Play, Pause, Paperclip, Headphones } from 'lucide-react'
+import type { Article, Enclosure } from '@/types'
+import { usePlayerStore } from '@/stores/playerStore'
+import { dbHelpers } from '@/db'
+import { formatDuration, formatFileSize } from '@/utils/format'
+
+type EnclosureKind = 'audio' | 'video' | 'file'
+
+/**
+ * 根据 MIME 类型或扩展名判断附件类型
+ */
+function getEnclosureKind(enclosure: Enclosure): EnclosureKind {
+    const type = enclosure.type?.toLowerCase() || ''
+    if (type.startsWith('audio/')) return 'audio'
+    if (type.startsWith('video/')) return 'video'
+
+    const path = enclosure.url.split('?')[0].toLowerCase()
+    if (/\.(mp3|m4a|aac|ogg|opus|wav|flac)$/.test(path)) return 'audio'
+    if (/\.(mp4|m4v|webm|mov)$/.test(path)) return 'video'
+    return 'file'
+}
+
+interface ArticleEnclosuresProps {
+    article: Article
+}
+
+export function ArticleEnclosures({ article }: ArticleEnclosuresProps) {
+    const { track, isPlaying, play, setPlaying } = usePlayerStore()
+
+    if (!article.enclosures || article.enclosures.length === 0) return null
+
+    return (
+        <div className="space-y-3 mb-6">
+            {article.enclosures.map(enclosure => {
+                const kind = getEnclosureKind(enclosure)
+                const meta = [
+                    enclosure.duration ? formatDuration(enclosure.duration) : null,
+                    enclosure.length ? formatFileSize(enclosure.length) : null,
+                ].filter(Boolean).join(' · ')
+
+                if (kind === 'video') {
+                    return (
+                        <video
+                            key={enclosure.url}
+                            src={enclosure.url}
+                            poster={enclosure.image}
+                            controls
+                            preload="metadata"
+                            className="w-full rounded-xl bg-black"
+                            onLoadedMetadata={async (e) => {
+                                const video = e.currentTarget
+                                const saved = await dbHelpers.getPlaybackPosition(article.id)
+                                if (saved && saved.url === enclosure.url && saved.position < video.duration - 5) {
+                                    video.currentTime = saved.position
+                                }
+                            }}
+                            onPause={(e) => {
+                                dbHelpers.savePlaybackPosition({
+                                    articleId: article.id,
+                                    url: enclosure.url,
+                                    position: e.currentTarget.currentTime,
+                                    duration: e.currentTarget.duration,
+                                })
+                            }}
+                        />
+                    )
+                }
+
+                if (kind === 'audio') {
+                    const isCurrent = track?.url === enclosure.url
+                    return (
+                        <div
+                            key={enclosure.url}
+                            className="flex items-center gap-3 p-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800"
+                        >
+                            {enclosure.image ? (
+                                <img src={enclosure.image} alt="" className="w-12 h-12 rounded object-cover" />
+                            ) : (
+                                <div className="w-12 h-12 rounded bg-orange-100 dark:bg-orange-900/30 text-orange-500 flex items-center justify-center">
+                                    <Headphones size={20} />
+                                </div>
+                            )}
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm font-medium text-slate-700 dark:text-slate-200">播客音频</p>
+                                {meta && <p className="text-xs text-slate-400">{meta}</p>}
+                            </div>
+                            <button
+                                onClick={() => {
+                                    if (isCurrent && isPlaying) {
+                                        setPlaying(false)
+                                    } else {
+                                        play({
+                                            articleId: article.id,
+                                            title: article.title,
+                                            url: enclosure.url,
+                                            type: enclosure.type,
+                                            image: enclosure.image,
+                                        })
+                                    }
+                                }}
+                                className="w-10 h-10 rounded-full bg-orange-500 text-white flex items-center justify-center hover:bg-orange-600"
+                                title={isCurrent && isPlaying ? '暂停' : '播放'}
+                            >
+                                {isCurrent && isPlaying ? <Pause size={18} /> : <Play size={18} />}
+                            </button>
+                        </div>
+                    )
+                }
+
+                return (
+                    <a
+                        key={enclosure.url}
+                        href={enclosure.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-2 text-sm text-orange-500 hover:underline"
+                    >
+                        <Paperclip size={14} />
+                        <span className="truncate">{enclosure.url.split('/').pop() || '附件'}</span>
+                        {meta && <span className="text-xs text-slate-400">{meta}</span>}
+                    </a>
+                )
+            })}
+        </div>
+    )
+}
@@ -1,12 +1,12 @@
 /**
  * 文章阅读视图组件
  */
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { ExternalLink, Star, RefreshCw, Globe, Sparkles } from 'lucide-react'
 import { useFeedStore } from '@/stores/feedStore'
-import { fetchArticleContent } from '@/services/rss'
-import { extractTextFromHtml } from '@/services/contentExtractor'
-import { sanitizeArticleHtml } from '@/services/articleParser'
+import { isAbortError } from '@/services/parserWorker'
+import { getArticleContent } from '@/services/contentCache'
+import { ArticleEnclosures } from './ArticleEnclosures'
 
 import { isAIConfigured } from '@/services/ai'
 import { useUIStore } from '@/stores/uiStore'
@@ -51,6 +51,8 @@ export function ArticleView() {
     const [isLoading, setIsLoading] = useState(false)
     const [showContent, setShowContent] = useState(false)
     const [error, setError] = useState<string | null>(null)
+    // 当前文章的解析任务，切换文章或订阅源时中止
+    const parseControllerRef = useRef<AbortController | null>(null)
 
     const isGenerating = selectedArticle ? generatingSummaryIds.has(selectedArticle.id) : false
 
@@ -58,21 +60,29 @@ export function ArticleView() {
         setContent('')
         setShowContent(false)
         setError(null)
+        setIsLoading(false)
+
+        const controller = new AbortController()
+        parseControllerRef.current = controller
+        return () => controller.abort()
     }, [selectedArticle?.id])
 
     const loadContent = async () => {
         if (!selectedArticle) return
+        const signal = parseControllerRef.current?.signal
 
         setIsLoading(true)
         setError(null)
         try {
-            const html = await fetchArticleContent(selectedArticle.link)
-            setContent(sanitizeArticleHtml(html))
+            const { html } = await getArticleContent(selectedArticle, signal)
+            setContent(html)
             setShowContent(true)
+            setIsLoading(false)
         } catch (err) {
-            setError('无法加载文章内容')
+            // 已切换到其他文章，丢弃结果
+            if (isAbortError(err) || signal?.aborted) return
             console.error('Failed to load content:', err)
-        } finally {
+            setError('无法加载文章内容')
             setIsLoading(false)
         }
     }
@@ -90,8 +100,7 @@ export function ArticleView() {
         let articleContent = content
         if (!articleContent) {
             try {
-                const html = await fetchArticleContent(selectedArticle.link)
-                articleContent = extractTextFromHtml(html)
+                articleContent = (await getArticleContent(selectedArticle)).text
             } catch {
                 articleContent = ''
             }
@@ -163,6 +172,9 @@ export function ArticleView() {
                     {selectedArticle.title}
                 </h1>
 
+                {/* 附件（播客音频 / 视频） */}
+                <ArticleEnclosures article={selectedArticle} />
+
                 {/* AI 摘要卡片 */}
                 <div className="bg-gradient-to-br from-orange-50 to-orange-100/50 dark:from-orange-900/20 dark:to-orange-800/10 rounded-xl border border-orange-200/50 dark:border-orange-800/30 p-4 mb-6">
                     <div className="flex items-center gap-2 mb-3 text-orange-500 font-medium">
@@ -0,0 +1,271 @@
+/**
+ * 完整备份与恢复
+ * 导出全部数据（订阅源、文章、收藏、对话、笔记、设置）为 JSON 备份文件，
+ * 或从备份文件以合并 / 替换模式恢复
+ */
+import { useState, useRef } from 'react'
+import { Download, Upload, Check, AlertCircle, Loader2 } from 'lucide-react'
+import { clsx } from 'clsx'
+import { format } from 'date-fns'
+import {
+    createBackup,
+    parseBackup,
+    summarizeBackup,
+    restoreBackup,
+    type BackupData,
+    type BackupSummary,
+    type RestoreMode,
+    type RestoreResult,
+} from '@/services/backup'
+
+interface BackupRestoreProps {
+    onClose: () => void
+}
+
+// 备份概要中展示的表名
+const TABLE_LABELS: Record<string, string> = {
+    feeds: '订阅源',
+    articles: '文章',
+    starredArticles: '收藏文章',
+    chatSessions: 'AI 对话',
+    starredChatSessions: '收藏对话',
+    notes: '笔记',
+    playbackPositions: '播放进度',
+    articleContents: '正文缓存',
+    syncRecords: '同步记录',
+    settings: '设置项',
+}
+
+const RESTORE_MODES: { value: RestoreMode; label: string; description: string }[] = [
+    { value: 'merge', label: '合并', description: '保留现有数据，同一条记录保留更新时间较新的一方' },
+    { value: 'replace', label: '替换', description: '清空现有数据后完整恢复备份内容' },
+]
+
+export function BackupRestore({ onClose }: BackupRestoreProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const [includeSecrets, setIncludeSecrets] = useState(false)
+    const [includeContentCache, setIncludeContentCache] = useState(false)
+    const [isExporting, setIsExporting] = useState(false)
+    const [status, setStatus] = useState<'idle' | 'restoring' | 'success'>('idle')
+    const [error, setError] = useState<string | null>(null)
+    const [backup, setBackup] = useState<BackupData | null>(null)
+    const [summary, setSummary] = useState<BackupSummary | null>(null)
+    const [fileName, setFileName] = useState('')
+    const [mode, setMode] = useState<RestoreMode>('merge')
+    const [result, setResult] = useState<RestoreResult | null>(null)
+
+    // 导出备份
+    const handleExport = async () => {
+        setIsExporting(true)
+        try {
+            const data = await createBackup({ includeSecrets, includeContentCache })
+            const blob = new Blob([JSON.stringify(data)], { type: 'application/json' })
+            const url = URL.createObjectURL(blob)
+
+            const a = document.createElement('a')
+            a.href = url
+            a.download = `folo_backup_${new Date().toISOString().slice(0, 10)}.json`
+            document.body.appendChild(a)
+            a.click()
+            document.body.removeChild(a)
+            URL.revokeObjectURL(url)
+        } catch (err) {
+            console.error('Failed to create backup:', err)
+            setError('导出失败，请重试')
+        } finally {
+            setIsExporting(false)
+        }
+    }
+
+    // 解析选中的备份文件
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (!file) return
+
+        setError(null)
+        setBackup(null)
+        setSummary(null)
+        setFileName(file.name)
+
+        try {
+            const data = parseBackup(await file.text())
+            setBackup(data)
+            setSummary(summarizeBackup(data))
+        } catch (err) {
+            console.error('Failed to parse backup:', err)
+            setError(err instanceof Error ? err.message : '备份文件解析失败')
+        }
+    }
+
+    // 执行恢复
+    const handleRestore = async () => {
+        if (!backup) return
+        if (mode === 'replace' && !confirm('替换模式将清空现有的全部数据，确定继续吗？')) return
+
+        setStatus('restoring')
+        try {
+            setResult(await restoreBackup(backup, mode))
+            setStatus('success')
+        } catch (err) {
+            console.error('Failed to restore backup:', err)
+            setError('恢复失败，现有数据未被修改')
+            setStatus('idle')
+        }
+    }
+
+    if (status === 'restoring') {
+        return (
+            <div className="py-8 text-center space-y-4">
+                <Loader2 size={32} className="mx-auto text-orange-500 animate-spin" />
+                <h3 className="text-slate-800 dark:text-slate-200 font-medium">正在恢复...</h3>
+            </div>
+        )
+    }
+
+    if (status === 'success' && result) {
+        return (
+            <div className="py-8 text-center space-y-4">
+                <div className="w-12 h-12 bg-green-100 text-green-500 rounded-full flex items-center justify-center mx-auto">
+                    <Check size={24} />
+                </div>
+                <h3 className="text-lg font-medium text-slate-800 dark:text-slate-200">恢复完成</h3>
+                <p className="text-slate-500 dark:text-slate-400">
+                    写入 {result.written} 条记录{result.skipped > 0 && `，跳过 ${result.skipped} 条`}
+                </p>
+                <p className="text-xs text-slate-400">重新加载后生效</p>
+                <button onClick={() => window.location.reload()} className="btn-primary">
+                    重新加载
+                </button>
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* 导出 */}
+            <div className="bg-slate-50 dark:bg-slate-800 p-4 rounded-lg space-y-3">
+                <h3 className="text-sm font-medium text-slate-700 dark:text-slate-200">导出完整备份</h3>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                    包含订阅源、文章、收藏、AI 对话、笔记、AI 筛选规则、布局与各项设置
+                </p>
+                <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                    <input
+                        type="checkbox"
+                        checked={includeSecrets}
+                        onChange={(e) => setIncludeSecrets(e.target.checked)}
+                        className="accent-orange-500"
+                    />
+                    包含 AI API Key、同步与阅读服务器密码（请妥善保管备份文件）
+                </label>
+                <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                    <input
+                        type="checkbox"
+                        checked={includeContentCache}
+                        onChange={(e) => setIncludeContentCache(e.target.checked)}
+                        className="accent-orange-500"
+                    />
+                    包含离线正文缓存（文件会明显变大）
+                </label>
+                <button
+                    onClick={handleExport}
+                    disabled={isExporting}
+                    className="flex items-center gap-2 btn-primary disabled:opacity-50"
+                >
+                    {isExporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+                    导出备份文件
+                </button>
+            </div>
+
+            {/* 恢复 */}
+            <div className="space-y-3">
+                <h3 className="text-sm font-medium text-slate-700 dark:text-slate-200">从备份恢复</h3>
+                <div
+                    className="border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-xl p-6 flex flex-col items-center justify-center text-slate-500 dark:text-slate-400 hover:border-orange-200 dark:hover:border-orange-800 hover:bg-orange-50/50 dark:hover:bg-orange-900/10 transition-colors cursor-pointer"
+                    onClick={() => fileInputRef.current?.click()}
+                >
+                    <Upload size={28} className="mb-2 text-slate-400" />
+                    <p className="text-sm font-medium">点击选择备份文件</p>
+                    <p className="text-xs text-slate-400 mt-1">支持本应用导出的 .json 备份</p>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={handleFileChange}
+                    />
+                </div>
+
+                {error && (
+                    <div className="flex items-center gap-2 text-red-500 text-sm bg-red-50 p-3 rounded-lg">
+                        <AlertCircle size={16} />
+                        {error}
+                    </div>
+                )}
+
+                {summary && (
+                    <div className="bg-slate-50 dark:bg-slate-800 p-4 rounded-lg space-y-2">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-sm font-medium text-slate-700 dark:text-slate-200">
+                                {format(summary.createdAt, 'yyyy-MM-dd HH:mm')} 的备份
+                            </h3>
+                            <span className="text-xs text-slate-400 truncate max-w-[200px]">{fileName}</span>
+                        </div>
+                        <div className="text-xs text-slate-500 dark:text-slate-400 flex flex-col gap-1">
+                            <p>
+                                • {Object.entries(summary.counts)
+                                    .map(([name, count]) => `${TABLE_LABELS[name] ?? name} ${count}`)
+                                    .join('，')}
+                            </p>
+                            <p>• {summary.hasSecrets ? '包含 AI API Key 或密码' : '不含 AI API Key 与密码（保留本地的设置）'}</p>
+                        </div>
+                    </div>
+                )}
+
+                {summary && (
+                    <div className="space-y-2">
+                        {RESTORE_MODES.map(option => (
+                            <label
+                                key={option.value}
+                                className={clsx(
+                                    'flex items-start gap-2 p-3 rounded-lg border cursor-pointer transition-colors',
+                                    mode === option.value
+                                        ? 'border-orange-400 bg-orange-50/50 dark:bg-orange-900/10'
+                                        : 'border-slate-200 dark:border-slate-700'
+                                )}
+                            >
+                                <input
+                                    type="radio"
+                                    name="restore-mode"
+                                    checked={mode === option.value}
+                                    onChange={() => setMode(option.value)}
+                                    className="mt-0.5 accent-orange-500"
+                                />
+                                <div>
+                                    <p className="text-sm font-medium text-slate-700 dark:text-slate-200">{option.label}</p>
+                                    <p className="text-xs text-slate-400">{option.description}</p>
+                                </div>
+                            </label>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="flex justify-end gap-3">
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 rounded-lg text-slate-600 hover:bg-slate-100 transition-colors"
+                >
+                    取消
+                </button>
+                <button
+                    onClick={handleRestore}
+                    disabled={!backup}
+                    className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    开始恢复
+                </button>
+            </div>
+        </div>
+    )
+}
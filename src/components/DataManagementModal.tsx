@@ -3,13 +3,16 @@ import { X, Upload, Download, FileText, Check, AlertCircle, Loader2 } from 'luci
 import { clsx } from 'clsx'
 import { useFeedStore } from '@/stores/feedStore'
 import { parseOpml, generateOpml } from '@/services/opml'
+import { isNewsletterUrl } from '@/services/newsletter'
+import { NewsletterImport } from './NewsletterImport'
+import { BackupRestore } from './BackupRestore'
 
 interface DataManagementModalProps {
     isOpen: boolean
     onClose: () => void
 }
 
-type Tab = 'import' | 'export'
+type Tab = 'import' | 'newsletter' | 'export' | 'backup'
 
 export function DataManagementModal({ isOpen, onClose }: DataManagementModalProps) {
     const [activeTab, setActiveTab] = useState<Tab>('import')
@@ -22,6 +25,8 @@ export function DataManagementModal({ isOpen, onClose }: DataManagementModalProp
     const [importProgress, setImportProgress] = useState({ current: 0, total: 0, success: 0, fail: 0 })
 
     const { feeds } = useFeedStore()
+    // 邮件订阅源没有可供其他阅读器订阅的地址，不导出
+    const exportableFeeds = feeds.filter(feed => !isNewsletterUrl(feed.url))
 
     if (!isOpen) return null
 
@@ -89,7 +94,7 @@ export function DataManagementModal({ isOpen, onClose }: DataManagementModalProp
 
     // 执行导出
     const handleExport = () => {
-        const opmlString = generateOpml(feeds)
+        const opmlString = generateOpml(exportableFeeds)
         const blob = new Blob([opmlString], { type: 'text/xml' })
         const url = URL.createObjectURL(blob)
 
@@ -126,6 +131,17 @@ export function DataManagementModal({ isOpen, onClose }: DataManagementModalProp
                     >
                         导入订阅源
                     </button>
+                    <button
+                        onClick={() => setActiveTab('newsletter')}
+                        className={clsx(
+                            'pb-2 text-sm font-medium border-b-2 transition-colors',
+                            activeTab === 'newsletter'
+                                ? 'border-orange-500 text-orange-600'
+                                : 'border-transparent text-slate-500 hover:text-slate-700'
+                        )}
+                    >
+                        导入邮件订阅
+                    </button>
                     <button
                         onClick={() => setActiveTab('export')}
                         className={clsx(
@@ -135,7 +151,18 @@ export function DataManagementModal({ isOpen, onClose }: DataManagementModalProp
                                 : 'border-transparent text-slate-500 hover:text-slate-700'
                         )}
                     >
-                        导出备份
+                        导出订阅源
+                    </button>
+                    <button
+                        onClick={() => setActiveTab('backup')}
+                        className={clsx(
+                            'pb-2 text-sm font-medium border-b-2 transition-colors',
+                            activeTab === 'backup'
+                                ? 'border-orange-500 text-orange-600'
+                                : 'border-transparent text-slate-500 hover:text-slate-700'
+                        )}
+                    >
+                        完整备份
                     </button>
                 </div>
 
@@ -222,13 +249,17 @@ export function DataManagementModal({ isOpen, onClose }: DataManagementModalProp
                                 </div>
                             )}
                         </div>
+                    ) : activeTab === 'newsletter' ? (
+                        <NewsletterImport onClose={onClose} />
+                    ) : activeTab === 'backup' ? (
+                        <BackupRestore onClose={onClose} />
                     ) : (
                         <div className="space-y-6">
                             <div className="bg-slate-50 dark:bg-slate-800 p-6 rounded-xl flex flex-col items-center text-center">
                                 <FileText size={48} className="text-orange-200 dark:text-orange-900/40 mb-4" />
                                 <h3 className="text-slate-800 dark:text-slate-200 font-medium mb-1">导出订阅源</h3>
                                 <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
-                                    将当前的 {feeds.length} 个订阅源导出为标准 OPML 文件，可用于备份或迁移到其他阅读器。
+                                    将当前的 {exportableFeeds.length} 个订阅源导出为标准 OPML 文件，可用于迁移到其他阅读器。笔记、收藏等数据请使用"完整备份"。
                                 </p>
                                 <button
                                     onClick={handleExport}
@@ -0,0 +1,150 @@
+/**
+ * 编辑订阅源弹窗组件
+ * 修改名称、分类、刷新间隔、抓取方式（自动 / 仅直连 / 指定代理）与文章保留规则
+ */
+import { useState, useEffect } from 'react'
+import { toast } from 'sonner'
+import { useFeedStore } from '@/stores/feedStore'
+import { loadProxySettings, getProxies } from '@/services/proxy'
+import { loadRetentionPolicy, DEFAULT_RETENTION_POLICY } from '@/services/retention'
+import { RetentionPolicyFields } from './RetentionSettings'
+import type { Feed, FeedFetchMode, ProxyConfig, RetentionPolicy } from '@/types'
+
+interface EditFeedModalProps {
+    feed: Feed | null
+    onClose: () => void
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-orange-500'
+
+export function EditFeedModal({ feed, onClose }: EditFeedModalProps) {
+    const [title, setTitle] = useState('')
+    const [category, setCategory] = useState('')
+    const [refreshInterval, setRefreshInterval] = useState('')
+    // 抓取方式：'auto' | 'direct' | 代理 ID
+    const [fetchRoute, setFetchRoute] = useState('auto')
+    const [proxies, setProxies] = useState<ProxyConfig[]>([])
+    // 自定义保留规则（null 表示使用全局规则）
+    const [retention, setRetention] = useState<RetentionPolicy | null>(null)
+    const [globalRetention, setGlobalRetention] = useState<RetentionPolicy | null>(null)
+    const [isSaving, setIsSaving] = useState(false)
+
+    useEffect(() => {
+        if (!feed) return
+        setTitle(feed.title)
+        setCategory(feed.category || '')
+        setRefreshInterval(feed.refreshInterval ? String(feed.refreshInterval) : '')
+        setFetchRoute(feed.fetchMode === 'proxy' && feed.proxyId ? feed.proxyId : (feed.fetchMode || 'auto'))
+        setRetention(feed.retention ?? null)
+        loadProxySettings().then(() => setProxies(getProxies()))
+        loadRetentionPolicy().then(setGlobalRetention)
+    }, [feed])
+
+    if (!feed) return null
+
+    const handleSave = async () => {
+        const interval = parseInt(refreshInterval, 10)
+        const fetchMode: FeedFetchMode = fetchRoute === 'auto' || fetchRoute === 'direct' ? fetchRoute : 'proxy'
+
+        setIsSaving(true)
+        try {
+            await useFeedStore.getState().updateFeed(feed.id, {
+                title: title.trim() || feed.title,
+                category: category.trim() || undefined,
+                refreshInterval: interval > 0 ? interval : undefined,
+                fetchMode,
+                proxyId: fetchMode === 'proxy' ? fetchRoute : undefined,
+                nextRefreshAt: undefined, // 按新的间隔重新计算
+                retention: retention ?? undefined,
+            })
+            toast.success('订阅源已更新')
+            onClose()
+        } catch (err) {
+            console.error('Failed to update feed:', err)
+            toast.error('保存失败，请重试')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl p-6 w-96 max-w-[90vw]">
+                <h2 className="text-lg font-semibold mb-4 text-slate-800 dark:text-slate-100">编辑订阅源</h2>
+                <div className="space-y-4">
+                    <div>
+                        <label className="block text-sm text-slate-500 dark:text-slate-400 mb-1">名称</label>
+                        <input
+                            type="text"
+                            value={title}
+                            onChange={(e) => setTitle(e.target.value)}
+                            className={INPUT_CLASS}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm text-slate-500 dark:text-slate-400 mb-1">分类</label>
+                        <input
+                            type="text"
+                            value={category}
+                            onChange={(e) => setCategory(e.target.value)}
+                            placeholder="未分类"
+                            className={INPUT_CLASS}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm text-slate-500 dark:text-slate-400 mb-1">刷新间隔（分钟）</label>
+                        <input
+                            type="number"
+                            min={1}
+                            value={refreshInterval}
+                            onChange={(e) => setRefreshInterval(e.target.value)}
+                            placeholder="留空使用全局设置"
+                            className={INPUT_CLASS}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm text-slate-500 dark:text-slate-400 mb-1">抓取方式</label>
+                        <select
+                            value={fetchRoute}
+                            onChange={(e) => setFetchRoute(e.target.value)}
+                            className={INPUT_CLASS}
+                        >
+                            <option value="auto">自动（直连失败后使用代理）</option>
+                            <option value="direct">仅直连</option>
+                            {proxies.map(proxy => (
+                                <option key={proxy.id} value={proxy.id}>仅使用代理：{proxy.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400 mb-1">
+                            <input
+                                type="checkbox"
+                                checked={retention !== null}
+                                onChange={(e) => setRetention(e.target.checked ? (globalRetention ?? DEFAULT_RETENTION_POLICY) : null)}
+                                className="accent-orange-500"
+                            />
+                            自定义文章保留规则
+                        </label>
+                        {retention && <RetentionPolicyFields policy={retention} onChange={setRetention} />}
+                    </div>
+                </div>
+                <div className="flex gap-2 mt-6">
+                    <button
+                        onClick={onClose}
+                        className="flex-1 px-4 py-2 rounded-lg border border-slate-200 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors text-slate-600 dark:text-slate-300"
+                    >
+                        取消
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving}
+                        className="flex-1 btn-primary disabled:opacity-50"
+                    >
+                        {isSaving ? '保存中...' : '保存'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
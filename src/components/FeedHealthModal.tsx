@@ -0,0 +1,195 @@
+/**
+ * 订阅源健康弹窗 - 列出抓取失败或长期停更的订阅源，支持重试、修改 URL、退订
+ */
+import { useState } from 'react'
+import { X, RefreshCw, Pencil, Trash2, AlertCircle, Clock, Check, HeartPulse } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { zhCN } from 'date-fns/locale'
+import { toast } from 'sonner'
+import { clsx } from 'clsx'
+import { useFeedStore } from '@/stores/feedStore'
+import { getUnhealthyFeeds } from '@/services/feedHealth'
+import type { Feed } from '@/types'
+
+interface FeedHealthModalProps {
+    isOpen: boolean
+    onClose: () => void
+}
+
+export function FeedHealthModal({ isOpen, onClose }: FeedHealthModalProps) {
+    const { feeds } = useFeedStore()
+    const [retryingIds, setRetryingIds] = useState<Set<string>>(new Set())
+    const [editingFeedId, setEditingFeedId] = useState<string | null>(null)
+    const [editingUrl, setEditingUrl] = useState('')
+
+    if (!isOpen) return null
+
+    const unhealthyFeeds = getUnhealthyFeeds(feeds)
+
+    // 重试抓取
+    const handleRetry = async (feed: Feed) => {
+        setRetryingIds(prev => new Set([...prev, feed.id]))
+        try {
+            await useFeedStore.getState().refreshFeed(feed.id, true)
+            const updated = useFeedStore.getState().feeds.find(f => f.id === feed.id)
+            if (updated && (updated.consecutiveFailures ?? 0) === 0) {
+                toast.success(`"${feed.title}" 抓取成功`)
+            } else {
+                toast.error(`"${feed.title}" 仍然抓取失败`)
+            }
+        } finally {
+            setRetryingIds(prev => {
+                const next = new Set(prev)
+                next.delete(feed.id)
+                return next
+            })
+        }
+    }
+
+    // 开始编辑 URL
+    const startEditing = (feed: Feed) => {
+        setEditingFeedId(feed.id)
+        setEditingUrl(feed.url)
+    }
+
+    // 保存新 URL 并立即重试
+    const handleSaveUrl = async (feed: Feed) => {
+        const url = editingUrl.trim()
+        if (!url || url === feed.url) {
+            setEditingFeedId(null)
+            return
+        }
+
+        try {
+            await useFeedStore.getState().updateFeed(feed.id, { url })
+            setEditingFeedId(null)
+            await handleRetry({ ...feed, url })
+        } catch (err) {
+            console.error('Failed to update feed url:', err)
+            toast.error('修改失败，该 URL 可能已被其他订阅源使用')
+        }
+    }
+
+    // 退订
+    const handleUnsubscribe = async (feed: Feed) => {
+        if (!window.confirm(`确定退订 "${feed.title}"？`)) return
+        await useFeedStore.getState().deleteFeed(feed.id)
+        toast.success(`已退订 "${feed.title}"`)
+    }
+
+    return (
+        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-slate-900 rounded-xl shadow-xl w-[560px] max-w-[90vw] overflow-hidden flex flex-col max-h-[80vh]">
+                {/* 标题栏 */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 dark:border-slate-700">
+                    <h2 className="text-lg font-semibold text-slate-800 dark:text-slate-100">订阅源健康</h2>
+                    <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {/* 内容区 */}
+                <div className="p-6 flex-1 overflow-y-auto space-y-3">
+                    {unhealthyFeeds.length === 0 ? (
+                        <div className="py-8 text-center space-y-3">
+                            <div className="w-12 h-12 bg-green-100 text-green-500 rounded-full flex items-center justify-center mx-auto">
+                                <HeartPulse size={24} />
+                            </div>
+                            <p className="text-slate-500 dark:text-slate-400">所有 {feeds.length} 个订阅源运行正常</p>
+                        </div>
+                    ) : (
+                        unhealthyFeeds.map(({ feed, status }) => (
+                            <div
+                                key={feed.id}
+                                className="bg-slate-50 dark:bg-slate-800 p-4 rounded-lg space-y-2"
+                            >
+                                <div className="flex items-center gap-2">
+                                    <span
+                                        className={clsx(
+                                            'text-xs px-1.5 py-0.5 rounded flex-shrink-0',
+                                            status === 'failing'
+                                                ? 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400'
+                                                : 'bg-amber-100 text-amber-600 dark:bg-amber-900/30 dark:text-amber-400'
+                                        )}
+                                    >
+                                        {status === 'failing' ? `连续失败 ${feed.consecutiveFailures} 次` : '停更'}
+                                    </span>
+                                    <h3 className="flex-1 text-sm font-medium text-slate-700 dark:text-slate-200 truncate">
+                                        {feed.title}
+                                    </h3>
+                                    <button
+                                        onClick={() => handleRetry(feed)}
+                                        disabled={retryingIds.has(feed.id)}
+                                        className="btn-ghost p-1.5 text-slate-500"
+                                        title="重试"
+                                    >
+                                        <RefreshCw size={14} className={clsx(retryingIds.has(feed.id) && 'animate-spin')} />
+                                    </button>
+                                    <button
+                                        onClick={() => startEditing(feed)}
+                                        className="btn-ghost p-1.5 text-slate-500"
+                                        title="修改 URL"
+                                    >
+                                        <Pencil size={14} />
+                                    </button>
+                                    <button
+                                        onClick={() => handleUnsubscribe(feed)}
+                                        className="btn-ghost p-1.5 text-red-500"
+                                        title="退订"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+
+                                {editingFeedId === feed.id ? (
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="url"
+                                            value={editingUrl}
+                                            onChange={(e) => setEditingUrl(e.target.value)}
+                                            onKeyDown={(e) => e.key === 'Enter' && handleSaveUrl(feed)}
+                                            className="flex-1 px-2 py-1 text-xs rounded border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-orange-500"
+                                            autoFocus
+                                        />
+                                        <button onClick={() => handleSaveUrl(feed)} className="btn-ghost p-1.5 text-green-600" title="保存">
+                                            <Check size={14} />
+                                        </button>
+                                        <button onClick={() => setEditingFeedId(null)} className="btn-ghost p-1.5 text-slate-400" title="取消">
+                                            <X size={14} />
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <p className="text-xs text-slate-400 truncate">{feed.url}</p>
+                                )}
+
+                                {feed.lastError && (
+                                    <div className="flex items-start gap-1 text-xs text-red-500" title={feed.lastError}>
+                                        <AlertCircle size={12} className="flex-shrink-0 mt-0.5" />
+                                        <span className="line-clamp-2 break-all">{feed.lastError}</span>
+                                    </div>
+                                )}
+
+                                <div className="flex items-center gap-3 text-xs text-slate-500 dark:text-slate-400">
+                                    <span className="flex items-center gap-1">
+                                        <Clock size={12} />
+                                        {feed.lastSuccessAt
+                                            ? `上次成功 ${formatDistanceToNow(feed.lastSuccessAt, { addSuffix: true, locale: zhCN })}`
+                                            : '从未成功抓取'}
+                                    </span>
+                                    {feed.latestItemAt && (
+                                        <span>
+                                            最新文章 {formatDistanceToNow(feed.latestItemAt, { addSuffix: true, locale: zhCN })}
+                                        </span>
+                                    )}
+                                    {feed.avgItemsPerDay !== undefined && (
+                                        <span>日均 {feed.avgItemsPerDay} 篇</span>
+                                    )}
+                                </div>
+                            </div>
+                        ))
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
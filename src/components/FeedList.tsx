@@ -3,9 +3,40 @@
  */
 import { formatDistanceToNow } from 'date-fns'
 import { zhCN } from 'date-fns/locale'
-import { Clock, Star, CheckCircle, Filter, Loader2, PanelLeftClose, PanelLeftOpen, Rss } from 'lucide-react'
+import { useState, useEffect } from 'react'
+import { Clock, Star, CheckCircle, Filter, Loader2, PanelLeftClose, PanelLeftOpen, Rss, List, LayoutGrid, Images, Copy, History } from 'lucide-react'
+import { toast } from 'sonner'
 import { useFeedStore } from '@/stores/feedStore'
+import { collapseDuplicateArticles, findCrossFeedDuplicates } from '@/services/dedupe'
+import { isNewsletterUrl } from '@/services/newsletter'
+import { BACKFILL_LIMIT_OPTIONS, getBackfillLimit, saveBackfillLimit } from '@/services/backfill'
 import { clsx } from 'clsx'
+import type { ArticleLayout, ArticleDateIssue } from '@/types'
+
+// 每个订阅源的列表布局（localStorage 持久化）
+const LAYOUT_STORAGE_KEY = 'folo_feed_layouts'
+
+const LAYOUT_OPTIONS: Array<{ value: ArticleLayout; label: string; icon: typeof List }> = [
+    { value: 'list', label: '列表', icon: List },
+    { value: 'cards', label: '卡片', icon: LayoutGrid },
+    { value: 'gallery', label: '画廊', icon: Images },
+]
+
+// 发布时间异常时的提示
+const DATE_ISSUE_LABELS: Record<ArticleDateIssue, string> = {
+    missing: '未提供发布时间，按首次抓取时间显示',
+    invalid: '发布时间无法识别，按首次抓取时间显示',
+    future: '发布时间在未来，按首次抓取时间显示',
+}
+
+function loadFeedLayouts(): Record<string, ArticleLayout> {
+    try {
+        const saved = localStorage.getItem(LAYOUT_STORAGE_KEY)
+        return saved ? JSON.parse(saved) : {}
+    } catch {
+        return {}
+    }
+}
 
 interface FeedListProps {
     isExpanded: boolean
@@ -14,18 +45,71 @@ interface FeedListProps {
 
 export function FeedList({ isExpanded, onToggle }: FeedListProps) {
     const {
+        feeds,
         articles,
         filteredArticles,
         selectedFeed,
         selectedArticle,
         selectArticle,
         isFiltering,
+        isLoadingOlder,
+        loadOlderArticles,
     } = useFeedStore()
+    const [backfillLimit, setBackfillLimit] = useState(getBackfillLimit)
+
+    const [feedLayouts, setFeedLayouts] = useState<Record<string, ArticleLayout>>(loadFeedLayouts)
+    const layout: ArticleLayout = (selectedFeed && feedLayouts[selectedFeed.id]) || 'list'
+
+    // 持久化布局选择
+    useEffect(() => {
+        localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(feedLayouts))
+    }, [feedLayouts])
+
+    const handleLayoutChange = (value: ArticleLayout) => {
+        if (!selectedFeed) return
+        setFeedLayouts(prev => ({ ...prev, [selectedFeed.id]: value }))
+    }
 
     // 使用筛选后的文章列表
     // 区分"未筛选"（无 aiFilter）和"筛选结果为空"（有 aiFilter 但 0 匹配）
     const hasFilter = !!selectedFeed?.aiFilter
-    const displayArticles = hasFilter ? filteredArticles : (filteredArticles.length > 0 ? filteredArticles : articles)
+    const displayArticles = collapseDuplicateArticles(
+        hasFilter ? filteredArticles : (filteredArticles.length > 0 ? filteredArticles : articles)
+    )
+
+    // 同一文章还出现在哪些其他订阅源
+    const [crossFeedDuplicates, setCrossFeedDuplicates] = useState<Record<string, string[]>>({})
+    useEffect(() => {
+        let cancelled = false
+        findCrossFeedDuplicates(articles)
+            .then(result => {
+                if (!cancelled) setCrossFeedDuplicates(result)
+            })
+            .catch(err => console.error('[FeedList] Failed to find duplicates:', err))
+        return () => {
+            cancelled = true
+        }
+    }, [articles])
+
+    const handleBackfillLimitChange = (limit: number) => {
+        setBackfillLimit(limit)
+        saveBackfillLimit(limit)
+    }
+
+    const handleLoadOlder = async () => {
+        if (!selectedFeed) return
+        try {
+            const count = await loadOlderArticles(selectedFeed.id)
+            toast.success(count > 0 ? `已加载 ${count} 篇更早的文章` : '没有更早的文章了')
+        } catch {
+            toast.error('加载更早文章失败，请稍后重试')
+        }
+    }
+
+    const getOtherFeedTitles = (articleId: string): string[] =>
+        (crossFeedDuplicates[articleId] || [])
+            .map(feedId => feeds.find(f => f.id === feedId)?.title)
+            .filter((title): title is string => !!title)
 
     // 收缩状态显示
     if (!isExpanded) {
@@ -86,29 +170,56 @@ export function FeedList({ isExpanded, onToggle }: FeedListProps) {
                         <PanelLeftClose size={18} />
                     </button>
                 </div>
-                <p className="text-sm text-slate-400 mt-1">
-                    {selectedFeed.aiFilter ? (
-                        <>
-                            {isFiltering ? (
-                                <span className="text-blue-500">
-                                    <Loader2 size={12} className="inline mr-1 animate-spin" />
-                                    AI 筛选中...
-                                </span>
-                            ) : (
-                                <span className="text-green-600">
-                                    <Filter size={12} className="inline mr-1" />
-                                    已筛选 {displayArticles.length}/{articles.length} 篇
-                                </span>
-                            )}
-                        </>
-                    ) : (
-                        <>{articles.length} 篇文章</>
-                    )}
-                </p>
+                <div className="flex items-center justify-between mt-1">
+                    <p className="text-sm text-slate-400">
+                        {selectedFeed.aiFilter ? (
+                            <>
+                                {isFiltering ? (
+                                    <span className="text-blue-500">
+                                        <Loader2 size={12} className="inline mr-1 animate-spin" />
+                                        AI 筛选中...
+                                    </span>
+                                ) : (
+                                    <span className="text-green-600">
+                                        <Filter size={12} className="inline mr-1" />
+                                        已筛选 {displayArticles.length}/{articles.length} 篇
+                                    </span>
+                                )}
+                            </>
+                        ) : (
+                            <>{articles.length} 篇文章</>
+                        )}
+                    </p>
+                    {/* 布局切换 */}
+                    <div className="flex gap-0.5">
+                        {LAYOUT_OPTIONS.map(({ value, label, icon: Icon }) => (
+                            <button
+                                key={value}
+                                onClick={() => handleLayoutChange(value)}
+                                className={clsx(
+                                    'p-1.5 rounded transition-colors',
+                                    layout === value
+                                        ? 'bg-orange-100 text-orange-600 dark:bg-orange-900/30 dark:text-orange-400'
+                                        : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-300'
+                                )}
+                                title={label}
+                            >
+                                <Icon size={14} />
+                            </button>
+                        ))}
+                    </div>
+                </div>
             </div>
 
             {/* 文章卡片流 */}
-            <div className="flex-1 overflow-y-auto p-3 space-y-3 bg-slate-50 dark:bg-slate-900">
+            <div
+                className={clsx(
+                    'flex-1 overflow-y-auto p-3 bg-slate-50 dark:bg-slate-900',
+                    layout === 'gallery' && displayArticles.length > 0
+                        ? 'grid grid-cols-2 gap-3 content-start'
+                        : 'space-y-3'
+                )}
+            >
                 {displayArticles.length === 0 ? (
                     <div className="text-center py-8 text-slate-400">
                         {isFiltering ? '正在筛选...' : '暂无文章'}
@@ -118,11 +229,45 @@ export function FeedList({ isExpanded, onToggle }: FeedListProps) {
                         <ArticleCard
                             key={article.id}
                             article={article}
+                            layout={layout}
+                            otherFeedTitles={getOtherFeedTitles(article.id)}
                             isSelected={selectedArticle?.id === article.id}
                             onSelect={() => selectArticle(article)}
                         />
                     ))
                 )}
+
+                {/* 加载更早文章（邮件订阅源没有历史分页，阅读服务器的订阅源由服务器提供文章） */}
+                {!isNewsletterUrl(selectedFeed.url) && !selectedFeed.remoteId && (
+                    <div className="col-span-2 flex items-center justify-center gap-2 py-2 text-xs text-slate-400">
+                        {selectedFeed.historyComplete ? (
+                            <span>已加载到最早的文章</span>
+                        ) : (
+                            <>
+                                <button
+                                    onClick={handleLoadOlder}
+                                    disabled={isLoadingOlder}
+                                    className="btn-ghost flex items-center gap-1 text-orange-500 disabled:opacity-50"
+                                >
+                                    {isLoadingOlder
+                                        ? <Loader2 size={14} className="animate-spin" />
+                                        : <History size={14} />}
+                                    {isLoadingOlder ? '加载中...' : '加载更早文章'}
+                                </button>
+                                <select
+                                    value={backfillLimit}
+                                    onChange={(e) => handleBackfillLimitChange(Number(e.target.value))}
+                                    className="bg-transparent border border-slate-200 dark:border-slate-700 rounded px-1 py-0.5 focus:outline-none focus:ring-1 focus:ring-orange-500"
+                                    title="单次最多加载的文章数"
+                                >
+                                    {BACKFILL_LIMIT_OPTIONS.map(limit => (
+                                        <option key={limit} value={limit}>最多 {limit} 篇</option>
+                                    ))}
+                                </select>
+                            </>
+                        )}
+                    </div>
+                )}
             </div>
         </div>
     )
@@ -136,52 +281,126 @@ interface ArticleCardProps {
         pubDate: number
         isRead: boolean
         isStarred: boolean
+        imageUrl?: string
+        dateIssue?: ArticleDateIssue
+        rawPubDate?: string
     }
+    layout: ArticleLayout
+    otherFeedTitles: string[]  // 同时收录该文章的其他订阅源
     isSelected: boolean
     onSelect: () => void
 }
 
 function ArticleCard({
     article,
+    layout,
+    otherFeedTitles,
     isSelected,
     onSelect,
 }: ArticleCardProps) {
+    const [imageFailed, setImageFailed] = useState(false)
     const timeAgo = formatDistanceToNow(new Date(article.pubDate), {
         addSuffix: true,
         locale: zhCN,
     })
+    const showImage = layout !== 'list' && !!article.imageUrl && !imageFailed
+
+    // 画廊布局：图片为主，标题叠加在底部
+    if (layout === 'gallery') {
+        return (
+            <div
+                className={clsx(
+                    'card overflow-hidden cursor-pointer transition-all hover:shadow-md dark:bg-slate-800 dark:border-slate-700',
+                    isSelected && 'ring-2 ring-orange-500',
+                    article.isRead && 'opacity-70'
+                )}
+                onClick={onSelect}
+            >
+                <div className="aspect-square bg-slate-100 dark:bg-slate-700 flex items-center justify-center">
+                    {showImage ? (
+                        <img
+                            src={article.imageUrl}
+                            alt=""
+                            loading="lazy"
+                            className="w-full h-full object-cover"
+                            onError={() => setImageFailed(true)}
+                        />
+                    ) : (
+                        <Rss size={24} className="text-slate-300 dark:text-slate-500" />
+                    )}
+                </div>
+                <h3
+                    className={clsx(
+                        'p-2 text-xs font-medium leading-snug line-clamp-2',
+                        article.isRead ? 'text-slate-400 dark:text-slate-500' : 'text-slate-800 dark:text-slate-200'
+                    )}
+                >
+                    {article.title}
+                </h3>
+            </div>
+        )
+    }
 
     return (
         <div
             className={clsx(
-                'card p-4 cursor-pointer transition-all hover:shadow-md dark:bg-slate-800 dark:border-slate-700',
+                'card cursor-pointer transition-all hover:shadow-md dark:bg-slate-800 dark:border-slate-700',
+                layout === 'cards' ? 'overflow-hidden' : 'p-4',
                 isSelected && 'ring-2 ring-orange-500',
                 article.isRead && 'opacity-70'
             )}
             onClick={onSelect}
         >
-            {/* 标题行 */}
-            <div className="flex items-start gap-2">
-                <h3
-                    className={clsx(
-                        'flex-1 font-medium leading-snug',
-                        article.isRead ? 'text-slate-400 dark:text-slate-500' : 'text-slate-800 dark:text-slate-200'
+            {/* 卡片布局：顶部题图 */}
+            {showImage && (
+                <img
+                    src={article.imageUrl}
+                    alt=""
+                    loading="lazy"
+                    className="w-full h-40 object-cover"
+                    onError={() => setImageFailed(true)}
+                />
+            )}
+
+            <div className={clsx(layout === 'cards' && 'p-4')}>
+                {/* 标题行 */}
+                <div className="flex items-start gap-2">
+                    <h3
+                        className={clsx(
+                            'flex-1 font-medium leading-snug',
+                            article.isRead ? 'text-slate-400 dark:text-slate-500' : 'text-slate-800 dark:text-slate-200'
+                        )}
+                    >
+                        {article.title}
+                    </h3>
+                    {article.isStarred && (
+                        <Star size={16} className="text-amber-500 fill-amber-500 flex-shrink-0" />
                     )}
-                >
-                    {article.title}
-                </h3>
-                {article.isStarred && (
-                    <Star size={16} className="text-amber-500 fill-amber-500 flex-shrink-0" />
-                )}
-                {article.isRead && (
-                    <CheckCircle size={16} className="text-green-500 flex-shrink-0" />
-                )}
-            </div>
+                    {article.isRead && (
+                        <CheckCircle size={16} className="text-green-500 flex-shrink-0" />
+                    )}
+                </div>
 
-            {/* 时间戳 */}
-            <div className="flex items-center gap-1 mt-3 text-xs text-slate-400 dark:text-slate-500">
-                <Clock size={12} />
-                <span>{timeAgo}</span>
+                {/* 时间戳 */}
+                <div
+                    className="flex items-center gap-1 mt-3 text-xs text-slate-400 dark:text-slate-500"
+                    title={article.dateIssue
+                        ? DATE_ISSUE_LABELS[article.dateIssue] + (article.rawPubDate ? `（原始值：${article.rawPubDate}）` : '')
+                        : undefined}
+                >
+                    <Clock size={12} />
+                    <span>{timeAgo}</span>
+                    {article.dateIssue && <span className="text-amber-500">· 抓取时间</span>}
+                    {otherFeedTitles.length > 0 && (
+                        <span
+                            className="ml-auto flex items-center gap-1 text-slate-400"
+                            title={`同时出现在：${otherFeedTitles.join('、')}`}
+                        >
+                            <Copy size={12} />
+                            另见于 {otherFeedTitles.length} 个订阅源
+                        </span>
+                    )}
+                </div>
             </div>
         </div>
     )
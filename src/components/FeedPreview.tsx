@@ -0,0 +1,225 @@
+/**
+ * 订阅前的订阅源预览
+ * 展示订阅源基本信息、发文频率与最新文章，可编辑名称/分类/AI 筛选规则并试运行筛选
+ */
+import { useState, useEffect } from 'react'
+import { Rss, Sparkles, Check, Minus } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { zhCN } from 'date-fns/locale'
+import { clsx } from 'clsx'
+import { toast } from 'sonner'
+import type { FeedData } from '@/services/rss'
+import { filterArticlesBatch, isAIConfigured } from '@/services/ai'
+import { computeItemStats } from '@/services/feedHealth'
+import { parseFeedDate } from '@/utils/date'
+
+// 预览中展示的最新文章数
+const PREVIEW_ITEM_COUNT = 5
+
+const INPUT_CLASS = 'w-full px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-orange-500'
+
+export interface FeedPreviewFields {
+    title: string
+    category: string
+    aiFilter: string
+}
+
+interface FeedPreviewProps {
+    url: string
+    feedData: FeedData
+    fields: FeedPreviewFields
+    categories: string[]
+    alreadySubscribed?: boolean
+    onChange: (fields: FeedPreviewFields) => void
+}
+
+interface PreviewItem {
+    title: string
+    link?: string
+    pubDate?: number
+}
+
+/**
+ * 统计预览信息：最新几篇文章及发文频率
+ */
+function summarizeFeed(feedData: FeedData) {
+    const items: PreviewItem[] = feedData.items.map(item => ({
+        title: item.title || '无标题',
+        link: item.link,
+        pubDate: parseFeedDate(item.pubDate, feedData.language),
+    }))
+    const latestItems = [...items]
+        .sort((a, b) => (b.pubDate ?? 0) - (a.pubDate ?? 0))
+        .slice(0, PREVIEW_ITEM_COUNT)
+
+    return {
+        latestItems,
+        ...computeItemStats(items.map(item => item.pubDate ?? NaN)),
+    }
+}
+
+/**
+ * 订阅源图标地址：Feed 声明的图片，否则使用站点 favicon.ico
+ */
+function getPreviewIcon(feedData: FeedData): string | undefined {
+    if (feedData.image?.url) return feedData.image.url
+    try {
+        return feedData.link ? new URL('/favicon.ico', feedData.link).href : undefined
+    } catch {
+        return undefined
+    }
+}
+
+export function FeedPreview({ url, feedData, fields, categories, alreadySubscribed, onChange }: FeedPreviewProps) {
+    const [iconFailed, setIconFailed] = useState(false)
+    const [isTesting, setIsTesting] = useState(false)
+    // 筛选试运行结果：命中的文章下标（null 表示尚未试运行）
+    const [matchedIndexes, setMatchedIndexes] = useState<Set<number> | null>(null)
+
+    const { latestItems, avgItemsPerDay, latestItemAt } = summarizeFeed(feedData)
+    const icon = getPreviewIcon(feedData)
+
+    // 修改筛选规则后，旧的试运行结果失效
+    useEffect(() => {
+        setMatchedIndexes(null)
+    }, [fields.aiFilter])
+
+    const handleTestFilter = async () => {
+        setIsTesting(true)
+        try {
+            const matched = await filterArticlesBatch(
+                latestItems.map((item, i) => ({ id: String(i), title: item.title })),
+                fields.aiFilter.trim()
+            )
+            setMatchedIndexes(new Set([...matched].map(Number)))
+        } catch (err) {
+            console.error('Failed to test AI filter:', err)
+            toast.error('筛选试运行失败')
+        } finally {
+            setIsTesting(false)
+        }
+    }
+
+    return (
+        <div className="space-y-4">
+            {/* 基本信息 */}
+            <div className="flex items-start gap-3">
+                {icon && !iconFailed ? (
+                    <img
+                        src={icon}
+                        alt=""
+                        className="w-10 h-10 rounded-lg object-cover flex-shrink-0"
+                        onError={() => setIconFailed(true)}
+                    />
+                ) : (
+                    <div className="w-10 h-10 rounded-lg bg-orange-100 dark:bg-orange-900/30 flex items-center justify-center flex-shrink-0">
+                        <Rss size={20} className="text-orange-500" />
+                    </div>
+                )}
+                <div className="flex-1 min-w-0">
+                    <p className="font-medium text-slate-800 dark:text-slate-100 truncate">{feedData.title}</p>
+                    <p className="text-xs text-slate-400 truncate">{url}</p>
+                    {feedData.description && (
+                        <p className="mt-1 text-sm text-slate-500 dark:text-slate-400 line-clamp-2">{feedData.description}</p>
+                    )}
+                </div>
+            </div>
+
+            {alreadySubscribed && (
+                <p className="text-sm text-amber-500">已订阅该订阅源，确认后将更新现有订阅源的标题、分类与 AI 过滤规则</p>
+            )}
+
+            {/* 统计 */}
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500 dark:text-slate-400">
+                <span>共 {feedData.items.length} 篇文章</span>
+                {avgItemsPerDay !== undefined && <span>日均 {avgItemsPerDay} 篇</span>}
+                {latestItemAt !== undefined && (
+                    <span>最新文章 {formatDistanceToNow(latestItemAt, { addSuffix: true, locale: zhCN })}</span>
+                )}
+            </div>
+
+            {/* 最新文章 */}
+            {latestItems.length > 0 && (
+                <ul className="space-y-1 p-2 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+                    {latestItems.map((item, i) => (
+                        <li key={i} className="flex items-center gap-2 text-sm">
+                            {matchedIndexes && (
+                                matchedIndexes.has(i)
+                                    ? <Check size={14} className="text-green-500 flex-shrink-0" />
+                                    : <Minus size={14} className="text-slate-300 dark:text-slate-600 flex-shrink-0" />
+                            )}
+                            <span
+                                className={clsx(
+                                    'flex-1 truncate',
+                                    matchedIndexes && !matchedIndexes.has(i)
+                                        ? 'text-slate-400 dark:text-slate-500'
+                                        : 'text-slate-700 dark:text-slate-200'
+                                )}
+                                title={item.title}
+                            >
+                                {item.title}
+                            </span>
+                            {item.pubDate !== undefined && (
+                                <span className="text-xs text-slate-400 flex-shrink-0">
+                                    {formatDistanceToNow(item.pubDate, { addSuffix: true, locale: zhCN })}
+                                </span>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {/* 订阅设置 */}
+            <div>
+                <label className="block text-sm text-slate-500 dark:text-slate-400 mb-1">名称</label>
+                <input
+                    type="text"
+                    value={fields.title}
+                    onChange={(e) => onChange({ ...fields, title: e.target.value })}
+                    placeholder={feedData.title}
+                    className={INPUT_CLASS}
+                />
+            </div>
+            <div>
+                <label className="block text-sm text-slate-500 dark:text-slate-400 mb-1">分类</label>
+                <input
+                    type="text"
+                    value={fields.category}
+                    onChange={(e) => onChange({ ...fields, category: e.target.value })}
+                    placeholder="未分类"
+                    list="feed-preview-categories"
+                    className={INPUT_CLASS}
+                />
+                <datalist id="feed-preview-categories">
+                    {categories.map(category => <option key={category} value={category} />)}
+                </datalist>
+            </div>
+            <div>
+                <label className="block text-sm text-slate-500 dark:text-slate-400 mb-1">AI 筛选规则（可选）</label>
+                <textarea
+                    value={fields.aiFilter}
+                    onChange={(e) => onChange({ ...fields, aiFilter: e.target.value })}
+                    placeholder="例如：只看与前端开发相关的文章"
+                    rows={2}
+                    className={clsx(INPUT_CLASS, 'resize-none')}
+                />
+                {fields.aiFilter.trim() && (
+                    <button
+                        onClick={handleTestFilter}
+                        disabled={isTesting || !isAIConfigured() || latestItems.length === 0}
+                        className="mt-1 flex items-center gap-1 text-xs text-orange-500 hover:underline disabled:opacity-50 disabled:no-underline"
+                        title={isAIConfigured() ? undefined : '请先在 AI 设置中配置 API Key'}
+                    >
+                        <Sparkles size={12} />
+                        {isTesting ? '筛选中...' : `用最新 ${latestItems.length} 篇文章试运行筛选`}
+                    </button>
+                )}
+                {matchedIndexes && (
+                    <p className="mt-1 text-xs text-slate-400">
+                        {latestItems.length} 篇中有 {matchedIndexes.size} 篇符合规则
+                    </p>
+                )}
+            </div>
+        </div>
+    )
+}
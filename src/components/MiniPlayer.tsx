@@ -0,0 +1,151 @@
+/**
+ * 迷你播放器组件 - 播放文章附件（播客音频），切换文章时保持播放
+ * 播放进度按文章保存在 IndexedDB，重新打开时从上次位置继续
+ */
+import { useEffect, useRef, useState } from 'react'
+import { Play, Pause, X, RotateCcw, RotateCw, Headphones } from 'lucide-react'
+import { usePlayerStore } from '@/stores/playerStore'
+import { dbHelpers } from '@/db'
+import { formatDuration } from '@/utils/format'
+
+// 播放中保存进度的最小间隔（毫秒）
+const SAVE_INTERVAL = 5000
+
+export function MiniPlayer() {
+    const { track, isPlaying, setPlaying, stop } = usePlayerStore()
+    const audioRef = useRef<HTMLAudioElement>(null)
+    const lastSavedAtRef = useRef(0)
+    const [currentTime, setCurrentTime] = useState(0)
+    const [duration, setDuration] = useState(0)
+
+    // 同步播放/暂停状态到 audio 元素
+    useEffect(() => {
+        const audio = audioRef.current
+        if (!audio || !track) return
+
+        if (isPlaying) {
+            audio.play().catch(err => {
+                console.error('[Player] Failed to play:', err)
+                setPlaying(false)
+            })
+        } else {
+            audio.pause()
+        }
+    }, [isPlaying, track, setPlaying])
+
+    if (!track) return null
+
+    const savePosition = (force = false) => {
+        const audio = audioRef.current
+        if (!audio) return
+
+        const now = Date.now()
+        if (!force && now - lastSavedAtRef.current < SAVE_INTERVAL) return
+        lastSavedAtRef.current = now
+
+        dbHelpers.savePlaybackPosition({
+            articleId: track.articleId,
+            url: track.url,
+            position: audio.currentTime,
+            duration: Number.isFinite(audio.duration) ? audio.duration : undefined,
+        }).catch(err => console.error('[Player] Failed to save position:', err))
+    }
+
+    // 加载完元数据后恢复上次播放位置
+    const handleLoadedMetadata = async () => {
+        const audio = audioRef.current
+        if (!audio) return
+
+        setDuration(audio.duration)
+        const saved = await dbHelpers.getPlaybackPosition(track.articleId)
+        // 已接近播完的不再恢复
+        if (saved && saved.url === track.url && saved.position < audio.duration - 5) {
+            audio.currentTime = saved.position
+        }
+    }
+
+    const handleSeek = (offset: number) => {
+        const audio = audioRef.current
+        if (!audio) return
+        audio.currentTime = Math.min(Math.max(audio.currentTime + offset, 0), audio.duration || 0)
+        savePosition(true)
+    }
+
+    const handleClose = () => {
+        savePosition(true)
+        stop()
+    }
+
+    return (
+        <div className="fixed bottom-6 left-6 z-40 w-80 bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 p-3">
+            <audio
+                ref={audioRef}
+                src={track.url}
+                preload="metadata"
+                onLoadedMetadata={handleLoadedMetadata}
+                onTimeUpdate={(e) => {
+                    setCurrentTime(e.currentTarget.currentTime)
+                    savePosition()
+                }}
+                onPause={() => {
+                    savePosition(true)
+                    setPlaying(false)
+                }}
+                onPlay={() => setPlaying(true)}
+                onEnded={() => {
+                    dbHelpers.savePlaybackPosition({ articleId: track.articleId, url: track.url, position: 0, duration })
+                    setPlaying(false)
+                }}
+            />
+
+            <div className="flex items-center gap-3">
+                {track.image ? (
+                    <img src={track.image} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0" />
+                ) : (
+                    <div className="w-10 h-10 rounded bg-orange-100 dark:bg-orange-900/30 text-orange-500 flex items-center justify-center flex-shrink-0">
+                        <Headphones size={18} />
+                    </div>
+                )}
+                <p className="flex-1 text-sm font-medium text-slate-700 dark:text-slate-200 line-clamp-2" title={track.title}>
+                    {track.title}
+                </p>
+                <button onClick={handleClose} className="btn-ghost p-1 text-slate-400" title="关闭播放器">
+                    <X size={16} />
+                </button>
+            </div>
+
+            <input
+                type="range"
+                min={0}
+                max={duration || 0}
+                step={1}
+                value={currentTime}
+                onChange={(e) => {
+                    if (audioRef.current) audioRef.current.currentTime = Number(e.target.value)
+                }}
+                onMouseUp={() => savePosition(true)}
+                className="w-full mt-2 accent-orange-500"
+            />
+
+            <div className="flex items-center justify-between text-xs text-slate-400">
+                <span>{formatDuration(currentTime)}</span>
+                <div className="flex items-center gap-1">
+                    <button onClick={() => handleSeek(-15)} className="btn-ghost p-1" title="后退 15 秒">
+                        <RotateCcw size={16} />
+                    </button>
+                    <button
+                        onClick={() => setPlaying(!isPlaying)}
+                        className="w-8 h-8 rounded-full bg-orange-500 text-white flex items-center justify-center hover:bg-orange-600"
+                        title={isPlaying ? '暂停' : '播放'}
+                    >
+                        {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+                    </button>
+                    <button onClick={() => handleSeek(30)} className="btn-ghost p-1" title="前进 30 秒">
+                        <RotateCw size={16} />
+                    </button>
+                </div>
+                <span>{formatDuration(duration)}</span>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,190 @@
+/**
+ * 邮件订阅导入
+ * 拖入或选择 .eml / .mbox 文件，在解析 Worker 中解析后按发件人归入订阅源
+ */
+import { useState, useRef } from 'react'
+import { Mail, Check, AlertCircle, Loader2 } from 'lucide-react'
+import { clsx } from 'clsx'
+import { useFeedStore } from '@/stores/feedStore'
+import { runParserTask } from '@/services/parserWorker'
+import type { NewsletterMessage } from '@/services/newsletter'
+
+interface NewsletterImportProps {
+    onClose: () => void
+}
+
+const ACCEPTED_EXTENSIONS = ['.eml', '.mbox']
+
+function isMailFile(file: File): boolean {
+    const name = file.name.toLowerCase()
+    return ACCEPTED_EXTENSIONS.some(ext => name.endsWith(ext))
+}
+
+export function NewsletterImport({ onClose }: NewsletterImportProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const [isDragging, setIsDragging] = useState(false)
+    const [status, setStatus] = useState<'idle' | 'parsing' | 'importing' | 'success'>('idle')
+    const [error, setError] = useState<string | null>(null)
+    const [messages, setMessages] = useState<NewsletterMessage[] | null>(null)
+    const [fileNames, setFileNames] = useState<string[]>([])
+    const [result, setResult] = useState<{ feedCount: number; articleCount: number } | null>(null)
+
+    const senders = messages ? Array.from(new Set(messages.map(m => m.from.name || m.from.address))) : []
+
+    // 解析选中的邮件文件
+    const handleFiles = async (fileList: FileList | null) => {
+        const files = Array.from(fileList || []).filter(isMailFile)
+        if (files.length === 0) {
+            setError('请选择 .eml 或 .mbox 格式的邮件文件')
+            return
+        }
+
+        setStatus('parsing')
+        setError(null)
+        setMessages(null)
+        setFileNames(files.map(f => f.name))
+
+        try {
+            const parsed: NewsletterMessage[] = []
+            for (const file of files) {
+                const buffer = await file.arrayBuffer()
+                parsed.push(...await runParserTask('parseNewsletters', { buffer }, undefined, 'interactive'))
+            }
+
+            if (parsed.length === 0) {
+                setError('未在文件中找到有效的邮件')
+            } else {
+                setMessages(parsed)
+            }
+        } catch (err) {
+            console.error('Failed to parse mail files:', err)
+            setError('邮件解析失败，请检查文件格式')
+        } finally {
+            setStatus('idle')
+        }
+    }
+
+    // 执行导入
+    const handleImport = async () => {
+        if (!messages) return
+
+        setStatus('importing')
+        try {
+            setResult(await useFeedStore.getState().importNewsletters(messages))
+            setStatus('success')
+        } catch (err) {
+            console.error('Failed to import newsletters:', err)
+            setError('导入失败，请重试')
+            setStatus('idle')
+        }
+    }
+
+    if (status === 'importing') {
+        return (
+            <div className="py-8 text-center space-y-4">
+                <Loader2 size={32} className="mx-auto text-orange-500 animate-spin" />
+                <h3 className="text-slate-800 dark:text-slate-200 font-medium">正在导入...</h3>
+            </div>
+        )
+    }
+
+    if (status === 'success' && result) {
+        return (
+            <div className="py-8 text-center space-y-4">
+                <div className="w-12 h-12 bg-green-100 text-green-500 rounded-full flex items-center justify-center mx-auto">
+                    <Check size={24} />
+                </div>
+                <h3 className="text-lg font-medium text-slate-800 dark:text-slate-200">导入完成</h3>
+                <p className="text-slate-500 dark:text-slate-400">
+                    {result.articleCount} 封邮件已归入 {result.feedCount} 个订阅源
+                </p>
+                <button onClick={onClose} className="btn-primary">
+                    完成
+                </button>
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-4">
+            <div
+                className={clsx(
+                    'border-2 border-dashed rounded-xl p-8 flex flex-col items-center justify-center text-slate-500 dark:text-slate-400 transition-colors cursor-pointer',
+                    isDragging
+                        ? 'border-orange-400 bg-orange-50/50 dark:bg-orange-900/10'
+                        : 'border-slate-200 dark:border-slate-700 hover:border-orange-200 dark:hover:border-orange-800 hover:bg-orange-50/50 dark:hover:bg-orange-900/10'
+                )}
+                onClick={() => fileInputRef.current?.click()}
+                onDragOver={(e) => {
+                    e.preventDefault()
+                    setIsDragging(true)
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={(e) => {
+                    e.preventDefault()
+                    setIsDragging(false)
+                    handleFiles(e.dataTransfer.files)
+                }}
+            >
+                {status === 'parsing'
+                    ? <Loader2 size={32} className="mb-2 text-orange-500 animate-spin" />
+                    : <Mail size={32} className="mb-2 text-slate-400" />}
+                <p className="text-sm font-medium">{status === 'parsing' ? '正在解析...' : '拖入或点击选择邮件文件'}</p>
+                <p className="text-xs text-slate-400 mt-1">支持 .eml 与 .mbox 格式，可多选</p>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={ACCEPTED_EXTENSIONS.join(',')}
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                        handleFiles(e.target.files)
+                        e.target.value = ''
+                    }}
+                />
+            </div>
+
+            {error && (
+                <div className="flex items-center gap-2 text-red-500 text-sm bg-red-50 p-3 rounded-lg">
+                    <AlertCircle size={16} />
+                    {error}
+                </div>
+            )}
+
+            {messages && (
+                <div className="bg-slate-50 dark:bg-slate-800 p-4 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between">
+                        <h3 className="text-sm font-medium text-slate-700 dark:text-slate-200">解析成功</h3>
+                        <span className="text-xs text-slate-400 truncate max-w-[200px]">
+                            {fileNames.length === 1 ? fileNames[0] : `${fileNames.length} 个文件`}
+                        </span>
+                    </div>
+                    <div className="text-xs text-slate-500 dark:text-slate-400 flex flex-col gap-1">
+                        <p>• 包含 {messages.length} 封邮件</p>
+                        <p>• 来自 {senders.length} 个发件人：{senders.join(', ')}</p>
+                    </div>
+                </div>
+            )}
+
+            <p className="text-xs text-slate-400">
+                每个发件人生成一个邮件订阅源，重复导入同一封邮件不会产生重复文章
+            </p>
+
+            <div className="flex justify-end gap-3">
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 rounded-lg text-slate-600 hover:bg-slate-100 transition-colors"
+                >
+                    取消
+                </button>
+                <button
+                    onClick={handleImport}
+                    disabled={!messages || status === 'parsing'}
+                    className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    开始导入
+                </button>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,254 @@
+/**
+ * CORS 代理设置弹窗
+ * 支持添加/删除/排序代理模板（{url} 为目标地址占位符），并查看各代理的成功率
+ * 同时配置 WebSub 推送中继地址
+ */
+import { useState, useEffect } from 'react'
+import { X, Save, Plus, Trash2, ArrowUp, ArrowDown, RotateCcw } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+    loadProxySettings,
+    getProxies,
+    saveProxies,
+    resetProxies,
+    createProxy,
+    getProxyStats,
+} from '@/services/proxy'
+import { getRelayUrl, saveRelayUrl } from '@/services/websub'
+import type { ProxyConfig } from '@/types'
+
+interface ProxySettingsProps {
+    isOpen: boolean
+    onClose: () => void
+}
+
+/**
+ * 校验代理模板：必须是 http(s) 地址或同源路径
+ */
+function isValidTemplate(template: string): boolean {
+    return /^https?:\/\//i.test(template) || template.startsWith('/')
+}
+
+export function ProxySettings({ isOpen, onClose }: ProxySettingsProps) {
+    const [proxies, setProxies] = useState<ProxyConfig[]>([])
+    const [newTemplate, setNewTemplate] = useState('')
+    const [newName, setNewName] = useState('')
+    const [relayUrl, setRelayUrl] = useState('')
+    const [isSaving, setIsSaving] = useState(false)
+
+    // 加载配置
+    useEffect(() => {
+        if (isOpen) {
+            loadProxySettings().then(() => setProxies(getProxies()))
+            setRelayUrl(getRelayUrl())
+        }
+    }, [isOpen])
+
+    if (!isOpen) return null
+
+    const stats = getProxyStats()
+
+    const handleAdd = () => {
+        const template = newTemplate.trim()
+        if (!isValidTemplate(template)) {
+            toast.error('代理地址需以 http(s):// 或 / 开头')
+            return
+        }
+        if (!template.includes('{url}')) {
+            toast.info('未包含 {url} 占位符，目标地址将追加到末尾')
+        }
+        setProxies(prev => [...prev, createProxy(template, newName)])
+        setNewTemplate('')
+        setNewName('')
+    }
+
+    const handleMove = (index: number, offset: number) => {
+        setProxies(prev => {
+            const next = [...prev]
+            const target = index + offset
+            if (target < 0 || target >= next.length) return prev
+            ;[next[index], next[target]] = [next[target], next[index]]
+            return next
+        })
+    }
+
+    const handleToggle = (id: string) => {
+        setProxies(prev => prev.map(p => p.id === id ? { ...p, enabled: !p.enabled } : p))
+    }
+
+    const handleRemove = (id: string) => {
+        setProxies(prev => prev.filter(p => p.id !== id))
+    }
+
+    const handleReset = async () => {
+        setProxies(await resetProxies())
+        toast.success('已恢复默认代理列表')
+    }
+
+    const handleSave = async () => {
+        const relay = relayUrl.trim()
+        if (relay && !/^https?:\/\//i.test(relay)) {
+            toast.error('中继地址需以 http(s):// 开头')
+            return
+        }
+
+        setIsSaving(true)
+        try {
+            await saveProxies(proxies)
+            if (relay !== getRelayUrl()) {
+                saveRelayUrl(relay)
+                toast.info('推送中继地址已更新，刷新页面后生效')
+            }
+            toast.success('代理设置已保存')
+            onClose()
+        } catch (err) {
+            console.error('Failed to save proxies:', err)
+            toast.error('保存失败，请重试')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl w-full max-w-lg mx-4 overflow-hidden flex flex-col max-h-[80vh]">
+                {/* 头部 */}
+                <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700">
+                    <h2 className="text-lg font-semibold text-slate-800 dark:text-slate-100">代理设置</h2>
+                    <button
+                        onClick={onClose}
+                        className="btn-ghost p-2 text-slate-400 hover:text-slate-600"
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {/* 代理列表 */}
+                <div className="p-4 space-y-2 flex-1 overflow-y-auto">
+                    <p className="text-xs text-slate-400">
+                        直连失败时按顺序尝试以下代理，上次成功的代理会被优先使用。
+                    </p>
+                    {proxies.map((proxy, index) => {
+                        const proxyStats = stats[proxy.id]
+                        return (
+                            <div
+                                key={proxy.id}
+                                className="flex items-center gap-2 p-2 rounded-lg border border-slate-200 dark:border-slate-700"
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={proxy.enabled}
+                                    onChange={() => handleToggle(proxy.id)}
+                                    className="accent-orange-500"
+                                    title={proxy.enabled ? '已启用' : '已停用'}
+                                />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium text-slate-700 dark:text-slate-200 truncate">{proxy.name}</p>
+                                    <p className="text-xs text-slate-400 truncate">{proxy.template}</p>
+                                    {proxyStats && (
+                                        <p className="text-xs text-slate-400">
+                                            成功 {proxyStats.successCount} 次 · 失败 {proxyStats.failureCount} 次
+                                            {proxyStats.consecutiveFailures > 0 && (
+                                                <span className="text-red-500"> · 连续失败 {proxyStats.consecutiveFailures} 次</span>
+                                            )}
+                                        </p>
+                                    )}
+                                </div>
+                                <button
+                                    onClick={() => handleMove(index, -1)}
+                                    disabled={index === 0}
+                                    className="btn-ghost p-1 text-slate-400 disabled:opacity-30"
+                                    title="上移"
+                                >
+                                    <ArrowUp size={14} />
+                                </button>
+                                <button
+                                    onClick={() => handleMove(index, 1)}
+                                    disabled={index === proxies.length - 1}
+                                    className="btn-ghost p-1 text-slate-400 disabled:opacity-30"
+                                    title="下移"
+                                >
+                                    <ArrowDown size={14} />
+                                </button>
+                                <button
+                                    onClick={() => handleRemove(proxy.id)}
+                                    className="btn-ghost p-1 text-red-500"
+                                    title="删除"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        )
+                    })}
+
+                    {/* 添加代理 */}
+                    <div className="pt-2 space-y-2">
+                        <input
+                            type="text"
+                            value={newTemplate}
+                            onChange={(e) => setNewTemplate(e.target.value)}
+                            placeholder="https://proxy.example.com/?url={url}"
+                            className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 placeholder:text-slate-400 dark:placeholder:text-slate-600"
+                        />
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={newName}
+                                onChange={(e) => setNewName(e.target.value)}
+                                placeholder="名称（可选）"
+                                className="flex-1 px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 placeholder:text-slate-400 dark:placeholder:text-slate-600"
+                            />
+                            <button
+                                onClick={handleAdd}
+                                disabled={!newTemplate.trim()}
+                                className="btn-ghost flex items-center gap-1 text-orange-500 disabled:opacity-50"
+                            >
+                                <Plus size={16} />
+                                添加
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* WebSub 推送中继 */}
+                    <div className="pt-4 mt-2 border-t border-slate-200 dark:border-slate-700 space-y-2">
+                        <p className="text-sm font-medium text-slate-700 dark:text-slate-200">WebSub 推送中继</p>
+                        <p className="text-xs text-slate-400">
+                            声明了 hub 的订阅源将通过中继接收推送，无需定时轮询。留空则不启用。
+                        </p>
+                        <input
+                            type="url"
+                            value={relayUrl}
+                            onChange={(e) => setRelayUrl(e.target.value)}
+                            placeholder="http://localhost:8787"
+                            className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 placeholder:text-slate-400 dark:placeholder:text-slate-600"
+                        />
+                    </div>
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="flex items-center justify-between p-4 border-t border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 rounded-b-xl">
+                    <button
+                        onClick={handleReset}
+                        className="btn-ghost flex items-center gap-1 text-slate-500"
+                    >
+                        <RotateCcw size={16} />
+                        恢复默认
+                    </button>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="btn-ghost px-4 py-2">
+                            取消
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={isSaving}
+                            className="btn-primary flex items-center gap-2"
+                        >
+                            <Save size={16} />
+                            {isSaving ? '保存中...' : '保存'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,208 @@
+/**
+ * RSSHub 实例设置弹窗
+ * rsshub:// 订阅源按列表顺序尝试各实例，失败时自动切换到下一个
+ */
+import { useState, useEffect } from 'react'
+import { X, Save, Plus, Trash2, ArrowUp, ArrowDown, RotateCcw } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+    loadRSSHubSettings,
+    getRSSHubInstances,
+    saveRSSHubInstances,
+    resetRSSHubInstances,
+    createRSSHubInstance,
+} from '@/services/rsshub'
+import type { RSSHubInstance } from '@/types'
+
+interface RSSHubSettingsProps {
+    isOpen: boolean
+    onClose: () => void
+}
+
+const INPUT_CLASS = 'px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 placeholder:text-slate-400 dark:placeholder:text-slate-600'
+
+export function RSSHubSettings({ isOpen, onClose }: RSSHubSettingsProps) {
+    const [instances, setInstances] = useState<RSSHubInstance[]>([])
+    const [newUrl, setNewUrl] = useState('')
+    const [newAccessKey, setNewAccessKey] = useState('')
+    const [isSaving, setIsSaving] = useState(false)
+
+    // 加载配置
+    useEffect(() => {
+        if (isOpen) {
+            loadRSSHubSettings().then(() => setInstances(getRSSHubInstances()))
+        }
+    }, [isOpen])
+
+    if (!isOpen) return null
+
+    const handleAdd = () => {
+        const url = newUrl.trim()
+        if (!/^https?:\/\//i.test(url)) {
+            toast.error('实例地址需以 http(s):// 开头')
+            return
+        }
+        setInstances(prev => [...prev, createRSSHubInstance(url, newAccessKey)])
+        setNewUrl('')
+        setNewAccessKey('')
+    }
+
+    const handleMove = (index: number, offset: number) => {
+        setInstances(prev => {
+            const next = [...prev]
+            const target = index + offset
+            if (target < 0 || target >= next.length) return prev
+            ;[next[index], next[target]] = [next[target], next[index]]
+            return next
+        })
+    }
+
+    const handleToggle = (id: string) => {
+        setInstances(prev => prev.map(i => i.id === id ? { ...i, enabled: !i.enabled } : i))
+    }
+
+    const handleRemove = (id: string) => {
+        setInstances(prev => prev.filter(i => i.id !== id))
+    }
+
+    const handleReset = async () => {
+        setInstances(await resetRSSHubInstances())
+        toast.success('已恢复默认实例')
+    }
+
+    const handleSave = async () => {
+        setIsSaving(true)
+        try {
+            await saveRSSHubInstances(instances)
+            toast.success('RSSHub 设置已保存')
+            onClose()
+        } catch (err) {
+            console.error('Failed to save RSSHub instances:', err)
+            toast.error('保存失败，请重试')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl w-full max-w-lg mx-4 overflow-hidden flex flex-col max-h-[80vh]">
+                {/* 头部 */}
+                <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700">
+                    <h2 className="text-lg font-semibold text-slate-800 dark:text-slate-100">RSSHub 设置</h2>
+                    <button
+                        onClick={onClose}
+                        className="btn-ghost p-2 text-slate-400 hover:text-slate-600"
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {/* 实例列表 */}
+                <div className="p-4 space-y-2 flex-1 overflow-y-auto">
+                    <p className="text-xs text-slate-400">
+                        rsshub:// 订阅源按顺序尝试以下实例，上次成功的实例会被优先使用。
+                    </p>
+                    {instances.length === 0 && (
+                        <p className="text-sm text-amber-500">未配置实例，rsshub:// 订阅源将无法更新</p>
+                    )}
+                    {instances.map((instance, index) => (
+                        <div
+                            key={instance.id}
+                            className="flex items-center gap-2 p-2 rounded-lg border border-slate-200 dark:border-slate-700"
+                        >
+                            <input
+                                type="checkbox"
+                                checked={instance.enabled}
+                                onChange={() => handleToggle(instance.id)}
+                                className="accent-orange-500"
+                                title={instance.enabled ? '已启用' : '已停用'}
+                            />
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm font-medium text-slate-700 dark:text-slate-200 truncate">{instance.url}</p>
+                                {instance.accessKey && (
+                                    <p className="text-xs text-slate-400">已设置访问密钥</p>
+                                )}
+                            </div>
+                            <button
+                                onClick={() => handleMove(index, -1)}
+                                disabled={index === 0}
+                                className="btn-ghost p-1 text-slate-400 disabled:opacity-30"
+                                title="上移"
+                            >
+                                <ArrowUp size={14} />
+                            </button>
+                            <button
+                                onClick={() => handleMove(index, 1)}
+                                disabled={index === instances.length - 1}
+                                className="btn-ghost p-1 text-slate-400 disabled:opacity-30"
+                                title="下移"
+                            >
+                                <ArrowDown size={14} />
+                            </button>
+                            <button
+                                onClick={() => handleRemove(instance.id)}
+                                className="btn-ghost p-1 text-red-500"
+                                title="删除"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+
+                    {/* 添加实例 */}
+                    <div className="pt-2 space-y-2">
+                        <input
+                            type="url"
+                            value={newUrl}
+                            onChange={(e) => setNewUrl(e.target.value)}
+                            placeholder="https://rsshub.example.com"
+                            className={`w-full ${INPUT_CLASS}`}
+                        />
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={newAccessKey}
+                                onChange={(e) => setNewAccessKey(e.target.value)}
+                                placeholder="访问密钥（可选）"
+                                className={`flex-1 ${INPUT_CLASS}`}
+                            />
+                            <button
+                                onClick={handleAdd}
+                                disabled={!newUrl.trim()}
+                                className="btn-ghost flex items-center gap-1 text-orange-500 disabled:opacity-50"
+                            >
+                                <Plus size={16} />
+                                添加
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="flex items-center justify-between p-4 border-t border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 rounded-b-xl">
+                    <button
+                        onClick={handleReset}
+                        className="btn-ghost flex items-center gap-1 text-slate-500"
+                    >
+                        <RotateCcw size={16} />
+                        恢复默认
+                    </button>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="btn-ghost px-4 py-2">
+                            取消
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={isSaving}
+                            className="btn-primary flex items-center gap-2"
+                        >
+                            <Save size={16} />
+                            {isSaving ? '保存中...' : '保存'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,244 @@
+/**
+ * 阅读服务器设置弹窗
+ * 选择 Google Reader 兼容服务（FreshRSS 等）或 Miniflux 作为后端，测试连接、立即拉取并查看最近一次拉取状态
+ */
+import { useState, useEffect } from 'react'
+import { X, RefreshCw, Check, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { useFeedStore } from '@/stores/feedStore'
+import {
+    getRemoteBackendConfig,
+    saveRemoteBackendConfig,
+    getRemoteStatus,
+    verifyRemoteBackend,
+    REMOTE_INTERVAL_OPTIONS,
+    type RemoteBackendConfig,
+    type RemoteBackendType,
+    type RemoteStatus,
+} from '@/services/remoteBackend'
+
+interface RemoteBackendSettingsProps {
+    isOpen: boolean
+    onClose: () => void
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-orange-500 text-sm'
+
+const BACKEND_OPTIONS: { value: RemoteBackendType; label: string; placeholder: string; hint: string }[] = [
+    { value: 'none', label: '不使用', placeholder: '', hint: '' },
+    {
+        value: 'greader',
+        label: 'Google Reader API',
+        placeholder: 'https://freshrss.example.com/api/greader.php',
+        hint: 'FreshRSS 等兼容服务的 API 地址；密码为服务器中单独设置的 API 密码',
+    },
+    {
+        value: 'miniflux',
+        label: 'Miniflux',
+        placeholder: 'https://miniflux.example.com',
+        hint: 'Miniflux 根地址；可只在密码栏填写 API 令牌，用户名留空',
+    },
+]
+
+export function RemoteBackendSettings({ isOpen, onClose }: RemoteBackendSettingsProps) {
+    const [config, setConfig] = useState<RemoteBackendConfig>(getRemoteBackendConfig)
+    const [status, setStatus] = useState<RemoteStatus>(getRemoteStatus)
+    const [isTesting, setIsTesting] = useState(false)
+    const [isVerified, setIsVerified] = useState(false)
+    const [isPulling, setIsPulling] = useState(false)
+
+    useEffect(() => {
+        if (!isOpen) return
+        setConfig(getRemoteBackendConfig())
+        setStatus(getRemoteStatus())
+        setIsVerified(false)
+    }, [isOpen])
+
+    if (!isOpen) return null
+
+    const update = (changes: Partial<RemoteBackendConfig>) => {
+        setConfig(prev => ({ ...prev, ...changes }))
+        setIsVerified(false)
+    }
+
+    const option = BACKEND_OPTIONS.find(o => o.value === config.type) ?? BACKEND_OPTIONS[0]
+
+    const confirmSwitch = () => {
+        const previous = getRemoteBackendConfig()
+        if (previous.type === 'none' || (previous.type === config.type && previous.url.trim() === config.url.trim())) {
+            return true
+        }
+        return confirm('更换或停用阅读服务器后，现有订阅源将改为在本地抓取，确定继续吗？')
+    }
+
+    const handleTest = async () => {
+        setIsTesting(true)
+        try {
+            await verifyRemoteBackend(config)
+            setIsVerified(true)
+            toast.success('连接成功')
+        } catch (err) {
+            toast.error(`连接失败：${err instanceof Error ? err.message : String(err)}`)
+        } finally {
+            setIsTesting(false)
+        }
+    }
+
+    const handleSave = async () => {
+        if (!confirmSwitch()) return
+        await saveRemoteBackendConfig(config)
+        await useFeedStore.getState().loadFeeds()
+        toast.success('阅读服务器设置已保存')
+        onClose()
+    }
+
+    // 保存设置后立即拉取
+    const handlePull = async () => {
+        if (!confirmSwitch()) return
+        setIsPulling(true)
+        try {
+            await saveRemoteBackendConfig(config)
+            const result = await useFeedStore.getState().pullRemote()
+            toast.success(`拉取完成：${result.feeds} 个订阅源，${result.items} 篇文章`)
+        } catch (err) {
+            toast.error(`拉取失败：${err instanceof Error ? err.message : String(err)}`)
+        } finally {
+            setStatus(getRemoteStatus())
+            setIsPulling(false)
+        }
+    }
+
+    const canConnect = config.type !== 'none' && !!config.url.trim()
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl w-full max-w-lg mx-4 overflow-hidden flex flex-col max-h-[80vh]">
+                {/* 头部 */}
+                <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700">
+                    <h2 className="text-lg font-semibold text-slate-800 dark:text-slate-100">阅读服务器</h2>
+                    <button
+                        onClick={onClose}
+                        className="btn-ghost p-2 text-slate-400 hover:text-slate-600"
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-4 flex-1 overflow-y-auto">
+                    <p className="text-xs text-slate-400">
+                        以自建的 FreshRSS、Miniflux 等服务器作为后端：订阅源、分类、文章与未读/收藏状态从服务器拉取，
+                        在本应用中的已读与收藏会回写到服务器。订阅源的增删请在服务器上操作
+                    </p>
+
+                    {/* 服务器类型 */}
+                    <div className="flex gap-4">
+                        {BACKEND_OPTIONS.map(backend => (
+                            <label key={backend.value} className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                                <input
+                                    type="radio"
+                                    name="remote-backend-type"
+                                    checked={config.type === backend.value}
+                                    onChange={() => update({ type: backend.value })}
+                                    className="accent-orange-500"
+                                />
+                                {backend.label}
+                            </label>
+                        ))}
+                    </div>
+
+                    {config.type !== 'none' && (
+                        <div className="space-y-2">
+                            <input
+                                type="url"
+                                value={config.url}
+                                onChange={(e) => update({ url: e.target.value })}
+                                placeholder={option.placeholder}
+                                className={INPUT_CLASS}
+                            />
+                            <div className="grid grid-cols-2 gap-2">
+                                <input
+                                    type="text"
+                                    value={config.username}
+                                    onChange={(e) => update({ username: e.target.value })}
+                                    placeholder={config.type === 'miniflux' ? '用户名（可选）' : '用户名'}
+                                    autoComplete="username"
+                                    className={INPUT_CLASS}
+                                />
+                                <input
+                                    type="password"
+                                    value={config.password}
+                                    onChange={(e) => update({ password: e.target.value })}
+                                    placeholder={config.type === 'miniflux' ? '密码或 API 令牌' : 'API 密码'}
+                                    autoComplete="current-password"
+                                    className={INPUT_CLASS}
+                                />
+                            </div>
+                            <p className="text-xs text-slate-400">
+                                {option.hint}。服务器需允许跨域访问；本地测试可运行 <code>pnpm mock-reader</code> 启动模拟服务器
+                            </p>
+                            <button
+                                onClick={handleTest}
+                                disabled={!canConnect || isTesting}
+                                className="btn-ghost flex items-center gap-1 text-sm text-orange-500 disabled:opacity-50"
+                            >
+                                {isTesting
+                                    ? <Loader2 size={14} className="animate-spin" />
+                                    : isVerified ? <Check size={14} /> : <RefreshCw size={14} />}
+                                测试连接
+                            </button>
+                        </div>
+                    )}
+
+                    {/* 自动拉取 */}
+                    <div className="flex items-center justify-between">
+                        <span className="text-sm text-slate-600 dark:text-slate-300">自动拉取</span>
+                        <select
+                            value={config.interval}
+                            onChange={(e) => update({ interval: Number(e.target.value) })}
+                            className="bg-transparent border border-slate-200 dark:border-slate-700 rounded px-2 py-1 text-sm text-slate-600 dark:text-slate-300 focus:outline-none focus:ring-1 focus:ring-orange-500"
+                        >
+                            {REMOTE_INTERVAL_OPTIONS.map(interval => (
+                                <option key={interval.value} value={interval.value}>{interval.label}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* 拉取状态 */}
+                    <div className="flex items-center gap-2 rounded-lg border border-slate-200 dark:border-slate-700 px-3 py-2">
+                        <div className="flex-1 text-xs">
+                            {status.lastPullAt ? (
+                                <p className="text-slate-500 dark:text-slate-400">
+                                    上次拉取 {format(status.lastPullAt, 'MM-dd HH:mm')}，{status.feeds ?? 0} 个订阅源，{status.items ?? 0} 篇文章
+                                </p>
+                            ) : (
+                                <p className="text-slate-400">尚未拉取</p>
+                            )}
+                            {status.lastError && (status.lastAttemptAt ?? 0) > (status.lastPullAt ?? 0) && (
+                                <p className="text-red-500 mt-0.5">最近一次拉取失败：{status.lastError}</p>
+                            )}
+                        </div>
+                        <button
+                            onClick={handlePull}
+                            disabled={!canConnect || isPulling}
+                            className="btn-ghost flex items-center gap-1 text-xs text-orange-500 disabled:opacity-50"
+                        >
+                            <RefreshCw size={12} className={isPulling ? 'animate-spin' : undefined} />
+                            {isPulling ? '拉取中...' : '立即拉取'}
+                        </button>
+                    </div>
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="flex justify-end gap-2 p-4 border-t border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 rounded-b-xl">
+                    <button onClick={onClose} className="btn-ghost px-4 py-2">
+                        取消
+                    </button>
+                    <button onClick={handleSave} className="btn-primary">
+                        保存
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,353 @@
+/**
+ * 存储与保留设置弹窗
+ * 配置全局保留规则，预览下次清理将删除的文章，手动清理并查看最近的清理报告；
+ * 配置离线正文缓存（开关、容量上限），预取未读文章或清空缓存
+ */
+import { useState, useEffect } from 'react'
+import { X, Trash2, DownloadCloud } from 'lucide-react'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { useFeedStore } from '@/stores/feedStore'
+import {
+    loadRetentionPolicy,
+    saveRetentionPolicy,
+    planCleanup,
+    runCleanup,
+    getCleanupReports,
+    describeRetentionPolicy,
+    type CleanupPlan,
+    type CleanupReport,
+} from '@/services/retention'
+import {
+    getContentCacheSettings,
+    saveContentCacheSettings,
+    getContentCacheStats,
+    clearContentCache,
+    prefetchUnreadContents,
+    CONTENT_CACHE_SIZE_OPTIONS,
+    type ContentCacheSettings,
+} from '@/services/contentCache'
+import type { RetentionPolicy } from '@/types'
+
+interface RetentionSettingsProps {
+    isOpen: boolean
+    onClose: () => void
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-orange-500 text-sm'
+
+// 修改规则后延迟多久重新预览（毫秒）
+const PREVIEW_DEBOUNCE = 300
+
+/**
+ * 输入框内容转为正整数，留空或无效时为 undefined（不限）
+ */
+function parseLimit(value: string): number | undefined {
+    const parsed = parseInt(value, 10)
+    return parsed > 0 ? parsed : undefined
+}
+
+interface RetentionPolicyFieldsProps {
+    policy: RetentionPolicy
+    onChange: (policy: RetentionPolicy) => void
+}
+
+/**
+ * 保留规则表单（全局设置与订阅源自定义规则共用）
+ */
+export function RetentionPolicyFields({ policy, onChange }: RetentionPolicyFieldsProps) {
+    return (
+        <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+                <div>
+                    <label className="block text-xs text-slate-500 dark:text-slate-400 mb-1">保留天数</label>
+                    <input
+                        type="number"
+                        min={1}
+                        value={policy.keepDays ?? ''}
+                        onChange={(e) => onChange({ ...policy, keepDays: parseLimit(e.target.value) })}
+                        placeholder="不限"
+                        className={INPUT_CLASS}
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-500 dark:text-slate-400 mb-1">保留最新篇数</label>
+                    <input
+                        type="number"
+                        min={1}
+                        value={policy.keepLatest ?? ''}
+                        onChange={(e) => onChange({ ...policy, keepLatest: parseLimit(e.target.value) })}
+                        placeholder="不限"
+                        className={INPUT_CLASS}
+                    />
+                </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                <input
+                    type="checkbox"
+                    checked={policy.keepUnread}
+                    onChange={(e) => onChange({ ...policy, keepUnread: e.target.checked })}
+                    className="accent-orange-500"
+                />
+                未读文章永久保留
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                <input
+                    type="checkbox"
+                    checked={policy.keepReferenced}
+                    onChange={(e) => onChange({ ...policy, keepReferenced: e.target.checked })}
+                    className="accent-orange-500"
+                />
+                被笔记引用或有 AI 对话的文章永久保留
+            </label>
+            <p className="text-xs text-slate-400">
+                {describeRetentionPolicy(policy)}；收藏的文章始终保留
+            </p>
+        </div>
+    )
+}
+
+export function RetentionSettings({ isOpen, onClose }: RetentionSettingsProps) {
+    const [policy, setPolicy] = useState<RetentionPolicy | null>(null)
+    const [plan, setPlan] = useState<CleanupPlan | null>(null)
+    const [reports, setReports] = useState<CleanupReport[]>([])
+    const [isSaving, setIsSaving] = useState(false)
+    const [isCleaning, setIsCleaning] = useState(false)
+    const [cacheSettings, setCacheSettings] = useState<ContentCacheSettings>(getContentCacheSettings)
+    const [cacheStats, setCacheStats] = useState<{ count: number; size: number } | null>(null)
+    // 预取进度（null 表示未在预取）
+    const [prefetchProgress, setPrefetchProgress] = useState<{ done: number; total: number } | null>(null)
+
+    // 加载配置、清理报告与缓存占用
+    useEffect(() => {
+        if (!isOpen) return
+        loadRetentionPolicy().then(setPolicy)
+        getCleanupReports().then(setReports)
+        setCacheSettings(getContentCacheSettings())
+        getContentCacheStats().then(setCacheStats)
+    }, [isOpen])
+
+    // 按正在编辑的规则预览清理结果
+    useEffect(() => {
+        if (!isOpen || !policy) return
+        let cancelled = false
+        const timer = setTimeout(() => {
+            planCleanup(policy)
+                .then(result => {
+                    if (!cancelled) setPlan(result)
+                })
+                .catch(err => console.error('[Retention] Failed to preview cleanup:', err))
+        }, PREVIEW_DEBOUNCE)
+        return () => {
+            cancelled = true
+            clearTimeout(timer)
+        }
+    }, [isOpen, policy])
+
+    if (!isOpen || !policy) return null
+
+    const handleSave = async () => {
+        setIsSaving(true)
+        try {
+            await saveRetentionPolicy(policy)
+            await saveContentCacheSettings(cacheSettings)
+            toast.success('设置已保存')
+            onClose()
+        } catch (err) {
+            console.error('Failed to save retention policy:', err)
+            toast.error('保存失败，请重试')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    // 保存规则后立即清理
+    const handleCleanup = async () => {
+        setIsCleaning(true)
+        try {
+            await saveRetentionPolicy(policy)
+            const report = await runCleanup()
+            toast.success(`已清理 ${report.deletedArticles} 篇文章`)
+            setReports(await getCleanupReports())
+            setPlan(await planCleanup(policy))
+
+            // 当前订阅源的文章可能已被删除，重新加载列表
+            const { selectedFeed, selectFeed } = useFeedStore.getState()
+            if (selectedFeed && report.feeds.some(f => f.feedId === selectedFeed.id)) {
+                selectFeed(selectedFeed)
+            }
+        } catch (err) {
+            console.error('Failed to clean up articles:', err)
+            toast.error('清理失败，请重试')
+        } finally {
+            setIsCleaning(false)
+        }
+    }
+
+    const handlePrefetch = async () => {
+        setPrefetchProgress({ done: 0, total: 0 })
+        try {
+            await saveContentCacheSettings(cacheSettings)
+            const count = await prefetchUnreadContents((done, total) => setPrefetchProgress({ done, total }))
+            toast.success(count > 0 ? `已缓存 ${count} 篇未读文章` : '没有需要缓存的未读文章')
+            setCacheStats(await getContentCacheStats())
+        } catch (err) {
+            console.error('Failed to prefetch contents:', err)
+            toast.error('预取失败，请重试')
+        } finally {
+            setPrefetchProgress(null)
+        }
+    }
+
+    const handleClearCache = async () => {
+        await clearContentCache()
+        setCacheStats({ count: 0, size: 0 })
+        toast.success('已清空正文缓存')
+    }
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl w-full max-w-lg mx-4 overflow-hidden flex flex-col max-h-[80vh]">
+                {/* 头部 */}
+                <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700">
+                    <h2 className="text-lg font-semibold text-slate-800 dark:text-slate-100">存储与保留</h2>
+                    <button
+                        onClick={onClose}
+                        className="btn-ghost p-2 text-slate-400 hover:text-slate-600"
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-4 flex-1 overflow-y-auto">
+                    {/* 全局规则 */}
+                    <div>
+                        <h3 className="text-sm font-medium text-slate-700 dark:text-slate-200 mb-2">全局规则</h3>
+                        <RetentionPolicyFields policy={policy} onChange={setPolicy} />
+                        <p className="mt-1 text-xs text-slate-400">可在订阅源的编辑弹窗中为单个订阅源设置自定义规则</p>
+                    </div>
+
+                    {/* 清理预览 */}
+                    <div className="rounded-lg border border-slate-200 dark:border-slate-700">
+                        <div className="flex items-center justify-between px-3 py-2 border-b border-slate-200 dark:border-slate-700">
+                            <span className="text-xs text-slate-500 dark:text-slate-400">
+                                {plan
+                                    ? `下次清理将删除 ${plan.articleIds.length} 篇文章、${plan.expiredChatSessions} 个过期对话`
+                                    : '正在计算...'}
+                            </span>
+                            <button
+                                onClick={handleCleanup}
+                                disabled={isCleaning || !plan || (plan.articleIds.length === 0 && plan.expiredChatSessions === 0)}
+                                className="btn-ghost flex items-center gap-1 text-xs text-red-500 disabled:opacity-50"
+                            >
+                                <Trash2 size={12} />
+                                {isCleaning ? '清理中...' : '立即清理'}
+                            </button>
+                        </div>
+                        {plan && plan.feeds.length > 0 && (
+                            <ul className="divide-y divide-slate-100 dark:divide-slate-800 max-h-48 overflow-y-auto">
+                                {plan.feeds.map(feed => (
+                                    <li key={feed.feedId} className="px-3 py-2 text-sm">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="truncate text-slate-700 dark:text-slate-200">{feed.title}</span>
+                                            <span className="text-xs text-slate-400 flex-shrink-0">{feed.count} 篇</span>
+                                        </div>
+                                        <p className="text-xs text-slate-400 truncate">
+                                            {feed.sampleTitles.join('、')}{feed.count > feed.sampleTitles.length ? ' 等' : ''}
+                                        </p>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    {/* 离线正文缓存 */}
+                    <div>
+                        <h3 className="text-sm font-medium text-slate-700 dark:text-slate-200 mb-2">离线正文缓存</h3>
+                        <div className="flex items-center gap-3">
+                            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                                <input
+                                    type="checkbox"
+                                    checked={cacheSettings.enabled}
+                                    onChange={(e) => setCacheSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+                                    className="accent-orange-500"
+                                />
+                                缓存打开过的文章原文
+                            </label>
+                            <select
+                                value={cacheSettings.maxSizeMB}
+                                onChange={(e) => setCacheSettings(prev => ({ ...prev, maxSizeMB: Number(e.target.value) }))}
+                                disabled={!cacheSettings.enabled}
+                                className="ml-auto bg-transparent border border-slate-200 dark:border-slate-700 rounded px-1 py-0.5 text-xs text-slate-500 focus:outline-none focus:ring-1 focus:ring-orange-500 disabled:opacity-50"
+                                title="缓存容量上限，超出时删除最久未读取的文章"
+                            >
+                                {CONTENT_CACHE_SIZE_OPTIONS.map(size => (
+                                    <option key={size} value={size}>上限 {size} MB</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="flex items-center gap-2 mt-2 text-xs text-slate-400">
+                            <span>
+                                {cacheStats
+                                    ? `已缓存 ${cacheStats.count} 篇，约 ${(cacheStats.size / 1024 / 1024).toFixed(1)} MB`
+                                    : '正在统计...'}
+                            </span>
+                            <button
+                                onClick={handlePrefetch}
+                                disabled={!cacheSettings.enabled || prefetchProgress !== null}
+                                className="btn-ghost ml-auto flex items-center gap-1 text-orange-500 disabled:opacity-50"
+                            >
+                                <DownloadCloud size={12} />
+                                {prefetchProgress
+                                    ? `预取中 ${prefetchProgress.done}/${prefetchProgress.total}`
+                                    : '预取未读文章'}
+                            </button>
+                            <button
+                                onClick={handleClearCache}
+                                disabled={!cacheStats?.count || prefetchProgress !== null}
+                                className="btn-ghost flex items-center gap-1 text-red-500 disabled:opacity-50"
+                            >
+                                <Trash2 size={12} />
+                                清空
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* 清理报告 */}
+                    {reports.length > 0 && (
+                        <div>
+                            <h3 className="text-sm font-medium text-slate-700 dark:text-slate-200 mb-2">最近清理</h3>
+                            <ul className="space-y-1">
+                                {reports.map(report => (
+                                    <li key={report.at} className="text-xs text-slate-500 dark:text-slate-400">
+                                        <span className="text-slate-400">{format(report.at, 'MM-dd HH:mm')}</span>
+                                        {' '}删除 {report.deletedArticles} 篇文章、{report.deletedChatSessions} 个过期对话
+                                        {report.feeds.length > 0 && (
+                                            <span className="text-slate-400">
+                                                （{report.feeds.map(f => `${f.title} ${f.count}`).join('、')}）
+                                            </span>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="flex justify-end gap-2 p-4 border-t border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 rounded-b-xl">
+                    <button onClick={onClose} className="btn-ghost px-4 py-2">
+                        取消
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving}
+                        className="btn-primary disabled:opacity-50"
+                    >
+                        {isSaving ? '保存中...' : '保存'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
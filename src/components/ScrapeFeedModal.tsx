@@ -0,0 +1,314 @@
+/**
+ * 网页订阅源弹窗
+ * 为没有 RSS 的网站填写 CSS 选择器，实时预览提取到的条目，确认后订阅
+ */
+import { useState, useEffect } from 'react'
+import { X, Download, Wand2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { clsx } from 'clsx'
+import { useFeedStore } from '@/stores/feedStore'
+import { fetchArticleContent, type FeedData } from '@/services/rss'
+import { runParserTask, isAbortError } from '@/services/parserWorker'
+import { parseFeedDate } from '@/utils/date'
+import type { ScrapeConfig } from '@/types'
+
+interface ScrapeFeedModalProps {
+    isOpen: boolean
+    initialUrl?: string
+    onClose: () => void
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 placeholder:text-slate-400 dark:placeholder:text-slate-600'
+
+// 修改选择器后延迟多久重新提取（毫秒）
+const PREVIEW_DEBOUNCE = 300
+// 预览中展示的条目数
+const PREVIEW_ITEM_COUNT = 10
+
+const SELECTOR_FIELDS: Array<{ key: keyof ScrapeConfig; label: string; placeholder: string }> = [
+    { key: 'itemSelector', label: '条目容器 *', placeholder: '如 .post-list > li' },
+    { key: 'titleSelector', label: '标题', placeholder: '留空则取链接文本' },
+    { key: 'linkSelector', label: '链接', placeholder: '留空则取第一个链接' },
+    { key: 'dateSelector', label: '发布时间', placeholder: '如 time、.date' },
+    { key: 'summarySelector', label: '摘要', placeholder: '如 .excerpt' },
+]
+
+const EMPTY_CONFIG: ScrapeConfig = { itemSelector: '' }
+
+/**
+ * 去掉空白的可选选择器
+ */
+function normalizeConfig(config: ScrapeConfig): ScrapeConfig {
+    const result: ScrapeConfig = { itemSelector: config.itemSelector.trim() }
+    for (const { key } of SELECTOR_FIELDS) {
+        const value = config[key]?.trim()
+        if (value) result[key] = value
+    }
+    return result
+}
+
+export function ScrapeFeedModal({ isOpen, initialUrl, onClose }: ScrapeFeedModalProps) {
+    const { addScrapeFeed } = useFeedStore()
+    const [url, setUrl] = useState('')
+    // 已加载的网页（地址与 HTML）
+    const [page, setPage] = useState<{ url: string; html: string } | null>(null)
+    const [isLoadingPage, setIsLoadingPage] = useState(false)
+    const [suggestions, setSuggestions] = useState<string[]>([])
+    const [config, setConfig] = useState<ScrapeConfig>(EMPTY_CONFIG)
+    const [preview, setPreview] = useState<FeedData | null>(null)
+    const [previewError, setPreviewError] = useState<string | null>(null)
+    const [title, setTitle] = useState('')
+    const [category, setCategory] = useState('')
+    const [isSaving, setIsSaving] = useState(false)
+
+    useEffect(() => {
+        if (isOpen) setUrl(initialUrl || '')
+    }, [isOpen, initialUrl])
+
+    // 选择器变化后在解析 Worker 中重新提取条目（防抖，旧任务取消）
+    useEffect(() => {
+        if (!page || !config.itemSelector.trim()) {
+            setPreview(null)
+            setPreviewError(null)
+            return
+        }
+
+        const controller = new AbortController()
+        const timer = setTimeout(async () => {
+            try {
+                const result = await runParserTask(
+                    'scrapePage',
+                    { html: page.html, pageUrl: page.url, config: normalizeConfig(config) },
+                    controller.signal,
+                    'interactive'
+                )
+                setPreview(result)
+                setPreviewError(null)
+            } catch (err) {
+                if (isAbortError(err)) return
+                setPreview(null)
+                setPreviewError(err instanceof Error ? err.message : String(err))
+            }
+        }, PREVIEW_DEBOUNCE)
+
+        return () => {
+            clearTimeout(timer)
+            controller.abort()
+        }
+    }, [page, config])
+
+    if (!isOpen) return null
+
+    const resetForm = () => {
+        setUrl('')
+        setPage(null)
+        setSuggestions([])
+        setConfig(EMPTY_CONFIG)
+        setTitle('')
+        setCategory('')
+    }
+
+    const handleClose = () => {
+        resetForm()
+        onClose()
+    }
+
+    const handleLoadPage = async () => {
+        const target = url.trim()
+        if (!/^https?:\/\//i.test(target)) {
+            toast.error('网页地址需以 http(s):// 开头')
+            return
+        }
+
+        setIsLoadingPage(true)
+        try {
+            const html = await fetchArticleContent(target)
+            setPage({ url: target, html })
+            const found = await runParserTask('suggestSelectors', { html }, undefined, 'interactive')
+            setSuggestions(found)
+            if (found.length > 0 && !config.itemSelector.trim()) {
+                setConfig(prev => ({ ...prev, itemSelector: found[0] }))
+            }
+        } catch (err) {
+            console.error('Failed to load page:', err)
+            toast.error('网页加载失败，请检查地址或代理设置')
+        } finally {
+            setIsLoadingPage(false)
+        }
+    }
+
+    const handleSubscribe = async () => {
+        if (!page || !preview) return
+
+        setIsSaving(true)
+        try {
+            await addScrapeFeed(
+                page.url,
+                normalizeConfig(config),
+                title.trim() || undefined,
+                category.trim() || undefined,
+                preview
+            )
+            toast.success('网页订阅源添加成功')
+            handleClose()
+        } catch (err) {
+            console.error('Failed to add scrape feed:', err)
+            toast.error('添加失败，请重试')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl w-full max-w-2xl mx-4 overflow-hidden flex flex-col max-h-[90vh]">
+                {/* 头部 */}
+                <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700">
+                    <h2 className="text-lg font-semibold text-slate-800 dark:text-slate-100">从网页生成订阅源</h2>
+                    <button
+                        onClick={handleClose}
+                        className="btn-ghost p-2 text-slate-400 hover:text-slate-600"
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-4 flex-1 overflow-y-auto">
+                    {/* 网页地址 */}
+                    <div className="flex gap-2">
+                        <input
+                            type="url"
+                            value={url}
+                            onChange={(e) => setUrl(e.target.value)}
+                            placeholder="https://example.com/news"
+                            className={`flex-1 ${INPUT_CLASS}`}
+                            autoFocus
+                        />
+                        <button
+                            onClick={handleLoadPage}
+                            disabled={isLoadingPage || !url.trim()}
+                            className="btn-ghost flex items-center gap-1 text-orange-500 disabled:opacity-50"
+                        >
+                            <Download size={16} />
+                            {isLoadingPage ? '加载中...' : '加载网页'}
+                        </button>
+                    </div>
+
+                    {page && (
+                        <>
+                            {/* 推荐选择器 */}
+                            {suggestions.length > 0 && (
+                                <div className="flex flex-wrap items-center gap-1.5">
+                                    <span className="flex items-center gap-1 text-xs text-slate-400">
+                                        <Wand2 size={12} />
+                                        推荐条目：
+                                    </span>
+                                    {suggestions.map(selector => (
+                                        <button
+                                            key={selector}
+                                            onClick={() => setConfig(prev => ({ ...prev, itemSelector: selector }))}
+                                            className={clsx(
+                                                'px-2 py-0.5 rounded text-xs font-mono border transition-colors',
+                                                config.itemSelector === selector
+                                                    ? 'border-orange-500 text-orange-500 bg-orange-50 dark:bg-orange-900/20'
+                                                    : 'border-slate-200 dark:border-slate-700 text-slate-500 hover:border-orange-300'
+                                            )}
+                                        >
+                                            {selector}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+
+                            {/* 选择器 */}
+                            <div className="grid grid-cols-2 gap-2">
+                                {SELECTOR_FIELDS.map(field => (
+                                    <div key={field.key} className={field.key === 'itemSelector' ? 'col-span-2' : undefined}>
+                                        <label className="block text-xs text-slate-500 dark:text-slate-400 mb-1">{field.label}</label>
+                                        <input
+                                            type="text"
+                                            value={config[field.key] || ''}
+                                            onChange={(e) => setConfig(prev => ({ ...prev, [field.key]: e.target.value }))}
+                                            placeholder={field.placeholder}
+                                            className={`font-mono ${INPUT_CLASS}`}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+
+                            {/* 实时预览 */}
+                            <div className="rounded-lg border border-slate-200 dark:border-slate-700">
+                                <div className="px-3 py-2 text-xs text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                                    {previewError
+                                        ? <span className="text-red-500">{previewError}</span>
+                                        : preview
+                                            ? `提取到 ${preview.items.length} 个条目`
+                                            : '填写条目容器选择器后预览提取结果'}
+                                </div>
+                                {preview && preview.items.length > 0 && (
+                                    <ul className="divide-y divide-slate-100 dark:divide-slate-800 max-h-64 overflow-y-auto">
+                                        {preview.items.slice(0, PREVIEW_ITEM_COUNT).map((item, i) => {
+                                            const pubDate = parseFeedDate(item.pubDate)
+                                            return (
+                                                <li key={i} className="px-3 py-2 text-sm">
+                                                    <p className="font-medium text-slate-700 dark:text-slate-200 truncate">
+                                                        {item.title || <span className="text-amber-500">未提取到标题</span>}
+                                                    </p>
+                                                    <p className="text-xs text-slate-400 truncate">
+                                                        {item.link || <span className="text-amber-500">未提取到链接</span>}
+                                                    </p>
+                                                    {item.pubDate && (
+                                                        <p className={clsx('text-xs', pubDate ? 'text-slate-400' : 'text-amber-500')}>
+                                                            {pubDate ? new Date(pubDate).toLocaleString('zh-CN') : `无法识别的时间：${item.pubDate}`}
+                                                        </p>
+                                                    )}
+                                                    {item.description && (
+                                                        <p className="text-xs text-slate-500 dark:text-slate-400 line-clamp-2">
+                                                            {item.description.replace(/<[^>]+>/g, '')}
+                                                        </p>
+                                                    )}
+                                                </li>
+                                            )
+                                        })}
+                                    </ul>
+                                )}
+                            </div>
+
+                            {/* 订阅设置 */}
+                            <div className="grid grid-cols-2 gap-2">
+                                <input
+                                    type="text"
+                                    value={title}
+                                    onChange={(e) => setTitle(e.target.value)}
+                                    placeholder={preview?.title || '名称（留空则使用网页标题）'}
+                                    className={INPUT_CLASS}
+                                />
+                                <input
+                                    type="text"
+                                    value={category}
+                                    onChange={(e) => setCategory(e.target.value)}
+                                    placeholder="分类（可选）"
+                                    className={INPUT_CLASS}
+                                />
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="flex justify-end gap-2 p-4 border-t border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 rounded-b-xl">
+                    <button onClick={handleClose} className="btn-ghost px-4 py-2">
+                        取消
+                    </button>
+                    <button
+                        onClick={handleSubscribe}
+                        disabled={isSaving || !preview || preview.items.length === 0}
+                        className="btn-primary disabled:opacity-50"
+                    >
+                        {isSaving ? '订阅中...' : '订阅'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
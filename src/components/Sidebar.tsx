@@ -2,15 +2,32 @@
  * 侧边栏组件 - 订阅源列表
  */
 import { useEffect, useState } from 'react'
-import { Plus, RefreshCw, Trash2, Rss, ChevronRight, Settings, PanelLeftClose, PanelLeftOpen, Download, ChevronsUpDown, Star, FileText, Database, Sun, Moon } from 'lucide-react'
+import { Plus, RefreshCw, Trash2, Rss, ChevronRight, Settings, PanelLeftClose, PanelLeftOpen, Download, ChevronsUpDown, Star, FileText, Database, Sun, Moon, HeartPulse, AlertCircle, Pencil, Network, Radio, ArrowRightLeft, X, Archive, Cloud, Server } from 'lucide-react'
 import { toast } from 'sonner'
 import { useFeedStore } from '@/stores/feedStore'
 import { useThemeStore } from '@/stores/themeStore'
 import { useUIStore } from '@/stores/uiStore'
 import { clsx } from 'clsx'
+import { format } from 'date-fns'
+import {
+    REFRESH_INTERVAL_OPTIONS,
+    getDefaultRefreshInterval,
+    saveDefaultRefreshInterval,
+    getNextRefreshAt,
+} from '@/services/refreshScheduler'
 import { AISettings } from './AISettings'
 import { AddFeedModal } from './AddFeedModal'
+import { ScrapeFeedModal } from './ScrapeFeedModal'
 import { DataManagementModal } from './DataManagementModal'
+import { FeedHealthModal } from './FeedHealthModal'
+import { EditFeedModal } from './EditFeedModal'
+import { ProxySettings } from './ProxySettings'
+import { RSSHubSettings } from './RSSHubSettings'
+import { RetentionSettings } from './RetentionSettings'
+import { SyncSettings } from './SyncSettings'
+import { RemoteBackendSettings } from './RemoteBackendSettings'
+import type { Feed } from '@/types'
+import { getUnhealthyFeeds } from '@/services/feedHealth'
 
 interface SidebarProps {
     isExpanded: boolean
@@ -31,14 +48,25 @@ export function Sidebar({ isExpanded, onToggle, activeView = 'feed', onViewChang
         deleteFeed,
         selectFeed,
         refreshAllFeeds,
+        updateFeed,
     } = useFeedStore()
 
     const { theme, isDark, setTheme } = useThemeStore()
 
     const [showAddModal, setShowAddModal] = useState(false)
+    // 网页订阅源弹窗（null 表示关闭，字符串为预填的网页地址）
+    const [scrapeUrl, setScrapeUrl] = useState<string | null>(null)
     const { isAISettingsOpen, setAISettingsOpen } = useUIStore()
     const [showDataManagement, setShowDataManagement] = useState(false)
+    const [showFeedHealth, setShowFeedHealth] = useState(false)
+    const [showProxySettings, setShowProxySettings] = useState(false)
+    const [showRSSHubSettings, setShowRSSHubSettings] = useState(false)
+    const [showRetentionSettings, setShowRetentionSettings] = useState(false)
+    const [showSyncSettings, setShowSyncSettings] = useState(false)
+    const [showRemoteSettings, setShowRemoteSettings] = useState(false)
+    const [editingFeed, setEditingFeed] = useState<Feed | null>(null)
     const [isLoadingPresets, setIsLoadingPresets] = useState(false)
+    const [refreshInterval, setRefreshInterval] = useState(getDefaultRefreshInterval)
 
     // 分类折叠状态（localStorage 持久化）
     const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(() => {
@@ -84,6 +112,23 @@ export function Sidebar({ isExpanded, onToggle, activeView = 'feed', onViewChang
         })
     }
 
+    // 修改全局自动刷新间隔
+    const handleRefreshIntervalChange = (minutes: number) => {
+        saveDefaultRefreshInterval(minutes)
+        setRefreshInterval(minutes)
+    }
+
+    // 需要关注的订阅源数量
+    const unhealthyCount = getUnhealthyFeeds(feeds).length
+
+    // 已迁移到新地址、用户尚未知晓的订阅源
+    const movedFeeds = feeds.filter(f => f.movedFrom)
+
+    // 最近一次自动刷新时间（用于头部提示）
+    const nextAutoRefreshAt = refreshInterval > 0 && feeds.length > 0
+        ? Math.max(Math.min(...feeds.map(getNextRefreshAt)), Date.now())
+        : null
+
     // 切换单个分类折叠状态
     const toggleCategory = (category: string) => {
         setCollapsedCategories(prev => {
@@ -209,6 +254,49 @@ export function Sidebar({ isExpanded, onToggle, activeView = 'feed', onViewChang
                 </div>
             </div>
 
+            {/* 自动刷新设置 */}
+            <div className="flex items-center gap-2 px-4 py-2 text-xs text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                <span>自动刷新</span>
+                <select
+                    value={refreshInterval}
+                    onChange={(e) => handleRefreshIntervalChange(Number(e.target.value))}
+                    className="bg-transparent border border-slate-200 dark:border-slate-700 rounded px-1 py-0.5 focus:outline-none focus:ring-1 focus:ring-orange-500"
+                >
+                    {REFRESH_INTERVAL_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+                {nextAutoRefreshAt && (
+                    <span className="ml-auto" title="下次自动刷新时间">
+                        下次 {format(nextAutoRefreshAt, 'HH:mm')}
+                    </span>
+                )}
+            </div>
+
+            {/* 订阅源迁移提示 */}
+            {movedFeeds.length > 0 && (
+                <div className="px-4 py-2 space-y-1 border-b border-slate-200 dark:border-slate-700 bg-amber-50 dark:bg-amber-900/20">
+                    {movedFeeds.map(feed => (
+                        <div key={feed.id} className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+                            <ArrowRightLeft size={12} className="mt-0.5 flex-shrink-0" />
+                            <span
+                                className="flex-1 min-w-0 break-all"
+                                title={`${feed.movedFrom} → ${feed.url}`}
+                            >
+                                「{feed.title}」已迁移至 {feed.url}
+                            </span>
+                            <button
+                                onClick={() => updateFeed(feed.id, { movedFrom: undefined })}
+                                className="flex-shrink-0 hover:text-amber-900 dark:hover:text-amber-200"
+                                title="知道了"
+                            >
+                                <X size={12} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {/* 订阅源列表 */}
             <div className="flex-1 overflow-y-auto p-2">
                 {isLoading ? (
@@ -256,6 +344,7 @@ export function Sidebar({ isExpanded, onToggle, activeView = 'feed', onViewChang
                                         selectFeed(feed)
                                         onViewChange?.('feed')
                                     }}
+                                    title={refreshInterval > 0 ? `下次刷新：${format(getNextRefreshAt(feed), 'MM-dd HH:mm')}` : undefined}
                                 >
                                     {feed.favicon ? (
                                         <img
@@ -270,6 +359,31 @@ export function Sidebar({ isExpanded, onToggle, activeView = 'feed', onViewChang
                                         <Rss size={14} className="opacity-50" />
                                     )}
                                     <span className="flex-1 truncate text-sm">{feed.title}</span>
+                                    {(feed.consecutiveFailures ?? 0) > 0 && (
+                                        <AlertCircle
+                                            size={12}
+                                            className={clsx(
+                                                'flex-shrink-0',
+                                                selectedFeed?.id === feed.id ? 'text-white' : 'text-red-500'
+                                            )}
+                                            aria-label={feed.lastError}
+                                        />
+                                    )}
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation()
+                                            setEditingFeed(feed)
+                                        }}
+                                        className={clsx(
+                                            'opacity-0 group-hover:opacity-100 p-1 rounded',
+                                            selectedFeed?.id === feed.id
+                                                ? 'text-white hover:bg-white/20'
+                                                : 'text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700'
+                                        )}
+                                        title="编辑"
+                                    >
+                                        <Pencil size={14} />
+                                    </button>
                                     <button
                                         onClick={async (e) => {
                                             e.stopPropagation()
@@ -335,6 +449,37 @@ export function Sidebar({ isExpanded, onToggle, activeView = 'feed', onViewChang
                         <Database size={16} />
                         数据管理
                     </button>
+                    <button
+                        onClick={() => setShowRetentionSettings(true)}
+                        className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors text-sm"
+                    >
+                        <Archive size={16} />
+                        存储与保留
+                    </button>
+                    <button
+                        onClick={() => setShowSyncSettings(true)}
+                        className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors text-sm"
+                    >
+                        <Cloud size={16} />
+                        多设备同步
+                    </button>
+                    <button
+                        onClick={() => setShowRemoteSettings(true)}
+                        className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors text-sm"
+                    >
+                        <Server size={16} />
+                        阅读服务器
+                    </button>
+                    <button
+                        onClick={() => setShowFeedHealth(true)}
+                        className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors text-sm"
+                    >
+                        <HeartPulse size={16} />
+                        订阅源健康
+                        {unhealthyCount > 0 && (
+                            <span className="ml-auto text-xs px-1.5 rounded-full bg-red-500 text-white">{unhealthyCount}</span>
+                        )}
+                    </button>
                     <button
                         onClick={() => setAISettingsOpen(true)}
                         className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors text-sm"
@@ -342,6 +487,20 @@ export function Sidebar({ isExpanded, onToggle, activeView = 'feed', onViewChang
                         <Settings size={16} />
                         AI 设置
                     </button>
+                    <button
+                        onClick={() => setShowProxySettings(true)}
+                        className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors text-sm"
+                    >
+                        <Network size={16} />
+                        代理设置
+                    </button>
+                    <button
+                        onClick={() => setShowRSSHubSettings(true)}
+                        className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors text-sm"
+                    >
+                        <Radio size={16} />
+                        RSSHub 设置
+                    </button>
                     <button
                         onClick={() => {
                             const next = theme === 'light' ? 'dark' : theme === 'dark' ? 'system' : 'light'
@@ -356,11 +515,30 @@ export function Sidebar({ isExpanded, onToggle, activeView = 'feed', onViewChang
             </div>
 
             {/* 添加订阅弹窗 */}
-            <AddFeedModal isOpen={showAddModal} onClose={() => setShowAddModal(false)} />
+            <AddFeedModal
+                isOpen={showAddModal}
+                onClose={() => setShowAddModal(false)}
+                onScrape={(url) => {
+                    setShowAddModal(false)
+                    setScrapeUrl(url)
+                }}
+            />
+            <ScrapeFeedModal
+                isOpen={scrapeUrl !== null}
+                initialUrl={scrapeUrl ?? undefined}
+                onClose={() => setScrapeUrl(null)}
+            />
 
             {/* AI 设置弹窗 */}
             <AISettings isOpen={isAISettingsOpen} onClose={() => setAISettingsOpen(false)} />
             <DataManagementModal isOpen={showDataManagement} onClose={() => setShowDataManagement(false)} />
+            <FeedHealthModal isOpen={showFeedHealth} onClose={() => setShowFeedHealth(false)} />
+            <ProxySettings isOpen={showProxySettings} onClose={() => setShowProxySettings(false)} />
+            <RSSHubSettings isOpen={showRSSHubSettings} onClose={() => setShowRSSHubSettings(false)} />
+            <RetentionSettings isOpen={showRetentionSettings} onClose={() => setShowRetentionSettings(false)} />
+            <SyncSettings isOpen={showSyncSettings} onClose={() => setShowSyncSettings(false)} />
+            <RemoteBackendSettings isOpen={showRemoteSettings} onClose={() => setShowRemoteSettings(false)} />
+            <EditFeedModal feed={editingFeed} onClose={() => setEditingFeed(null)} />
         </div>
     )
 }
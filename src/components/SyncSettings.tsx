@@ -0,0 +1,236 @@
+/**
+ * 多设备同步设置弹窗
+ * 配置同步目标（WebDAV 或本地文件夹）与自动同步间隔，手动同步并查看最近一次同步状态
+ */
+import { useState, useEffect } from 'react'
+import { X, RefreshCw, FolderOpen } from 'lucide-react'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { useFeedStore } from '@/stores/feedStore'
+import {
+    getSyncConfig,
+    saveSyncConfig,
+    getSyncStatus,
+    isFolderSyncSupported,
+    pickSyncFolder,
+    getSyncFolderName,
+    SYNC_INTERVAL_OPTIONS,
+    type SyncConfig,
+    type SyncStatus,
+} from '@/services/sync'
+
+interface SyncSettingsProps {
+    isOpen: boolean
+    onClose: () => void
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-orange-500 text-sm'
+
+export function SyncSettings({ isOpen, onClose }: SyncSettingsProps) {
+    const [config, setConfig] = useState<SyncConfig>(getSyncConfig)
+    const [status, setStatus] = useState<SyncStatus>(getSyncStatus)
+    const [folderName, setFolderName] = useState<string | undefined>()
+    const [isSyncing, setIsSyncing] = useState(false)
+
+    useEffect(() => {
+        if (!isOpen) return
+        setConfig(getSyncConfig())
+        setStatus(getSyncStatus())
+        getSyncFolderName().then(setFolderName)
+    }, [isOpen])
+
+    if (!isOpen) return null
+
+    const update = (changes: Partial<SyncConfig>) => setConfig(prev => ({ ...prev, ...changes }))
+
+    const handlePickFolder = async () => {
+        try {
+            setFolderName(await pickSyncFolder())
+        } catch (err) {
+            // 用户取消选择时不提示
+            if (err instanceof DOMException && err.name === 'AbortError') return
+            console.error('Failed to pick sync folder:', err)
+            toast.error('无法访问所选文件夹')
+        }
+    }
+
+    const handleSave = async () => {
+        await saveSyncConfig(config)
+        toast.success('同步设置已保存')
+        onClose()
+    }
+
+    // 保存设置后立即同步
+    const handleSync = async () => {
+        setIsSyncing(true)
+        try {
+            await saveSyncConfig(config)
+            const result = await useFeedStore.getState().syncNow(true)
+            toast.success(`同步完成：上传 ${result.pushed} 条，合并 ${result.pulled} 条`)
+        } catch (err) {
+            toast.error(`同步失败：${err instanceof Error ? err.message : String(err)}`)
+        } finally {
+            setStatus(getSyncStatus())
+            setIsSyncing(false)
+        }
+    }
+
+    const canSync = config.enabled && (config.target === 'folder' ? !!folderName : !!config.webdavUrl.trim())
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl w-full max-w-lg mx-4 overflow-hidden flex flex-col max-h-[80vh]">
+                {/* 头部 */}
+                <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700">
+                    <h2 className="text-lg font-semibold text-slate-800 dark:text-slate-100">多设备同步</h2>
+                    <button
+                        onClick={onClose}
+                        className="btn-ghost p-2 text-slate-400 hover:text-slate-600"
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-4 flex-1 overflow-y-auto">
+                    <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                        <input
+                            type="checkbox"
+                            checked={config.enabled}
+                            onChange={(e) => update({ enabled: e.target.checked })}
+                            className="accent-orange-500"
+                        />
+                        开启同步
+                    </label>
+                    <p className="text-xs text-slate-400">
+                        同步订阅源、阅读状态、收藏文章与笔记。每台设备上传自己的变更记录，合并时以最后修改的一方为准，删除操作同样会同步
+                    </p>
+
+                    {/* 同步目标 */}
+                    <div>
+                        <h3 className="text-sm font-medium text-slate-700 dark:text-slate-200 mb-2">同步位置</h3>
+                        <div className="flex gap-4 mb-3">
+                            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                                <input
+                                    type="radio"
+                                    name="sync-target"
+                                    checked={config.target === 'webdav'}
+                                    onChange={() => update({ target: 'webdav' })}
+                                    className="accent-orange-500"
+                                />
+                                WebDAV
+                            </label>
+                            <label
+                                className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300"
+                                title={isFolderSyncSupported() ? undefined : '当前浏览器不支持访问本地文件夹'}
+                            >
+                                <input
+                                    type="radio"
+                                    name="sync-target"
+                                    checked={config.target === 'folder'}
+                                    onChange={() => update({ target: 'folder' })}
+                                    disabled={!isFolderSyncSupported()}
+                                    className="accent-orange-500"
+                                />
+                                本地文件夹
+                            </label>
+                        </div>
+
+                        {config.target === 'webdav' ? (
+                            <div className="space-y-2">
+                                <input
+                                    type="url"
+                                    value={config.webdavUrl}
+                                    onChange={(e) => update({ webdavUrl: e.target.value })}
+                                    placeholder="https://dav.example.com/folo/"
+                                    className={INPUT_CLASS}
+                                />
+                                <div className="grid grid-cols-2 gap-2">
+                                    <input
+                                        type="text"
+                                        value={config.username}
+                                        onChange={(e) => update({ username: e.target.value })}
+                                        placeholder="用户名（可选）"
+                                        autoComplete="username"
+                                        className={INPUT_CLASS}
+                                    />
+                                    <input
+                                        type="password"
+                                        value={config.password}
+                                        onChange={(e) => update({ password: e.target.value })}
+                                        placeholder="密码（可选）"
+                                        autoComplete="current-password"
+                                        className={INPUT_CLASS}
+                                    />
+                                </div>
+                                <p className="text-xs text-slate-400">
+                                    服务需允许跨域访问；本地测试可运行 <code>pnpm webdav</code> 启动简易 WebDAV 服务
+                                </p>
+                            </div>
+                        ) : (
+                            <div className="flex items-center gap-2">
+                                <span className="flex-1 text-sm text-slate-500 dark:text-slate-400 truncate">
+                                    {folderName ?? '尚未选择文件夹'}
+                                </span>
+                                <button
+                                    onClick={handlePickFolder}
+                                    className="btn-ghost flex items-center gap-1 text-sm text-orange-500"
+                                >
+                                    <FolderOpen size={14} />
+                                    选择文件夹
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* 自动同步 */}
+                    <div className="flex items-center justify-between">
+                        <span className="text-sm text-slate-600 dark:text-slate-300">自动同步</span>
+                        <select
+                            value={config.interval}
+                            onChange={(e) => update({ interval: Number(e.target.value) })}
+                            className="bg-transparent border border-slate-200 dark:border-slate-700 rounded px-2 py-1 text-sm text-slate-600 dark:text-slate-300 focus:outline-none focus:ring-1 focus:ring-orange-500"
+                        >
+                            {SYNC_INTERVAL_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* 同步状态 */}
+                    <div className="flex items-center gap-2 rounded-lg border border-slate-200 dark:border-slate-700 px-3 py-2">
+                        <div className="flex-1 text-xs">
+                            {status.lastSyncAt ? (
+                                <p className="text-slate-500 dark:text-slate-400">
+                                    上次同步 {format(status.lastSyncAt, 'MM-dd HH:mm')}，上传 {status.pushed ?? 0} 条，合并 {status.pulled ?? 0} 条
+                                </p>
+                            ) : (
+                                <p className="text-slate-400">尚未同步</p>
+                            )}
+                            {status.lastError && (status.lastAttemptAt ?? 0) > (status.lastSyncAt ?? 0) && (
+                                <p className="text-red-500 mt-0.5">最近一次同步失败：{status.lastError}</p>
+                            )}
+                        </div>
+                        <button
+                            onClick={handleSync}
+                            disabled={!canSync || isSyncing}
+                            className="btn-ghost flex items-center gap-1 text-xs text-orange-500 disabled:opacity-50"
+                        >
+                            <RefreshCw size={12} className={isSyncing ? 'animate-spin' : undefined} />
+                            {isSyncing ? '同步中...' : '立即同步'}
+                        </button>
+                    </div>
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="flex justify-end gap-2 p-4 border-t border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 rounded-b-xl">
+                    <button onClick={onClose} className="btn-ghost px-4 py-2">
+                        取消
+                    </button>
+                    <button onClick={handleSave} className="btn-primary">
+                        保存
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
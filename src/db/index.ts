@@ -12,10 +12,18 @@ import type {
     ChatMessage,
     CollectionItem,
     Note,
-    NoteReference
+    NoteReference,
+    PlaybackPosition,
+    ArticleContent,
+    SyncRecord
 } from '@/types'
 import { generateUUID } from '@/utils/uuid'
 import { EXPIRY_CONSTANTS } from '@/utils/constants'
+import { buildArticleId } from '@/utils/articleId'
+import { canonicalizeUrl } from '@/utils/url'
+
+// 旧版本在条目没有 GUID 和链接时生成的随机 UUID
+const GENERATED_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
 
 export class FoloDatabase extends Dexie {
     feeds!: Table<Feed>
@@ -24,6 +32,9 @@ export class FoloDatabase extends Dexie {
     chatSessions!: Table<ChatSession>
     starredChatSessions!: Table<StarredChatSession>
     notes!: Table<Note>
+    playbackPositions!: Table<PlaybackPosition>
+    articleContents!: Table<ArticleContent>
+    syncRecords!: Table<SyncRecord>
     settings!: Table<{ key: string; value: unknown }>
 
     constructor() {
@@ -85,11 +96,175 @@ export class FoloDatabase extends Dexie {
             notes: 'id, title, createdAt, updatedAt',  // 新增笔记表
             settings: 'key',
         })
+
+        // Version 7 - 添加附件播放进度表
+        this.version(7).stores({
+            feeds: 'id, title, category, &url, createdAt',
+            articles: 'id, feedId, pubDate, isRead, isStarred, expiresAt',
+            starredArticles: 'id, feedId, starredAt',
+            chatSessions: 'id, articleId, expiresAt, createdAt',
+            starredChatSessions: 'id, articleId, starredAt',
+            notes: 'id, title, createdAt, updatedAt',
+            playbackPositions: 'articleId, updatedAt',  // 新增播放进度表
+            settings: 'key',
+        })
+
+        // Version 8 - 修复无效发布时间（NaN），记录首次抓取时间
+        this.version(8).stores({
+            feeds: 'id, title, category, &url, createdAt',
+            articles: 'id, feedId, pubDate, isRead, isStarred, expiresAt',
+            starredArticles: 'id, feedId, starredAt',
+            chatSessions: 'id, articleId, expiresAt, createdAt',
+            starredChatSessions: 'id, articleId, starredAt',
+            notes: 'id, title, createdAt, updatedAt',
+            playbackPositions: 'articleId, updatedAt',
+            settings: 'key',
+        }).upgrade(async (trans) => {
+            await trans.table('articles').toCollection().modify((article: Article) => {
+                if (!Number.isFinite(article.pubDate)) {
+                    // 按过期时间反推首次抓取时间
+                    const firstSeenAt = article.expiresAt
+                        ? article.expiresAt - EXPIRY_CONSTANTS.ARTICLE_EXPIRY
+                        : Date.now()
+                    article.firstSeenAt = firstSeenAt
+                    article.pubDate = firstSeenAt
+                    article.dateIssue = 'invalid'
+                }
+            })
+        })
+
+        // Version 9 - 文章 ID 改为「订阅源 ID + 标识哈希」，添加规范化链接索引用于跨源去重
+        this.version(9).stores({
+            feeds: 'id, title, category, &url, createdAt',
+            articles: 'id, feedId, pubDate, isRead, isStarred, expiresAt, canonicalLink',
+            starredArticles: 'id, feedId, starredAt',
+            chatSessions: 'id, articleId, expiresAt, createdAt',
+            starredChatSessions: 'id, articleId, starredAt',
+            notes: 'id, title, createdAt, updatedAt',
+            playbackPositions: 'articleId, updatedAt',
+            settings: 'key',
+        }).upgrade(async (trans) => {
+            // 旧 ID 即 GUID 或链接（随机 UUID 除外），据此计算新 ID
+            const migrateArticle = <T extends Article>(article: T): T => ({
+                ...article,
+                id: buildArticleId(article.feedId, {
+                    guid: !article.link && GENERATED_ID_PATTERN.test(article.id) ? undefined : article.id,
+                    link: article.link,
+                    title: article.title,
+                    content: article.description,
+                }),
+                canonicalLink: article.link ? canonicalizeUrl(article.link) : undefined,
+            })
+
+            const idMap = new Map<string, string>()
+            for (const tableName of ['articles', 'starredArticles']) {
+                const table = trans.table(tableName)
+                const migrated = (await table.toArray()).map((article: Article) => {
+                    const next = migrateArticle(article)
+                    idMap.set(article.id, next.id)
+                    return next
+                })
+                await table.clear()
+                await table.bulkPut(migrated)
+            }
+
+            const positions = trans.table('playbackPositions')
+            const migratedPositions = (await positions.toArray()).map((position: PlaybackPosition) => ({
+                ...position,
+                articleId: idMap.get(position.articleId) ?? position.articleId,
+            }))
+            await positions.clear()
+            await positions.bulkPut(migratedPositions)
+
+            for (const tableName of ['chatSessions', 'starredChatSessions']) {
+                await trans.table(tableName).toCollection().modify((session: ChatSession) => {
+                    session.articleId = idMap.get(session.articleId) ?? session.articleId
+                })
+            }
+
+            // 笔记中对文章的引用
+            await trans.table('notes').toCollection().modify((note: Note) => {
+                if (!note.references) return
+                note.references = note.references.map(ref =>
+                    ref.type === 'article' ? { ...ref, id: idMap.get(ref.id) ?? ref.id } : ref
+                )
+            })
+        })
+
+        // Version 10 - 添加文章正文缓存表（按最近读取时间淘汰；统计与淘汰只遍历 [lastAccessedAt+size] 索引，不读取正文）
+        this.version(10).stores({
+            feeds: 'id, title, category, &url, createdAt',
+            articles: 'id, feedId, pubDate, isRead, isStarred, expiresAt, canonicalLink',
+            starredArticles: 'id, feedId, starredAt',
+            chatSessions: 'id, articleId, expiresAt, createdAt',
+            starredChatSessions: 'id, articleId, starredAt',
+            notes: 'id, title, createdAt, updatedAt',
+            playbackPositions: 'articleId, updatedAt',
+            articleContents: 'articleId, lastAccessedAt, [lastAccessedAt+size]',
+            settings: 'key',
+        })
+
+        // Version 11 - 添加同步记录表（每条数据的最新变更与删除墓碑）
+        this.version(11).stores({
+            feeds: 'id, title, category, &url, createdAt',
+            articles: 'id, feedId, pubDate, isRead, isStarred, expiresAt, canonicalLink',
+            starredArticles: 'id, feedId, starredAt',
+            chatSessions: 'id, articleId, expiresAt, createdAt',
+            starredChatSessions: 'id, articleId, starredAt',
+            notes: 'id, title, createdAt, updatedAt',
+            playbackPositions: 'articleId, updatedAt',
+            articleContents: 'articleId, lastAccessedAt, [lastAccessedAt+size]',
+            syncRecords: 'key, type, updatedAt, deviceId',
+            settings: 'key',
+        })
     }
 }
 
 export const db = new FoloDatabase()
 
+/** dbHelpers 写操作产生的数据变更（before 为空表示新增，after 为空表示删除） */
+export type DataChange =
+    | { table: 'feeds'; before?: Feed; after?: Feed }
+    | { table: 'articles'; before?: Article; after?: Article }
+    | { table: 'starredArticles'; before?: StarredArticle; after?: StarredArticle }
+    | { table: 'notes'; before?: Note; after?: Note }
+
+type DataChangeHook = (changes: DataChange[]) => void
+
+const dataChangeHooks = new Set<DataChangeHook>()
+
+/**
+ * 注册数据变更钩子（同步引擎据此记录每次写操作），返回取消注册的函数
+ */
+export function onDataChange(hook: DataChangeHook): () => void {
+    dataChangeHooks.add(hook)
+    return () => {
+        dataChangeHooks.delete(hook)
+    }
+}
+
+// settings 表中的 key：被保留规则清理的文章 ID（按订阅源），再次抓取到时不作为新文章插入
+const DELETED_ARTICLES_KEY = 'deletedArticleIds'
+
+// 每个订阅源记录的已清理文章数上限（超出时丢弃最早的记录，早已不在订阅源中的条目不会再被抓取到）
+const MAX_DELETED_ARTICLES_PER_FEED = 1000
+
+async function getDeletedArticleIds(): Promise<Record<string, string[]>> {
+    const record = await db.settings.get(DELETED_ARTICLES_KEY)
+    return (record?.value as Record<string, string[]> | undefined) ?? {}
+}
+
+/** 写操作完成后通知钩子 */
+function emitDataChanges(...changes: DataChange[]): void {
+    for (const hook of dataChangeHooks) {
+        try {
+            hook(changes)
+        } catch (err) {
+            console.error('[DB] Data change hook failed:', err)
+        }
+    }
+}
+
 /**
  * 生成UUID v4字符串（兼容性处理）
  */
@@ -99,20 +274,35 @@ export const db = new FoloDatabase()
 export const dbHelpers = {
     /** 添加订阅源（自动去重，如已存在则返回现有 ID） */
     async addFeed(feed: Omit<Feed, 'id' | 'createdAt'>): Promise<string> {
-        // 检查 URL 是否已存在
-        const existing = await db.feeds.where('url').equals(feed.url).first()
+        // 检查 URL 是否已存在（包括订阅源迁移前的旧地址）
+        const existing = await dbHelpers.findFeedByUrl(feed.url)
         if (existing) {
             console.log(`Feed already exists: ${feed.url}`)
             return existing.id
         }
 
-        const id = generateUUID()
-        await db.feeds.add({
+        const newFeed: Feed = {
             ...feed,
-            id,
+            id: generateUUID(),
             createdAt: Date.now(),
-        })
-        return id
+        }
+        await db.feeds.add(newFeed)
+        emitDataChanges({ table: 'feeds', after: newFeed })
+        return newFeed.id
+    },
+
+    /** 按地址查找订阅源（当前地址或迁移前的旧地址） */
+    async findFeedByUrl(url: string): Promise<Feed | undefined> {
+        return await db.feeds.where('url').equals(url).first()
+            ?? await db.feeds.filter(f => !!f.previousUrls?.includes(url)).first()
+    },
+
+    /** 更新订阅源 */
+    async updateFeed(feedId: string, updates: Partial<Omit<Feed, 'id' | 'createdAt'>>): Promise<void> {
+        const before = await db.feeds.get(feedId)
+        if (!before) return
+        await db.feeds.update(feedId, updates)
+        emitDataChanges({ table: 'feeds', before, after: { ...before, ...updates } })
     },
 
     /** 获取所有订阅源 */
@@ -124,13 +314,19 @@ export const dbHelpers = {
     async deleteFeed(feedId: string): Promise<void> {
         console.log(`[DB] Starting to delete feed: ${feedId}`)
         try {
-            await db.transaction('rw', [db.feeds, db.articles], async () => {
+            const before = await db.feeds.get(feedId)
+            await db.transaction('rw', [db.feeds, db.articles, db.articleContents, db.settings], async () => {
                 console.log(`[DB] Deleting feed from feeds table...`)
                 await db.feeds.delete(feedId)
                 console.log(`[DB] Deleting articles for feed...`)
-                await db.articles.where('feedId').equals(feedId).delete()
+                const articleIds = await db.articles.where('feedId').equals(feedId).primaryKeys()
+                await db.articles.bulkDelete(articleIds)
+                await db.articleContents.bulkDelete(articleIds)
+                const { [feedId]: _deleted, ...deletedByFeed } = await getDeletedArticleIds()
+                await db.settings.put({ key: DELETED_ARTICLES_KEY, value: deletedByFeed })
                 console.log(`[DB] Deletion completed successfully`)
             })
+            if (before) emitDataChanges({ table: 'feeds', before })
         } catch (error) {
             console.error(`[DB] Error deleting feed:`, error)
             throw error
@@ -140,31 +336,50 @@ export const dbHelpers = {
     /** 添加或更新文章（保留已有的摘要和用户数据） */
     async upsertArticles(articles: Omit<Article, 'isRead' | 'isStarred'>[]): Promise<void> {
         const now = Date.now()
-        const expiresAt = now + EXPIRY_CONSTANTS.ARTICLE_EXPIRY
 
         // 批量查询已有文章
         const articleIds = articles.map(a => a.id)
         const existingArticles = await db.articles.where('id').anyOf(articleIds).toArray()
         const existingMap = new Map(existingArticles.map(a => [a.id, a]))
 
-        const articlesToAdd = articles.map(article => {
+        // 已被保留规则清理的文章不再重新插入（否则会作为新的未读文章出现）
+        const deletedByFeed = await getDeletedArticleIds()
+        const deletedIds = new Set(
+            [...new Set(articles.map(a => a.feedId))].flatMap(feedId => deletedByFeed[feedId] ?? [])
+        )
+
+        const incoming = articles.filter(article => existingMap.has(article.id) || !deletedIds.has(article.id))
+
+        const articlesToAdd = incoming.map(article => {
             const existing = existingMap.get(article.id)
+            const firstSeenAt = existing?.firstSeenAt ?? article.firstSeenAt ?? now
 
             return {
                 ...article,
+                firstSeenAt,
+                // 发布时间异常的文章固定使用首次抓取时间，避免每次刷新都跳到最前
+                pubDate: article.dateIssue ? firstSeenAt : article.pubDate,
                 // 保留已有的用户数据和 AI 摘要
                 isRead: existing?.isRead ?? false,
                 isStarred: existing?.isStarred ?? false,
                 aiSummary: existing?.aiSummary, // 保留摘要！
                 summaryGeneratedAt: existing?.summaryGeneratedAt,
-                // 只有新文章才设置过期时间，已有文章保留原过期时间
-                expiresAt: existing?.expiresAt || article.expiresAt || expiresAt,
             }
         })
 
         await db.articles.bulkPut(articlesToAdd)
     },
 
+    /** 记录被保留规则清理的文章（按订阅源），之后抓取到时不再插入 */
+    async recordDeletedArticles(articleIdsByFeed: Record<string, string[]>): Promise<void> {
+        const deletedByFeed = await getDeletedArticleIds()
+        for (const [feedId, articleIds] of Object.entries(articleIdsByFeed)) {
+            const merged = [...new Set([...(deletedByFeed[feedId] ?? []), ...articleIds])]
+            deletedByFeed[feedId] = merged.slice(-MAX_DELETED_ARTICLES_PER_FEED)
+        }
+        await db.settings.put({ key: DELETED_ARTICLES_KEY, value: deletedByFeed })
+    },
+
     /** 获取订阅源的文章列表 */
     async getArticlesByFeed(feedId: string, limit = 50): Promise<Article[]> {
         return db.articles
@@ -174,6 +389,24 @@ export const dbHelpers = {
             .then(articles => articles.reverse().slice(0, limit))
     },
 
+    /**
+     * 查询规范化链接相同的文章所属的订阅源
+     * @returns canonicalLink -> 订阅源 ID 集合
+     */
+    async getFeedIdsByCanonicalLinks(links: string[]): Promise<Map<string, Set<string>>> {
+        const result = new Map<string, Set<string>>()
+        if (links.length === 0) return result
+
+        const articles = await db.articles.where('canonicalLink').anyOf(links).toArray()
+        for (const article of articles) {
+            if (!article.canonicalLink) continue
+            const feedIds = result.get(article.canonicalLink) ?? new Set<string>()
+            feedIds.add(article.feedId)
+            result.set(article.canonicalLink, feedIds)
+        }
+        return result
+    },
+
     /** 获取所有未读文章 */
     async getUnreadArticles(limit = 100): Promise<Article[]> {
         return db.articles
@@ -184,18 +417,17 @@ export const dbHelpers = {
 
     /** 标记文章已读 */
     async markAsRead(articleId: string): Promise<void> {
+        const before = await db.articles.get(articleId)
+        if (!before || before.isRead) return
         await db.articles.update(articleId, { isRead: true })
+        emitDataChanges({ table: 'articles', before, after: { ...before, isRead: true } })
     },
 
     /** 更新文章 AI 摘要 */
     async updateAISummary(articleId: string, summary: string): Promise<void> {
-        const now = Date.now()
-        const expiresAt = now + EXPIRY_CONSTANTS.ARTICLE_EXPIRY
-
         await db.articles.update(articleId, {
             aiSummary: summary,
-            summaryGeneratedAt: now,
-            expiresAt,
+            summaryGeneratedAt: Date.now(),
         })
     },
 
@@ -204,23 +436,27 @@ export const dbHelpers = {
         const article = await db.articles.get(articleId)
         if (!article) return
 
+        const starred: StarredArticle = {
+            ...article,
+            content,
+            isStarred: true,
+            starredAt: Date.now(),
+        }
         await db.transaction('rw', [db.articles, db.starredArticles], async () => {
             await db.articles.update(articleId, { isStarred: true })
-            await db.starredArticles.put({
-                ...article,
-                content,
-                isStarred: true,
-                starredAt: Date.now(),
-            })
+            await db.starredArticles.put(starred)
         })
+        emitDataChanges({ table: 'starredArticles', after: starred })
     },
 
     /** 取消收藏 */
     async unstarArticle(articleId: string): Promise<void> {
+        const before = await db.starredArticles.get(articleId)
         await db.transaction('rw', [db.articles, db.starredArticles], async () => {
             await db.articles.update(articleId, { isStarred: false })
             await db.starredArticles.delete(articleId)
         })
+        if (before) emitDataChanges({ table: 'starredArticles', before })
     },
 
     /** 获取所有已浏览的文章（用于@引用选择器） */
@@ -281,43 +517,6 @@ export const dbHelpers = {
         return session.messages
     },
 
-    /** 清理过期数据 */
-    async cleanupExpiredData(): Promise<void> {
-        const now = Date.now()
-
-        console.log('[DB] Starting cleanup of expired data...')
-
-        try {
-            // 清理过期的文章元数据(保留收藏的文章)，直接 delete 并获取删除数量
-            const deletedArticles = await db.articles
-                .where('expiresAt').below(now)
-                .and(article => !article.isStarred)
-                .delete()
-
-            if (deletedArticles > 0) {
-                console.log(`[DB] Cleaned up ${deletedArticles} expired articles`)
-            }
-
-            // 清理过期的AI对话
-            const deletedChats = await db.chatSessions
-                .where('expiresAt').below(now)
-                .delete()
-
-            if (deletedChats > 0) {
-                console.log(`[DB] Cleaned up ${deletedChats} expired chat sessions`)
-            }
-
-            console.log('[DB] Cleanup completed')
-        } catch (error) {
-            console.error('[DB] Error during cleanup:', error)
-        }
-    },
-
-    /** 检查文章是否过期 */
-    isArticleExpired(article: Article): boolean {
-        return !!article.expiresAt && article.expiresAt < Date.now()
-    },
-
     /** 收藏AI对话 */
     async starChatSession(
         sessionId: string,
@@ -380,6 +579,31 @@ export const dbHelpers = {
             .sort((a, b) => b.starredAt - a.starredAt)
     },
 
+    /** ========== 播放进度 ========== */
+
+    /** 保存附件播放进度 */
+    async savePlaybackPosition(position: Omit<PlaybackPosition, 'updatedAt'>): Promise<void> {
+        await db.playbackPositions.put({ ...position, updatedAt: Date.now() })
+    },
+
+    /** 读取附件播放进度 */
+    async getPlaybackPosition(articleId: string): Promise<PlaybackPosition | undefined> {
+        return db.playbackPositions.get(articleId)
+    },
+
+    /** ========== 设置 ========== */
+
+    /** 读取设置项 */
+    async getSetting<T>(key: string): Promise<T | undefined> {
+        const record = await db.settings.get(key)
+        return record?.value as T | undefined
+    },
+
+    /** 保存设置项 */
+    async setSetting(key: string, value: unknown): Promise<void> {
+        await db.settings.put({ key, value })
+    },
+
     /** ========== 笔记管理 ========== */
 
     /** 创建笔记 */
@@ -395,20 +619,24 @@ export const dbHelpers = {
         }
 
         await db.notes.add(newNote)
+        emitDataChanges({ table: 'notes', after: newNote })
         return id
     },
 
     /** 更新笔记 */
     async updateNote(noteId: string, updates: Partial<Omit<Note, 'id' | 'createdAt'>>): Promise<void> {
-        await db.notes.update(noteId, {
-            ...updates,
-            updatedAt: Date.now(),
-        })
+        const before = await db.notes.get(noteId)
+        if (!before) return
+        const changes = { ...updates, updatedAt: Date.now() }
+        await db.notes.update(noteId, changes)
+        emitDataChanges({ table: 'notes', before, after: { ...before, ...changes } })
     },
 
     /** 删除笔记 */
     async deleteNote(noteId: string): Promise<void> {
+        const before = await db.notes.get(noteId)
         await db.notes.delete(noteId)
+        if (before) emitDataChanges({ table: 'notes', before })
     },
 
     /** 获取所有笔记 */
@@ -428,12 +656,11 @@ export const dbHelpers = {
             throw new Error('Note not found')
         }
 
-        const references = note.references || []
-        references.push(reference)
-
-        await db.notes.update(noteId, {
-            references,
+        const changes = {
+            references: [...(note.references || []), reference],
             updatedAt: Date.now(),
-        })
+        }
+        await db.notes.update(noteId, changes)
+        emitDataChanges({ table: 'notes', before: note, after: { ...note, ...changes } })
     },
 }
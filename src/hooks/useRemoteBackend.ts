@@ -0,0 +1,30 @@
+/**
+ * 阅读服务器 Hook - 回写本地的已读/收藏变更，按设置的间隔从服务器拉取，标签页隐藏时暂停
+ */
+import { useEffect } from 'react'
+import { useFeedStore } from '@/stores/feedStore'
+import { startRemoteRecorder, isRemotePullDue } from '@/services/remoteBackend'
+import { SYNC_CONSTANTS } from '@/utils/constants'
+
+export function useRemoteBackend(): void {
+    useEffect(() => startRemoteRecorder(), [])
+
+    useEffect(() => {
+        const runDuePull = () => {
+            if (document.hidden || !isRemotePullDue()) return
+            // 失败原因已记入拉取状态，在阅读服务器设置中查看
+            useFeedStore.getState().pullRemote().catch(() => {})
+        }
+
+        runDuePull()
+        const pullInterval = setInterval(runDuePull, SYNC_CONSTANTS.TICK_INTERVAL * 60 * 1000)
+
+        // 切回标签页时立即补做隐藏期间到期的拉取
+        document.addEventListener('visibilitychange', runDuePull)
+
+        return () => {
+            clearInterval(pullInterval)
+            document.removeEventListener('visibilitychange', runDuePull)
+        }
+    }, [])
+}
@@ -0,0 +1,30 @@
+/**
+ * 多设备同步 Hook - 记录数据变更，按设置的间隔自动同步，标签页隐藏时暂停
+ */
+import { useEffect } from 'react'
+import { useFeedStore } from '@/stores/feedStore'
+import { startSyncRecorder, isAutoSyncDue } from '@/services/sync'
+import { SYNC_CONSTANTS } from '@/utils/constants'
+
+export function useSync(): void {
+    useEffect(() => startSyncRecorder(), [])
+
+    useEffect(() => {
+        const runDueSync = () => {
+            if (document.hidden || !isAutoSyncDue()) return
+            // 失败原因已记入同步状态，在同步设置中查看
+            useFeedStore.getState().syncNow().catch(() => {})
+        }
+
+        runDueSync()
+        const syncInterval = setInterval(runDueSync, SYNC_CONSTANTS.TICK_INTERVAL * 60 * 1000)
+
+        // 切回标签页时立即补做隐藏期间到期的同步
+        document.addEventListener('visibilitychange', runDueSync)
+
+        return () => {
+            clearInterval(syncInterval)
+            document.removeEventListener('visibilitychange', runDueSync)
+        }
+    }, [])
+}
@@ -0,0 +1,32 @@
+/**
+ * WebSub 中继 Hook - 连接推送中继，为声明了 hub 的订阅源订阅推送，收到通知时刷新对应订阅源
+ */
+import { useEffect, useState } from 'react'
+import { useFeedStore } from '@/stores/feedStore'
+import { connectRelay, getFeedTopic, subscribeViaRelay } from '@/services/websub'
+
+export function useWebSubRelay(): void {
+    const feeds = useFeedStore(state => state.feeds)
+    // 最近一次连接成功的时间，变化时重新订阅
+    const [connectedAt, setConnectedAt] = useState(0)
+
+    useEffect(() => connectRelay(
+        (topic) => {
+            const { feeds, refreshFeed } = useFeedStore.getState()
+            const feed = feeds.find(f => getFeedTopic(f) === topic)
+            if (feed) {
+                console.log(`[WebSub] 收到推送: ${feed.title}`)
+                refreshFeed(feed.id, true)
+            }
+        },
+        () => setConnectedAt(Date.now())
+    ), [])
+
+    useEffect(() => {
+        if (!connectedAt) return
+        for (const feed of feeds) {
+            if (!feed.hubUrl) continue
+            subscribeViaRelay(feed).catch(err => console.error(`[WebSub] Failed to subscribe ${feed.title}:`, err))
+        }
+    }, [feeds, connectedAt])
+}
@@ -1,7 +1,10 @@
 /**
  * 文章 HTML 清洗与结构化解析
  * 保留语义标签、移除噪声，确保子标题与正文有清晰的层级区分
+ * 不依赖全局 document，可在解析 Worker 中运行
  */
+import { resolveUrl, resolveSrcset } from '@/utils/url'
+import { ELEMENT_NODE, TEXT_NODE, parseHtmlDocument } from '@/utils/dom'
 
 /** 允许保留的标签白名单 */
 const ALLOWED_TAGS = new Set([
@@ -23,8 +26,8 @@ const REMOVE_TAGS = new Set([
     'INPUT', 'TEXTAREA', 'SELECT', 'BUTTON',
 ])
 
-/** 需要清除的属性（保留 src/href/alt） */
-const KEEP_ATTRS = new Set(['src', 'href', 'alt', 'title', 'colspan', 'rowspan'])
+/** 需要清除的属性（保留 src/srcset/href/alt） */
+const KEEP_ATTRS = new Set(['src', 'srcset', 'href', 'alt', 'title', 'colspan', 'rowspan'])
 
 /**
  * 从 HTML 中提取主体内容区域
@@ -55,11 +58,13 @@ function extractMainContent(doc: Document): Element {
 
 /**
  * 递归清洗 DOM 节点
+ * @param baseUrl 解析相对 href/src/srcset 的基准地址
  */
-function sanitizeNode(node: Node, output: HTMLElement): void {
+function sanitizeNode(node: Node, output: Element, baseUrl?: string): void {
+    const doc = output.ownerDocument
     for (const child of Array.from(node.childNodes)) {
         // 文本节点直接保留
-        if (child.nodeType === Node.TEXT_NODE) {
+        if (child.nodeType === TEXT_NODE) {
             if (child.textContent && child.textContent.trim()) {
                 output.appendChild(child.cloneNode(true))
             }
@@ -67,7 +72,7 @@ function sanitizeNode(node: Node, output: HTMLElement): void {
         }
 
         // 非元素节点跳过
-        if (child.nodeType !== Node.ELEMENT_NODE) continue
+        if (child.nodeType !== ELEMENT_NODE) continue
 
         const el = child as Element
         const tag = el.tagName.toUpperCase()
@@ -77,17 +82,22 @@ function sanitizeNode(node: Node, output: HTMLElement): void {
 
         // 白名单标签：创建干净副本
         if (ALLOWED_TAGS.has(tag)) {
-            const clean = document.createElement(tag.toLowerCase())
+            const clean = doc.createElement(tag.toLowerCase())
 
             // 只保留必要属性
             for (const attr of Array.from(el.attributes)) {
-                if (KEEP_ATTRS.has(attr.name.toLowerCase())) {
-                    // 安全检查 href/src
-                    if (attr.name === 'href' || attr.name === 'src') {
-                        const val = attr.value.trim()
-                        if (val.startsWith('javascript:') || val.startsWith('data:text')) continue
-                    }
-                    clean.setAttribute(attr.name, attr.value)
+                const name = attr.name.toLowerCase()
+                if (!KEEP_ATTRS.has(name)) continue
+
+                // 安全检查 href/src，并将相对地址转为绝对地址
+                if (name === 'href' || name === 'src') {
+                    const val = attr.value.trim()
+                    if (val.startsWith('javascript:') || val.startsWith('data:text')) continue
+                    clean.setAttribute(name, resolveUrl(val, baseUrl))
+                } else if (name === 'srcset') {
+                    clean.setAttribute(name, resolveSrcset(attr.value, baseUrl))
+                } else {
+                    clean.setAttribute(name, attr.value)
                 }
             }
 
@@ -98,7 +108,7 @@ function sanitizeNode(node: Node, output: HTMLElement): void {
             }
 
             // 递归处理子节点
-            sanitizeNode(el, clean)
+            sanitizeNode(el, clean, baseUrl)
 
             // 只添加非空节点
             if (clean.childNodes.length > 0 || ['BR', 'HR', 'IMG'].includes(tag)) {
@@ -106,7 +116,7 @@ function sanitizeNode(node: Node, output: HTMLElement): void {
             }
         } else {
             // 非白名单标签：展开其子节点（不保留外层标签）
-            sanitizeNode(el, output)
+            sanitizeNode(el, output, baseUrl)
         }
     }
 }
@@ -114,22 +124,25 @@ function sanitizeNode(node: Node, output: HTMLElement): void {
 /**
  * 清洗文章 HTML，保留语义结构
  * @param rawHtml 原始 HTML
+ * @param baseUrl 相对地址的基准（网页地址或 Feed 条目的 xml:base），页面自带 <base> 时以其为准
  * @returns 清洗后的 HTML 字符串
  */
-export function sanitizeArticleHtml(rawHtml: string): string {
+export function sanitizeArticleHtml(rawHtml: string, baseUrl?: string): string {
     if (!rawHtml.trim()) return ''
 
-    const parser = new DOMParser()
-    const doc = parser.parseFromString(rawHtml, 'text/html')
+    const doc = parseHtmlDocument(rawHtml)
+
+    const baseHref = doc.querySelector('base[href]')?.getAttribute('href')
+    const effectiveBase = baseHref ? resolveUrl(baseHref, baseUrl) : baseUrl
 
     // 提取主内容区域
     const mainContent = extractMainContent(doc)
 
     // 创建输出容器
-    const output = document.createElement('div')
+    const output = doc.createElement('div')
 
     // 递归清洗
-    sanitizeNode(mainContent, output)
+    sanitizeNode(mainContent, output, effectiveBase)
 
     // 后处理：合并连续空白 div，移除空段落
     output.querySelectorAll('p, div, span').forEach(el => {
@@ -0,0 +1,25 @@
+/**
+ * 加载更早文章 - 单次回填的文章数上限设置
+ */
+import { BACKFILL_CONSTANTS } from '@/utils/constants'
+
+// 配置存储 key
+const BACKFILL_LIMIT_KEY = 'folo_backfill_limit'
+
+/** 可选的单次加载上限（篇） */
+export const BACKFILL_LIMIT_OPTIONS = [20, 50, 100, 200, 500]
+
+/**
+ * 获取单次加载更早文章的数量上限
+ */
+export function getBackfillLimit(): number {
+    const value = parseInt(localStorage.getItem(BACKFILL_LIMIT_KEY) || '', 10)
+    return Number.isNaN(value) || value <= 0 ? BACKFILL_CONSTANTS.DEFAULT_LIMIT : value
+}
+
+/**
+ * 保存单次加载更早文章的数量上限
+ */
+export function saveBackfillLimit(limit: number): void {
+    localStorage.setItem(BACKFILL_LIMIT_KEY, String(limit))
+}
@@ -0,0 +1,347 @@
+/**
+ * 完整备份与恢复 - 导出全部 IndexedDB 表与 localStorage 设置为带版本号的 JSON 文件
+ * 恢复支持合并（按更新时间解决冲突）与替换两种模式，旧 schema 的备份先迁移到当前版本
+ */
+import type { Table } from 'dexie'
+import { db } from '@/db'
+import type { Article, Feed, Note } from '@/types'
+import { SYNC_DEVICE_ID_KEY, SYNC_STATUS_KEY, SYNC_FOLDER_KEY } from '@/services/sync'
+import { REMOTE_STATUS_KEY } from '@/services/remoteBackend'
+
+// 备份文件格式标识与格式版本（文件结构变化时递增）
+const BACKUP_FORMAT = 'folo-backup'
+const BACKUP_FORMAT_VERSION = 1
+
+// 应用写入 localStorage 的 key 前缀
+const LOCAL_STORAGE_KEY_PATTERN = /^folo[_-]/
+
+// 含密钥的 localStorage 设置及其密钥字段
+const SECRET_FIELDS: Record<string, string> = {
+    folo_ai_config: 'apiKey',
+    folo_sync_config: 'password',
+    folo_remote_backend: 'password',
+}
+
+// 只属于本设备的设置，不导出（同步设备 ID 复制到其他设备会导致两台设备互相覆盖）
+const DEVICE_LOCAL_STORAGE_KEYS = new Set([SYNC_DEVICE_ID_KEY, SYNC_STATUS_KEY, REMOTE_STATUS_KEY])
+
+// 无法序列化为 JSON 的 settings 表项（文件夹授权句柄）
+const DEVICE_SETTING_KEYS = new Set([SYNC_FOLDER_KEY])
+
+// 离线正文缓存表，可重新抓取，默认不导出
+const CONTENT_CACHE_TABLE = 'articleContents'
+
+type BackupTables = Record<string, Record<string, unknown>[]>
+
+/** 备份文件内容 */
+export interface BackupData {
+    format: typeof BACKUP_FORMAT
+    formatVersion: number
+    schemaVersion: number                    // 导出时的数据库版本
+    createdAt: number
+    tables: BackupTables
+    localStorage: Record<string, string>
+}
+
+/** 导出选项 */
+export interface BackupOptions {
+    includeSecrets: boolean       // 是否包含 AI API Key 与同步密码
+    includeContentCache: boolean  // 是否包含离线正文缓存
+}
+
+/** 恢复模式：合并到现有数据 / 清空后替换 */
+export type RestoreMode = 'merge' | 'replace'
+
+/** 备份概要（恢复前预览） */
+export interface BackupSummary {
+    createdAt: number
+    schemaVersion: number
+    counts: Record<string, number>
+    hasSecrets: boolean
+}
+
+/** 恢复结果 */
+export interface RestoreResult {
+    written: number    // 写入的记录数
+    skipped: number    // 因本地较新或订阅源冲突而跳过的记录数
+}
+
+/**
+ * 旧 schema 备份的数据迁移，key 为迁移后的数据库版本
+ * 新增数据库版本且需要转换已有数据时，在此登记对应的转换
+ */
+const SCHEMA_MIGRATIONS: Record<number, (tables: BackupTables) => void> = {}
+
+/**
+ * 导出完整备份
+ */
+export async function createBackup(options: BackupOptions): Promise<BackupData> {
+    const tables: BackupTables = {}
+    for (const table of db.tables) {
+        if (table.name === CONTENT_CACHE_TABLE && !options.includeContentCache) continue
+        const rows = await table.toArray()
+        tables[table.name] = table.name === 'settings'
+            ? rows.filter(row => !DEVICE_SETTING_KEYS.has(row.key))
+            : rows
+    }
+
+    const storage: Record<string, string> = {}
+    for (const key of getAppStorageKeys()) {
+        if (DEVICE_LOCAL_STORAGE_KEYS.has(key)) continue
+        const value = localStorage.getItem(key)
+        if (value === null) continue
+        storage[key] = key in SECRET_FIELDS && !options.includeSecrets ? stripSecret(key, value) : value
+    }
+
+    return {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        schemaVersion: db.verno,
+        createdAt: Date.now(),
+        tables,
+        localStorage: storage,
+    }
+}
+
+/**
+ * 应用写入的 localStorage key
+ */
+function getAppStorageKeys(): string[] {
+    const keys: string[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i)
+        if (key && LOCAL_STORAGE_KEY_PATTERN.test(key)) keys.push(key)
+    }
+    return keys
+}
+
+/**
+ * 去掉设置中的密钥字段
+ */
+function stripSecret(key: string, value: string): string {
+    try {
+        const { [SECRET_FIELDS[key]]: _secret, ...rest } = JSON.parse(value)
+        return JSON.stringify(rest)
+    } catch {
+        return value
+    }
+}
+
+/**
+ * 读取设置中的密钥字段
+ */
+function readSecret(key: string, value: string | null | undefined): string | undefined {
+    if (!value) return undefined
+    try {
+        return JSON.parse(value)[SECRET_FIELDS[key]] || undefined
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * 解析备份文件，并把旧 schema 的数据迁移到当前版本
+ * @throws 文件格式无效或来自更新版本的应用时抛出错误
+ */
+export function parseBackup(text: string): BackupData {
+    let data: BackupData
+    try {
+        data = JSON.parse(text)
+    } catch {
+        throw new Error('文件不是有效的 JSON')
+    }
+
+    if (data?.format !== BACKUP_FORMAT || typeof data.tables !== 'object' || data.tables === null) {
+        throw new Error('不是有效的备份文件')
+    }
+    if (data.formatVersion > BACKUP_FORMAT_VERSION || data.schemaVersion > db.verno) {
+        throw new Error('备份来自更新版本的应用，请先升级后再恢复')
+    }
+
+    for (let version = data.schemaVersion + 1; version <= db.verno; version++) {
+        SCHEMA_MIGRATIONS[version]?.(data.tables)
+    }
+    if (data.schemaVersion < db.verno) {
+        console.log(`[Backup] 备份已从数据库版本 ${data.schemaVersion} 迁移到 ${db.verno}`)
+    }
+
+    return { ...data, schemaVersion: db.verno, localStorage: data.localStorage ?? {} }
+}
+
+/**
+ * 备份概要
+ */
+export function summarizeBackup(data: BackupData): BackupSummary {
+    const counts: Record<string, number> = {}
+    for (const [name, rows] of Object.entries(data.tables)) counts[name] = rows.length
+
+    const hasSecrets = Object.keys(SECRET_FIELDS).some(key => !!readSecret(key, data.localStorage[key]))
+    return { createdAt: data.createdAt, schemaVersion: data.schemaVersion, counts, hasSecrets }
+}
+
+/**
+ * 记录的更新时间（用于合并时解决冲突），没有时间字段时返回 undefined
+ */
+function getRecordTime(record: Record<string, unknown>): number | undefined {
+    for (const field of ['updatedAt', 'starredAt', 'lastAccessedAt', 'createdAt']) {
+        const value = record[field]
+        if (typeof value === 'number') return value
+    }
+    return undefined
+}
+
+/**
+ * 合并一张表：本地不存在的记录直接写入；
+ * 双方都有时保留更新时间较新的一方，没有时间字段或时间相同时保留本地记录
+ * 文章没有更新时间，已读/收藏状态取双方之一为真即为真
+ */
+async function mergeTable(table: Table, rows: Record<string, unknown>[]): Promise<RestoreResult> {
+    const keyPath = table.schema.primKey.keyPath as string
+    const existing = await table.bulkGet(rows.map(row => row[keyPath] as string))
+
+    if (table.name === 'articles') {
+        const toWrite = (rows as unknown as Article[]).flatMap((row, i) => {
+            const local = existing[i] as Article | undefined
+            if (!local) return [row]
+            const isRead = local.isRead || row.isRead
+            const isStarred = local.isStarred || row.isStarred
+            return isRead !== local.isRead || isStarred !== local.isStarred ? [{ ...local, isRead, isStarred }] : []
+        })
+        await table.bulkPut(toWrite)
+        return { written: toWrite.length, skipped: rows.length - toWrite.length }
+    }
+
+    const toWrite = rows.filter((row, i) => {
+        const local = existing[i]
+        if (!local) return true
+        const incomingTime = getRecordTime(row)
+        const localTime = getRecordTime(local)
+        return incomingTime !== undefined && localTime !== undefined && incomingTime > localTime
+    })
+
+    await table.bulkPut(toWrite)
+    return { written: toWrite.length, skipped: rows.length - toWrite.length }
+}
+
+/**
+ * 把备份中指向 feedIdMap 里订阅源的记录改为指向本地订阅源（文章 ID 以订阅源 ID 开头，一并替换）
+ */
+function remapFeedIds(tables: BackupTables, feedIdMap: Map<string, string>): void {
+    const remapArticleId = (id: string): string => {
+        const separator = id.indexOf(':')
+        const localFeedId = separator > 0 ? feedIdMap.get(id.slice(0, separator)) : undefined
+        return localFeedId ? `${localFeedId}${id.slice(separator)}` : id
+    }
+    const remapRows = (name: string, remap: (row: Record<string, unknown>) => Record<string, unknown>) => {
+        if (tables[name]) tables[name] = tables[name].map(remap)
+    }
+
+    for (const name of ['articles', 'starredArticles']) {
+        remapRows(name, row => ({
+            ...row,
+            id: remapArticleId(row.id as string),
+            feedId: feedIdMap.get(row.feedId as string) ?? row.feedId,
+        }))
+    }
+    for (const name of ['playbackPositions', 'articleContents', 'chatSessions', 'starredChatSessions']) {
+        remapRows(name, row => ({ ...row, articleId: remapArticleId(row.articleId as string) }))
+    }
+    remapRows('notes', row => {
+        const note = row as unknown as Note
+        return {
+            ...row,
+            references: note.references?.map(ref =>
+                ref.type === 'article' ? { ...ref, id: remapArticleId(ref.id) } : ref
+            ),
+        }
+    })
+}
+
+/**
+ * 从备份恢复数据（完成后需重新加载页面以刷新内存中的状态与设置）
+ */
+export async function restoreBackup(data: BackupData, mode: RestoreMode): Promise<RestoreResult> {
+    const tableNames = db.tables.map(table => table.name)
+    const tables = Object.fromEntries(
+        Object.entries(data.tables).filter(([name]) => tableNames.includes(name))
+    )
+
+    // 合并模式下，与本地订阅源 URL 相同但 ID 不同的订阅源保留本地的一条（避免违反唯一索引），
+    // 其文章、收藏、播放进度、正文缓存、对话与笔记引用改为指向本地订阅源
+    let conflictSkipped = 0
+    if (mode === 'merge' && tables.feeds) {
+        const localFeeds = await db.feeds.toArray()
+        const localIdByUrl = new Map(localFeeds.map(feed => [feed.url, feed.id]))
+        const feedIdMap = new Map<string, string>()
+        for (const feed of tables.feeds as unknown as Feed[]) {
+            const localId = localIdByUrl.get(feed.url)
+            if (localId && localId !== feed.id) feedIdMap.set(feed.id, localId)
+        }
+        if (feedIdMap.size > 0) {
+            const before = tables.feeds.length
+            tables.feeds = tables.feeds.filter(row => !feedIdMap.has(row.id as string))
+            conflictSkipped = before - tables.feeds.length
+            remapFeedIds(tables, feedIdMap)
+        }
+    }
+
+    const result: RestoreResult = { written: 0, skipped: conflictSkipped }
+    await db.transaction('rw', db.tables, async () => {
+        for (const table of db.tables) {
+            const rows = tables[table.name]
+            if (mode === 'replace') {
+                // 备份不含正文缓存时保留本地缓存
+                if (!rows && table.name === CONTENT_CACHE_TABLE) continue
+                if (table.name === 'settings') {
+                    // 本设备专属的设置项不随替换清空
+                    await table.filter(row => !DEVICE_SETTING_KEYS.has(row.key)).delete()
+                } else {
+                    await table.clear()
+                }
+                if (rows) {
+                    await table.bulkPut(rows)
+                    result.written += rows.length
+                }
+            } else if (rows) {
+                const merged = await mergeTable(table, rows)
+                result.written += merged.written
+                result.skipped += merged.skipped
+            }
+        }
+    })
+
+    restoreLocalStorage(data.localStorage, mode)
+    console.log(`[Backup] 恢复完成（${mode}），写入 ${result.written} 条，跳过 ${result.skipped} 条`)
+    return result
+}
+
+/**
+ * 恢复 localStorage 设置：替换模式覆盖本地设置，合并模式只补充本地没有的设置；
+ * 备份不含密钥时保留本地的密钥，本设备专属的设置保持不变
+ */
+function restoreLocalStorage(storage: Record<string, string>, mode: RestoreMode): void {
+    const localSecrets = Object.keys(SECRET_FIELDS)
+        .map(key => [key, readSecret(key, localStorage.getItem(key))] as const)
+
+    if (mode === 'replace') {
+        getAppStorageKeys()
+            .filter(key => !(key in storage) && !DEVICE_LOCAL_STORAGE_KEYS.has(key))
+            .forEach(key => localStorage.removeItem(key))
+    }
+
+    for (const [key, value] of Object.entries(storage)) {
+        if (!LOCAL_STORAGE_KEY_PATTERN.test(key) || DEVICE_LOCAL_STORAGE_KEYS.has(key)) continue
+        if (mode === 'merge' && localStorage.getItem(key) !== null) continue
+        localStorage.setItem(key, value)
+    }
+
+    for (const [key, secret] of localSecrets) {
+        const value = localStorage.getItem(key)
+        if (!secret || !value || readSecret(key, value)) continue
+        try {
+            localStorage.setItem(key, JSON.stringify({ ...JSON.parse(value), [SECRET_FIELDS[key]]: secret }))
+        } catch {
+            // 设置损坏时保持原样
+        }
+    }
+}
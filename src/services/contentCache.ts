@@ -0,0 +1,216 @@
+/**
+ * 文章正文缓存 - 阅读视图、摘要生成与 AI 对话共用
+ * 打开文章或预取未读文章时抓取原文，清洗后的 HTML 与纯文本存入 articleContents 表；
+ * 总大小超出上限时按最近读取时间淘汰（LRU）。缓存开关与上限保存在 localStorage
+ */
+import { db } from '@/db'
+import type { Article } from '@/types'
+import { fetchArticleContent } from '@/services/rss'
+import { runParserTask } from '@/services/parserWorker'
+import type { ParserTaskPriority } from '@/workers/parserTasks'
+import { isNewsletterUrl } from '@/services/newsletter'
+
+// 配置存储 key
+const CONTENT_CACHE_KEY = 'folo_content_cache'
+
+const MB = 1024 * 1024
+
+/** 正文缓存设置 */
+export interface ContentCacheSettings {
+    enabled: boolean
+    maxSizeMB: number
+}
+
+const DEFAULT_SETTINGS: ContentCacheSettings = { enabled: true, maxSizeMB: 100 }
+
+/** 可选的缓存上限（MB） */
+export const CONTENT_CACHE_SIZE_OPTIONS = [20, 50, 100, 200, 500]
+
+// 单次预取的最多文章数
+const PREFETCH_LIMIT = 50
+
+// 按最近读取时间排序、附带大小的索引（统计与淘汰只遍历索引键，不读取正文）
+const ACCESS_SIZE_INDEX = '[lastAccessedAt+size]'
+
+// 淘汰时单次删除的条数
+const EVICT_BATCH_SIZE = 200
+
+/** 读取到的文章正文 */
+export interface ArticleContentResult {
+    html: string       // 清洗后的 HTML
+    text: string       // 纯文本
+    source: 'cache' | 'network' | 'feed'  // 来自缓存 / 抓取原文 / 订阅源自带正文
+}
+
+/**
+ * 获取正文缓存设置
+ */
+export function getContentCacheSettings(): ContentCacheSettings {
+    try {
+        const saved = localStorage.getItem(CONTENT_CACHE_KEY)
+        return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS
+    } catch {
+        return DEFAULT_SETTINGS
+    }
+}
+
+/**
+ * 保存正文缓存设置（关闭缓存时清空已缓存内容）
+ */
+export async function saveContentCacheSettings(settings: ContentCacheSettings): Promise<void> {
+    localStorage.setItem(CONTENT_CACHE_KEY, JSON.stringify(settings))
+    if (!settings.enabled) {
+        await clearContentCache()
+    } else {
+        await evictContentCache()
+    }
+}
+
+/**
+ * 缓存占用统计
+ */
+export async function getContentCacheStats(): Promise<{ count: number; size: number }> {
+    const entries = await readCacheIndex()
+    return { count: entries.length, size: entries.reduce((sum, entry) => sum + entry.size, 0) }
+}
+
+/**
+ * 按最近读取时间从旧到新列出缓存的文章 ID 与大小
+ */
+async function readCacheIndex(): Promise<{ articleId: string; size: number }[]> {
+    const entries: { articleId: string; size: number }[] = []
+    await db.articleContents.orderBy(ACCESS_SIZE_INDEX).eachKey((key, cursor) => {
+        entries.push({ articleId: cursor.primaryKey as string, size: (key as [number, number])[1] })
+    })
+    return entries
+}
+
+/**
+ * 清空正文缓存
+ */
+export async function clearContentCache(): Promise<void> {
+    await db.articleContents.clear()
+}
+
+/**
+ * 总大小超出上限时，按最近读取时间从旧到新删除
+ */
+async function evictContentCache(): Promise<void> {
+    const maxSize = getContentCacheSettings().maxSizeMB * MB
+    const entries = await readCacheIndex()
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0)
+    if (total <= maxSize) return
+
+    const evicted: string[] = []
+    for (const entry of entries) {
+        if (total <= maxSize) break
+        total -= entry.size
+        evicted.push(entry.articleId)
+    }
+    for (let i = 0; i < evicted.length; i += EVICT_BATCH_SIZE) {
+        await db.articleContents.bulkDelete(evicted.slice(i, i + EVICT_BATCH_SIZE))
+    }
+    console.log(`[ContentCache] 淘汰 ${evicted.length} 篇缓存正文`)
+}
+
+/**
+ * 文章正文是否已随订阅源提供（邮件订阅的正文就是邮件本身，无需抓取网页）
+ */
+async function hasFullContentInFeed(article: Article): Promise<boolean> {
+    if (!article.description) return false
+    const feed = await db.feeds.get(article.feedId)
+    return !!feed && isNewsletterUrl(feed.url)
+}
+
+/**
+ * 获取文章正文：优先读取缓存，否则抓取原文并写入缓存；
+ * 原文抓取失败（如离线）时退回订阅源自带的正文（不写入缓存，下次重新抓取）
+ * @param signal 中止时取消尚未完成的解析
+ */
+export async function getArticleContent(
+    article: Article,
+    signal?: AbortSignal,
+    priority: ParserTaskPriority = 'interactive'
+): Promise<ArticleContentResult> {
+    const settings = getContentCacheSettings()
+
+    if (settings.enabled) {
+        const cached = await db.articleContents.get(article.id)
+        if (cached) {
+            await db.articleContents.update(article.id, { lastAccessedAt: Date.now() })
+            return { html: cached.html, text: cached.text, source: 'cache' }
+        }
+    }
+
+    let html: string
+    let baseUrl: string
+    let source: ArticleContentResult['source']
+    if (await hasFullContentInFeed(article)) {
+        html = article.description!
+        baseUrl = article.link
+        source = 'feed'
+    } else {
+        try {
+            html = await fetchArticleContent(article.link)
+            baseUrl = article.link
+            source = 'network'
+        } catch (err) {
+            if (!article.description) throw err
+            console.warn('[ContentCache] 原文抓取失败，使用订阅源自带的正文:', err)
+            html = article.description
+            baseUrl = article.baseUrl || article.link
+            source = 'feed'
+        }
+    }
+
+    const sanitized = await runParserTask('sanitizeHtml', { html, baseUrl }, signal, priority)
+    const text = await runParserTask('extractText', { html: sanitized }, signal, priority)
+
+    if (settings.enabled && source === 'network') {
+        const now = Date.now()
+        await db.articleContents.put({
+            articleId: article.id,
+            html: sanitized,
+            text,
+            // 按 UTF-16 估算占用空间
+            size: (sanitized.length + text.length) * 2,
+            fetchedAt: now,
+            lastAccessedAt: now,
+        })
+        await evictContentCache()
+    }
+
+    return { html: sanitized, text, source }
+}
+
+/**
+ * 预取未读文章的正文（最新的在前，跳过已缓存的），供离线阅读
+ * @param onProgress 每处理完一篇回调一次
+ * @returns 成功缓存的文章数
+ */
+export async function prefetchUnreadContents(
+    onProgress?: (done: number, total: number) => void,
+    signal?: AbortSignal
+): Promise<number> {
+    if (!getContentCacheSettings().enabled) return 0
+
+    const cachedIds = new Set(await db.articleContents.toCollection().primaryKeys())
+    const unread = (await db.articles.orderBy('pubDate').reverse().filter(a => !a.isRead).toArray())
+        .filter(article => !cachedIds.has(article.id) && /^https?:\/\//i.test(article.link))
+        .slice(0, PREFETCH_LIMIT)
+
+    let cachedCount = 0
+    for (const [i, article] of unread.entries()) {
+        if (signal?.aborted) break
+        try {
+            const { source } = await getArticleContent(article, signal, 'background')
+            if (source === 'network') cachedCount++
+        } catch (err) {
+            console.warn(`[ContentCache] 预取失败: ${article.title}`, err)
+        }
+        onProgress?.(i + 1, unread.length)
+    }
+
+    console.log(`[ContentCache] 预取完成，缓存 ${cachedCount}/${unread.length} 篇`)
+    return cachedCount
+}
@@ -3,6 +3,7 @@
  * 优先级策略：RSS内容 > 子标题提取 > 全文前N字
  */
 import { AI_CONSTANTS } from '@/utils/constants'
+import { parseHtmlDocument } from '@/utils/dom'
 
 export interface ContentExtractionResult {
     content: string
@@ -15,8 +16,7 @@ export interface ContentExtractionResult {
  * 用于生成结构化摘要
  */
 export function extractHeadingsFromHtml(html: string): string {
-    const div = document.createElement('div')
-    div.innerHTML = html
+    const div = parseHtmlDocument(html).body
 
     // 移除无用标签
     div.querySelectorAll('script, style, nav, header, footer, aside').forEach(el => el.remove())
@@ -56,10 +56,10 @@ export function extractHeadingsFromHtml(html: string): string {
 /**
  * 从 HTML 中提取纯文本（用于 AI 摘要）
  * 增强版：优先提取主内容区域
+ * 不依赖全局 document，可在解析 Worker 中运行
  */
 export function extractTextFromHtml(html: string): string {
-    const div = document.createElement('div')
-    div.innerHTML = html
+    const div = parseHtmlDocument(html).body
 
     // 移除脚本和样式
     div.querySelectorAll('script, style, nav, header, footer, aside').forEach(el => el.remove())
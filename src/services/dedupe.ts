@@ -0,0 +1,37 @@
+/**
+ * 文章去重服务 - 按规范化链接合并重复文章，并找出同一文章所在的其他订阅源
+ */
+import type { Article } from '@/types'
+import { dbHelpers } from '@/db'
+
+/**
+ * 合并列表中链接相同的文章，保留首次出现的一条（列表已按时间倒序）
+ */
+export function collapseDuplicateArticles(articles: Article[]): Article[] {
+    const seen = new Set<string>()
+    return articles.filter(article => {
+        if (!article.canonicalLink) return true
+        if (seen.has(article.canonicalLink)) return false
+        seen.add(article.canonicalLink)
+        return true
+    })
+}
+
+/**
+ * 查找文章在其他订阅源中的重复项
+ * @returns 文章 ID -> 同时收录该文章的其他订阅源 ID
+ */
+export async function findCrossFeedDuplicates(articles: Article[]): Promise<Record<string, string[]>> {
+    const links = [...new Set(articles.map(a => a.canonicalLink).filter((link): link is string => !!link))]
+    const feedIdsByLink = await dbHelpers.getFeedIdsByCanonicalLinks(links)
+
+    const result: Record<string, string[]> = {}
+    for (const article of articles) {
+        const feedIds = article.canonicalLink ? feedIdsByLink.get(article.canonicalLink) : undefined
+        const otherFeedIds = feedIds ? [...feedIds].filter(id => id !== article.feedId) : []
+        if (otherFeedIds.length > 0) {
+            result[article.id] = otherFeedIds
+        }
+    }
+    return result
+}
@@ -0,0 +1,54 @@
+/**
+ * 订阅源健康状态 - 统计发文频率，识别失败或停更的订阅源
+ */
+import type { Feed } from '@/types'
+import { HEALTH_CONSTANTS } from '@/utils/constants'
+
+const DAY = 24 * 60 * 60 * 1000
+
+export type FeedHealthStatus = 'healthy' | 'failing' | 'stale'
+
+/**
+ * 根据一次抓取的文章发布时间统计发文频率
+ * @param pubDates 文章发布时间戳（无效值会被忽略）
+ */
+export function computeItemStats(pubDates: number[]): { avgItemsPerDay?: number; latestItemAt?: number } {
+    const valid = pubDates.filter(t => Number.isFinite(t) && t > 0)
+    if (valid.length === 0) return {}
+
+    const latest = Math.max(...valid)
+    const oldest = Math.min(...valid)
+    // 时间跨度至少按 1 天计算，避免单日多篇时频率虚高
+    const spanDays = Math.max((latest - oldest) / DAY, 1)
+
+    return {
+        avgItemsPerDay: Math.round((valid.length / spanDays) * 100) / 100,
+        latestItemAt: latest,
+    }
+}
+
+/**
+ * 判断订阅源健康状态
+ */
+export function getFeedHealth(feed: Feed, now = Date.now()): FeedHealthStatus {
+    if ((feed.consecutiveFailures ?? 0) > 0) return 'failing'
+
+    const lastSuccess = feed.lastSuccessAt ?? feed.lastFetched
+    if (lastSuccess && now - lastSuccess > HEALTH_CONSTANTS.STALE_SUCCESS_DAYS * DAY) return 'stale'
+    if (feed.latestItemAt && now - feed.latestItemAt > HEALTH_CONSTANTS.STALE_ITEM_DAYS * DAY) return 'stale'
+
+    return 'healthy'
+}
+
+/**
+ * 筛选出需要关注的订阅源（失败在前，停更在后）
+ */
+export function getUnhealthyFeeds(feeds: Feed[]): Array<{ feed: Feed; status: FeedHealthStatus }> {
+    return feeds
+        .map(feed => ({ feed, status: getFeedHealth(feed) }))
+        .filter(({ status }) => status !== 'healthy')
+        .sort((a, b) => {
+            if (a.status !== b.status) return a.status === 'failing' ? -1 : 1
+            return (b.feed.consecutiveFailures ?? 0) - (a.feed.consecutiveFailures ?? 0)
+        })
+}
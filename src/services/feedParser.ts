@@ -0,0 +1,529 @@
+/**
+ * Feed 解析 - RSS 2.0、RSS 1.0 (RDF)、Atom、JSON Feed 1.x
+ * 只依赖 linkedom，主线程与解析 Worker 共用
+ */
+import { resolveUrl } from '@/utils/url'
+import { getLocalName, parseHtmlDocument, parseXmlDocument } from '@/utils/dom'
+import { textToHtml } from '@/utils/format'
+import type { Enclosure } from '@/types'
+
+export interface FeedData {
+    title: string
+    link?: string
+    description?: string
+    image?: { url?: string }
+    ttl?: number          // 源建议的刷新间隔（分钟），来自 <ttl> 或 sy:updatePeriod
+    hub?: string          // WebSub hub 地址
+    selfUrl?: string      // Feed 声明的自身地址
+    nextPageUrl?: string  // 更早内容的分页地址（RFC 5005 的 rel="next" / "prev-archive"，JSON Feed 的 next_url）
+    language?: string     // 订阅源语言（RSS 的 <language>、JSON Feed 的 language），用于解析有歧义的时区缩写
+    items: FeedItem[]
+}
+
+export interface FeedItem {
+    guid?: string
+    title?: string
+    link?: string
+    pubDate?: string
+    creator?: string
+    author?: string
+    content?: string
+    description?: string
+    enclosures?: Enclosure[]
+    image?: string        // 题图（缩略图或正文首图）
+    baseUrl?: string      // 正文中相对地址的基准（xml:base 或订阅源主页）
+}
+
+/** 网页中声明的 Feed 链接 */
+export interface FeedLink {
+    url: string
+    title?: string
+    type?: 'rss' | 'atom' | 'json'
+}
+
+// <link rel="alternate"> 中认可的 Feed MIME 类型
+const FEED_LINK_TYPES: Record<string, FeedLink['type']> = {
+    'application/rss+xml': 'rss',
+    'application/atom+xml': 'atom',
+    'application/feed+json': 'json',
+    'application/json': 'json',
+}
+
+/**
+ * 从 HTML 中提取 <link rel="alternate"> 声明的 Feed 地址
+ */
+export function extractFeedLinks(html: string, pageUrl: string): FeedLink[] {
+    const doc = parseHtmlDocument(html)
+    const candidates: FeedLink[] = []
+
+    for (const link of Array.from(doc.querySelectorAll('link[rel~="alternate"][href]'))) {
+        const type = FEED_LINK_TYPES[(link.getAttribute('type') || '').toLowerCase().trim()]
+        if (!type) continue
+
+        try {
+            const url = new URL(link.getAttribute('href')!, pageUrl).href
+            if (candidates.some(c => c.url === url)) continue
+            candidates.push({ url, type, title: link.getAttribute('title')?.trim() || undefined })
+        } catch {
+            // 无效的 href，忽略
+        }
+    }
+
+    return candidates
+}
+
+/**
+ * 解析 RSS/Atom/RDF XML 或 JSON Feed（按内容嗅探格式）
+ * @param feedUrl Feed 自身地址，用于解析相对链接
+ */
+export function parseRSS(xmlText: string, feedUrl?: string): FeedData {
+    // JSON Feed 格式（不依赖扩展名，按内容判断）
+    if (xmlText.trim().startsWith('{')) {
+        return parseJSONFeed(xmlText, feedUrl)
+    }
+
+    const doc = parseXmlDocument(xmlText)
+
+    // Atom 格式
+    const feedEl = doc.querySelector('feed')
+    if (feedEl) {
+        return parseAtom(feedEl, feedUrl)
+    }
+
+    // RSS 1.0 (RDF) 格式：<item> 位于 <channel> 之外，需先于 RSS 2.0 判断
+    const rootEl = doc.documentElement
+    if (rootEl && getLocalName(rootEl) === 'RDF') {
+        return parseRDF(rootEl, feedUrl)
+    }
+
+    // RSS 2.0 格式
+    const channelEl = doc.querySelector('channel')
+    if (channelEl) {
+        return parseRSS2(channelEl, feedUrl)
+    }
+
+    throw new Error('无法识别的 Feed 格式')
+}
+
+/**
+ * 按限定名（含命名空间前缀，如 media:content）查找直接或间接子元素
+ * querySelector 无法可靠匹配带前缀的 XML 元素，这里用 getElementsByTagName
+ */
+function getElementsByQName(el: Element, qname: string): Element[] {
+    return Array.from(el.getElementsByTagName(qname))
+}
+
+/**
+ * 计算元素生效的 xml:base：自外向内依次合并祖先元素上的 xml:base
+ * @param fallback 文档本身的基准地址（无 xml:base 时使用）
+ */
+function getXmlBase(el: Element, fallback?: string): string | undefined {
+    const bases: string[] = []
+    for (let node: Element | null = el; node; node = node.parentElement) {
+        const base = node.getAttribute('xml:base')
+        if (base) bases.unshift(base)
+    }
+    return bases.reduce<string | undefined>((base, value) => resolveUrl(value, base), fallback)
+}
+
+/**
+ * 解析时长：支持秒数、MM:SS、HH:MM:SS
+ */
+function parseDuration(value: string | null | undefined): number | undefined {
+    if (!value) return undefined
+    const parts = value.trim().split(':').map(p => parseFloat(p))
+    if (parts.length === 0 || parts.some(p => Number.isNaN(p))) return undefined
+    return parts.reduce((total, part) => total * 60 + part, 0) || undefined
+}
+
+/**
+ * 解析正整数属性
+ */
+function parsePositiveInt(value: string | null | undefined): number | undefined {
+    const num = parseInt(value || '', 10)
+    return num > 0 ? num : undefined
+}
+
+/**
+ * 提取条目的附件：RSS <enclosure>、Atom <link rel="enclosure">、media:content 以及 itunes:* 元数据
+ */
+function parseItemEnclosures(item: Element, baseUrl?: string): Enclosure[] | undefined {
+    const duration = parseDuration(getElementsByQName(item, 'itunes:duration')[0]?.textContent)
+    const image = resolveUrl(getElementsByQName(item, 'itunes:image')[0]?.getAttribute('href') || undefined, baseUrl)
+
+    const enclosures: Enclosure[] = []
+    const addEnclosure = (enclosure: Enclosure) => {
+        if (!enclosure.url) return
+        const url = resolveUrl(enclosure.url, baseUrl)
+        if (enclosures.some(e => e.url === url)) return
+        enclosures.push({ ...enclosure, url })
+    }
+
+    for (const el of Array.from(item.children).filter(child => getLocalName(child) === 'enclosure')) {
+        addEnclosure({
+            url: el.getAttribute('url') || '',
+            type: el.getAttribute('type') || undefined,
+            length: parsePositiveInt(el.getAttribute('length')),
+            duration,
+            image,
+        })
+    }
+
+    for (const el of Array.from(item.children).filter(child => getLocalName(child) === 'link' && child.getAttribute('rel') === 'enclosure')) {
+        addEnclosure({
+            url: el.getAttribute('href') || '',
+            type: el.getAttribute('type') || undefined,
+            length: parsePositiveInt(el.getAttribute('length')),
+            duration,
+            image,
+        })
+    }
+
+    for (const el of getElementsByQName(item, 'media:content')) {
+        const type = el.getAttribute('type') || undefined
+        const medium = el.getAttribute('medium')
+        // 图片类 media:content 不作为附件
+        if (medium === 'image' || type?.startsWith('image/')) continue
+        addEnclosure({
+            url: el.getAttribute('url') || '',
+            type,
+            length: parsePositiveInt(el.getAttribute('fileSize')),
+            duration: parseDuration(el.getAttribute('duration')) ?? duration,
+            image,
+        })
+    }
+
+    return enclosures.length > 0 ? enclosures : undefined
+}
+
+/**
+ * 从 HTML 片段中提取第一张图片地址
+ */
+function extractFirstImage(html: string | undefined): string | undefined {
+    if (!html) return undefined
+    const match = html.match(/<img[^>]+src\s*=\s*["']([^"']+)["']/i)
+    return match?.[1]
+}
+
+/**
+ * 提取条目题图：media:thumbnail > 图片类 media:content / enclosure > itunes:image > 正文首图
+ * @param baseUrl 解析相对地址的基准
+ */
+function parseItemImage(item: Element, html: string | undefined, baseUrl?: string): string | undefined {
+    return resolveUrl(findItemImage(item, html), baseUrl)
+}
+
+function findItemImage(item: Element, html: string | undefined): string | undefined {
+    const thumbnail = getElementsByQName(item, 'media:thumbnail')[0]?.getAttribute('url')
+    if (thumbnail) return thumbnail
+
+    const mediaImage = getElementsByQName(item, 'media:content').find(el =>
+        el.getAttribute('medium') === 'image' || el.getAttribute('type')?.startsWith('image/')
+    )?.getAttribute('url')
+    if (mediaImage) return mediaImage
+
+    const enclosureImage = Array.from(item.children).find(el =>
+        (getLocalName(el) === 'enclosure' || (getLocalName(el) === 'link' && el.getAttribute('rel') === 'enclosure'))
+        && el.getAttribute('type')?.startsWith('image/')
+    )
+    const enclosureUrl = enclosureImage?.getAttribute('url') || enclosureImage?.getAttribute('href')
+    if (enclosureUrl) return enclosureUrl
+
+    return getElementsByQName(item, 'itunes:image')[0]?.getAttribute('href')
+        || extractFirstImage(html)
+}
+
+/**
+ * 读取订阅源级别的链接（Atom 的 link 或 RSS 中的 atom:link）：
+ * WebSub 的 hub / self，以及 RFC 5005 分页的 next（分页 Feed）/ prev-archive（归档 Feed）
+ */
+function parseFeedRelLinks(
+    container: Element,
+    baseUrl?: string
+): { hub?: string; selfUrl?: string; nextPageUrl?: string } {
+    const links = Array.from(container.children).filter(el => getLocalName(el) === 'link' && el.hasAttribute('rel'))
+    const findHref = (rel: string) => {
+        const link = links.find(el => el.getAttribute('rel')!.split(/\s+/).includes(rel))
+        return resolveUrl(link?.getAttribute('href') || undefined, baseUrl)
+    }
+    return {
+        hub: findHref('hub'),
+        selfUrl: findHref('self'),
+        nextPageUrl: findHref('next') ?? findHref('prev-archive'),
+    }
+}
+
+// sy:updatePeriod 对应的分钟数
+const UPDATE_PERIOD_MINUTES: Record<string, number> = {
+    hourly: 60,
+    daily: 24 * 60,
+    weekly: 7 * 24 * 60,
+    monthly: 30 * 24 * 60,
+    yearly: 365 * 24 * 60,
+}
+
+/**
+ * 读取频道的刷新间隔提示（<ttl> 优先，其次 sy:updatePeriod / sy:updateFrequency）
+ * @returns 分钟数，无提示时返回 undefined
+ */
+function parseUpdateHint(channel: Element | null): number | undefined {
+    if (!channel) return undefined
+
+    const ttl = parseInt(channel.querySelector('ttl')?.textContent?.trim() || '', 10)
+    if (ttl > 0) return ttl
+
+    const periodEl = channel.querySelector('sy\\:updatePeriod') || channel.querySelector('updatePeriod')
+    const periodMinutes = UPDATE_PERIOD_MINUTES[periodEl?.textContent?.trim().toLowerCase() || '']
+    if (!periodMinutes) return undefined
+
+    const frequencyEl = channel.querySelector('sy\\:updateFrequency') || channel.querySelector('updateFrequency')
+    const frequency = parseInt(frequencyEl?.textContent?.trim() || '', 10)
+    return Math.round(periodMinutes / (frequency > 0 ? frequency : 1))
+}
+
+/**
+ * 解析 RSS 2.0
+ */
+function parseRSS2(channel: Element, feedUrl?: string): FeedData {
+    const getTextContent = (el: Element | null, selector: string): string | undefined => {
+        const child = el?.querySelector(selector)
+        return child?.textContent?.trim() || undefined
+    }
+
+    // 条目中的相对地址依次相对于 xml:base、频道主页、Feed 地址解析
+    const siteLink = resolveUrl(getTextContent(channel, 'link'), getXmlBase(channel, feedUrl))
+
+    const items = Array.from(channel.querySelectorAll('item')).map((item): FeedItem => {
+        const baseUrl = getXmlBase(item, siteLink || feedUrl)
+        const description = getTextContent(item, 'description')
+        const content = getTextContent(item, 'content\\:encoded') || getTextContent(item, 'encoded')
+        return {
+            guid: getTextContent(item, 'guid') || getTextContent(item, 'link'),
+            title: getTextContent(item, 'title'),
+            link: resolveUrl(getTextContent(item, 'link'), baseUrl),
+            pubDate: getTextContent(item, 'pubDate') || getTextContent(item, 'dc\\:date') || getTextContent(item, 'date'),
+            creator: getTextContent(item, 'dc\\:creator') || getTextContent(item, 'creator'),
+            author: getTextContent(item, 'author'),
+            description,
+            content,
+            enclosures: parseItemEnclosures(item, baseUrl),
+            image: parseItemImage(item, content || description, baseUrl),
+            baseUrl,
+        }
+    })
+
+    const imageUrl = resolveUrl(getTextContent(channel, 'image > url'), siteLink || feedUrl)
+
+    return {
+        title: getTextContent(channel, 'title') || 'Unknown Feed',
+        link: siteLink,
+        description: getTextContent(channel, 'description'),
+        image: imageUrl ? { url: imageUrl } : undefined,
+        ttl: parseUpdateHint(channel),
+        language: getTextContent(channel, 'language'),
+        ...parseFeedRelLinks(channel, getXmlBase(channel, feedUrl)),
+        items,
+    }
+}
+
+/**
+ * 解析 RSS 1.0 (RDF)
+ */
+function parseRDF(root: Element, feedUrl?: string): FeedData {
+    const getTextContent = (el: Element | null, selector: string): string | undefined => {
+        const child = el?.querySelector(selector)
+        return child?.textContent?.trim() || undefined
+    }
+
+    const channel = root.querySelector('channel')
+    const siteLink = resolveUrl(getTextContent(channel, 'link'), channel ? getXmlBase(channel, feedUrl) : feedUrl)
+
+    // RDF 的 <item> 是根节点的直接子元素，不在 <channel> 内
+    const itemEls = Array.from(root.children).filter(el => getLocalName(el) === 'item')
+
+    const items = itemEls.map((item): FeedItem => {
+        const baseUrl = getXmlBase(item, siteLink || feedUrl)
+        const description = getTextContent(item, 'description')
+        const content = getTextContent(item, 'content\\:encoded') || getTextContent(item, 'encoded')
+        return {
+            guid: item.getAttribute('rdf:about') || getTextContent(item, 'link'),
+            title: getTextContent(item, 'title'),
+            link: resolveUrl(getTextContent(item, 'link'), baseUrl),
+            pubDate: getTextContent(item, 'dc\\:date') || getTextContent(item, 'date'),
+            creator: getTextContent(item, 'dc\\:creator') || getTextContent(item, 'creator'),
+            description,
+            content,
+            image: parseItemImage(item, content || description, baseUrl),
+            baseUrl,
+        }
+    })
+
+    const imageUrl = resolveUrl(Array.from(root.children)
+        .find(el => getLocalName(el) === 'image')
+        ?.querySelector('url')?.textContent?.trim(), siteLink || feedUrl)
+
+    return {
+        title: getTextContent(channel, 'title') || 'Unknown Feed',
+        link: siteLink,
+        description: getTextContent(channel, 'description'),
+        image: imageUrl ? { url: imageUrl } : undefined,
+        ttl: parseUpdateHint(channel),
+        items,
+    }
+}
+
+/** JSON Feed 作者（1.0 为 author，1.1 为 authors） */
+interface JSONFeedAuthor {
+    name?: string
+    url?: string
+}
+
+/** JSON Feed 条目 */
+interface JSONFeedItem {
+    id?: string | number
+    url?: string
+    external_url?: string
+    title?: string
+    content_html?: string
+    content_text?: string
+    summary?: string
+    date_published?: string
+    date_modified?: string
+    author?: JSONFeedAuthor
+    authors?: JSONFeedAuthor[]
+    image?: string
+    banner_image?: string
+    attachments?: Array<{
+        url?: string
+        mime_type?: string
+        size_in_bytes?: number
+        duration_in_seconds?: number
+    }>
+}
+
+/** JSON Feed 顶层文档 */
+interface JSONFeedDocument {
+    version?: string
+    title?: string
+    home_page_url?: string
+    description?: string
+    icon?: string
+    favicon?: string
+    feed_url?: string
+    next_url?: string
+    language?: string
+    hubs?: Array<{ type?: string; url?: string }>
+    items?: JSONFeedItem[]
+}
+
+/**
+ * 解析 JSON Feed 1.0 / 1.1
+ * @see https://www.jsonfeed.org/version/1.1/
+ */
+function parseJSONFeed(jsonText: string, feedUrl?: string): FeedData {
+    let doc: JSONFeedDocument
+    try {
+        doc = JSON.parse(jsonText)
+    } catch (err) {
+        throw new Error('JSON Feed 解析失败: ' + (err as Error).message)
+    }
+
+    if (!doc || typeof doc !== 'object' || !doc.version?.startsWith('https://jsonfeed.org/version/')) {
+        throw new Error('无法识别的 Feed 格式')
+    }
+
+    const siteLink = resolveUrl(doc.home_page_url, feedUrl)
+    const baseUrl = siteLink || feedUrl
+
+    const items = (Array.isArray(doc.items) ? doc.items : []).map((item): FeedItem => {
+        const link = resolveUrl(item.url || item.external_url, baseUrl)
+        const image = resolveUrl(item.image, baseUrl)
+        return {
+            guid: item.id !== undefined ? String(item.id) : link,
+            title: item.title,
+            link,
+            pubDate: item.date_published || item.date_modified,
+            author: item.authors?.[0]?.name || item.author?.name,
+            // 下游按 HTML 处理正文，纯文本需转义并保留分段
+            content: item.content_html || (item.content_text ? textToHtml(item.content_text) : undefined),
+            description: item.summary,
+            enclosures: item.attachments
+                ?.filter(a => a.url)
+                .map(a => ({
+                    url: resolveUrl(a.url!, baseUrl),
+                    type: a.mime_type,
+                    length: a.size_in_bytes,
+                    duration: a.duration_in_seconds,
+                    image,
+                })),
+            image: image || resolveUrl(item.banner_image || extractFirstImage(item.content_html), baseUrl),
+            baseUrl,
+        }
+    })
+
+    const imageUrl = resolveUrl(doc.icon || doc.favicon, baseUrl)
+
+    return {
+        title: doc.title || 'Unknown Feed',
+        link: siteLink,
+        description: doc.description,
+        image: imageUrl ? { url: imageUrl } : undefined,
+        hub: resolveUrl(doc.hubs?.find(h => !h.type || h.type.toLowerCase() === 'websub')?.url, feedUrl),
+        selfUrl: resolveUrl(doc.feed_url, feedUrl),
+        nextPageUrl: resolveUrl(doc.next_url, feedUrl),
+        language: doc.language,
+        items,
+    }
+}
+
+/**
+ * 解析 Atom
+ */
+function parseAtom(feed: Element, feedUrl?: string): FeedData {
+    const getTextContent = (el: Element | null, selector: string): string | undefined => {
+        const child = el?.querySelector(selector)
+        return child?.textContent?.trim() || undefined
+    }
+
+    // 链接按其自身生效的 xml:base 解析
+    const getLinkHref = (el: Element | null, rel?: string): string | undefined => {
+        const links = el?.querySelectorAll('link')
+        if (!links) return undefined
+
+        for (const link of links) {
+            if (!rel || link.getAttribute('rel') === rel || (!link.getAttribute('rel') && rel === 'alternate')) {
+                return resolveUrl(link.getAttribute('href') || undefined, getXmlBase(link, feedUrl))
+            }
+        }
+        return undefined
+    }
+
+    const siteLink = getLinkHref(feed, 'alternate') || getLinkHref(feed)
+
+    const items = Array.from(feed.querySelectorAll('entry')).map((entry): FeedItem => {
+        const contentEl = [entry.querySelector('content'), entry.querySelector('summary')]
+            .find(el => el?.textContent?.trim())
+        const content = contentEl?.textContent?.trim() || undefined
+        // 正文内的相对地址相对于正文元素的 xml:base 解析，缺省时使用站点主页
+        const baseUrl = getXmlBase(contentEl || entry, siteLink || feedUrl)
+        return {
+            guid: getTextContent(entry, 'id'),
+            title: getTextContent(entry, 'title'),
+            link: getLinkHref(entry, 'alternate') || getLinkHref(entry),
+            pubDate: getTextContent(entry, 'published') || getTextContent(entry, 'updated'),
+            author: getTextContent(entry, 'author > name'),
+            content,
+            enclosures: parseItemEnclosures(entry, baseUrl),
+            image: parseItemImage(entry, content, baseUrl),
+            baseUrl,
+        }
+    })
+
+    return {
+        title: getTextContent(feed, 'title') || 'Unknown Feed',
+        link: siteLink,
+        description: getTextContent(feed, 'subtitle'),
+        ...parseFeedRelLinks(feed, getXmlBase(feed, feedUrl)),
+        items,
+    }
+}
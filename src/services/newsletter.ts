@@ -0,0 +1,227 @@
+/**
+ * 邮件订阅（Newsletter）导入
+ * 解析 .eml / mbox 文件（MIME multipart、quoted-printable、base64、RFC 2047 编码头、字符集），
+ * 按发件人归入 newsletter:// 订阅源，正文经 sanitizeArticleHtml 清洗后作为文章保存
+ */
+import { sanitizeArticleHtml } from '@/services/articleParser'
+import { decodeResponseBody } from '@/utils/encoding'
+import { parseHtmlDocument } from '@/utils/dom'
+import { hashString } from '@/utils/hash'
+import { textToHtml } from '@/utils/format'
+
+const NEWSLETTER_PROTOCOL = 'newsletter://'
+
+// 识别“在浏览器中查看”链接的文本
+const WEB_VERSION_PATTERN = /view (it |this (email|newsletter) )?(in|on) (your |a |the )?(web )?browser|view online|online version|web version|在浏览器中(查看|打开|阅读)|网页版|浏览器打开/i
+
+/** 解析出的邮件 */
+export interface NewsletterMessage {
+    messageId: string
+    from: { name?: string; address: string }
+    subject: string
+    date?: string          // 原始 Date 头
+    html: string           // 清洗后的正文
+    webUrl?: string        // 网页版地址（邮件中的“在浏览器中查看”链接）
+}
+
+/**
+ * 是否为邮件订阅源地址（newsletter://发件人地址）
+ */
+export function isNewsletterUrl(url: string): boolean {
+    return url.startsWith(NEWSLETTER_PROTOCOL)
+}
+
+/**
+ * 发件人对应的订阅源地址
+ */
+export function getNewsletterFeedUrl(address: string): string {
+    return NEWSLETTER_PROTOCOL + address.toLowerCase()
+}
+
+/**
+ * 字节转为“二进制字符串”（每个字符对应一个字节），便于按行切分原始邮件
+ */
+function bytesToBinaryString(bytes: Uint8Array): string {
+    const chunks: string[] = []
+    const CHUNK = 0x8000
+    for (let i = 0; i < bytes.length; i += CHUNK) {
+        chunks.push(String.fromCharCode(...bytes.subarray(i, i + CHUNK)))
+    }
+    return chunks.join('')
+}
+
+function binaryStringToBytes(binary: string): Uint8Array {
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i) & 0xff
+    return bytes
+}
+
+/**
+ * 按字符集解码二进制字符串（声明缺失或错误时由 decodeResponseBody 兜底）
+ */
+function decodeText(binary: string, charset?: string): string {
+    const bytes = binaryStringToBytes(binary)
+    return decodeResponseBody(bytes.buffer as ArrayBuffer, charset ? `text/plain; charset=${charset}` : undefined)
+}
+
+function decodeQuotedPrintable(value: string): string {
+    return value
+        .replace(/=\r?\n/g, '')
+        .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+}
+
+function decodeBase64(value: string): string {
+    try {
+        return atob(value.replace(/[^A-Za-z0-9+/=]/g, ''))
+    } catch {
+        return ''
+    }
+}
+
+/**
+ * 解码 RFC 2047 编码的邮件头（=?charset?B|Q?...?=），相邻编码词之间的空白按规范忽略
+ */
+function decodeHeaderValue(value: string): string {
+    // 未编码但含 8 位字符的邮件头按 UTF-8 解读（编码词本身只含 ASCII，不受影响）
+    const text = /[\x80-\xff]/.test(value) ? decodeText(value) : value
+    return text
+        .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+        .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+            const binary = encoding.toUpperCase() === 'B'
+                ? decodeBase64(text)
+                : decodeQuotedPrintable(text.replace(/_/g, ' '))
+            return decodeText(binary, charset)
+        })
+}
+
+/**
+ * 拆分邮件头与正文，邮件头名称统一为小写（同名头只保留第一个）
+ */
+function splitMessage(raw: string): { headers: Map<string, string>; body: string } {
+    const match = raw.match(/\r?\n\r?\n/)
+    const headerText = match ? raw.slice(0, match.index) : raw
+    const body = match ? raw.slice(match.index! + match[0].length) : ''
+
+    const headers = new Map<string, string>()
+    for (const line of headerText.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+        const colon = line.indexOf(':')
+        if (colon <= 0) continue
+        const name = line.slice(0, colon).trim().toLowerCase()
+        if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim())
+    }
+    return { headers, body }
+}
+
+/**
+ * 解析 Content-Type 等带参数的邮件头
+ */
+function parseHeaderParams(value: string | undefined): { value: string; params: Record<string, string> } {
+    const [main, ...rest] = (value || '').split(';')
+    const params: Record<string, string> = {}
+    for (const part of rest) {
+        const eq = part.indexOf('=')
+        if (eq === -1) continue
+        params[part.slice(0, eq).trim().toLowerCase()] = part.slice(eq + 1).trim().replace(/^"(.*)"$/, '$1')
+    }
+    return { value: main.trim().toLowerCase(), params }
+}
+
+/**
+ * 递归查找正文：返回第一个 HTML 与第一个纯文本部分（跳过附件）
+ */
+function findBodies(raw: string): { html?: string; text?: string } {
+    const { headers, body } = splitMessage(raw)
+    const contentType = parseHeaderParams(headers.get('content-type') || 'text/plain')
+    const disposition = parseHeaderParams(headers.get('content-disposition'))
+    if (disposition.value === 'attachment' || disposition.params.filename) return {}
+
+    if (contentType.value.startsWith('multipart/')) {
+        const boundary = contentType.params.boundary
+        if (!boundary) return {}
+        const result: { html?: string; text?: string } = {}
+        const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        const parts = body.split(new RegExp(`^--${escaped}(?:--)?[ \\t]*\\r?$\\n?`, 'm')).slice(1)
+        // 结束分隔符之后的内容不是正文部分（缺少结束分隔符时保留最后一部分）
+        if (new RegExp(`^--${escaped}--`, 'm').test(body)) parts.pop()
+        for (const part of parts) {
+            const found = findBodies(part)
+            result.html ??= found.html
+            result.text ??= found.text
+        }
+        return result
+    }
+
+    if (contentType.value !== 'text/html' && contentType.value !== 'text/plain') return {}
+
+    const encoding = (headers.get('content-transfer-encoding') || '').toLowerCase()
+    const binary = encoding === 'base64'
+        ? decodeBase64(body)
+        : encoding === 'quoted-printable' ? decodeQuotedPrintable(body) : body
+    const text = decodeText(binary, contentType.params.charset)
+    return contentType.value === 'text/html' ? { html: text } : { text }
+}
+
+/**
+ * 解析发件人：Name <address> 或纯地址
+ */
+function parseAddress(value: string): NewsletterMessage['from'] {
+    const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>/)
+    if (match) return { name: match[1].trim() || undefined, address: match[2].trim().toLowerCase() }
+    return { address: value.trim().toLowerCase() }
+}
+
+/**
+ * 查找正文中“在浏览器中查看”链接
+ */
+function findWebVersionUrl(html: string): string | undefined {
+    const doc = parseHtmlDocument(html)
+    const link = Array.from(doc.querySelectorAll('a[href]')).find(a =>
+        WEB_VERSION_PATTERN.test(a.textContent || '') && /^https?:\/\//i.test(a.getAttribute('href') || '')
+    )
+    return link?.getAttribute('href') || undefined
+}
+
+/**
+ * 解析单封邮件（原始内容为二进制字符串），无发件人时返回 null
+ */
+function parseMessage(raw: string): NewsletterMessage | null {
+    const { headers } = splitMessage(raw)
+    const fromHeader = headers.get('from')
+    if (!fromHeader) return null
+
+    const from = parseAddress(decodeHeaderValue(fromHeader))
+    const subject = decodeHeaderValue(headers.get('subject') || '') || '无标题'
+    const date = headers.get('date')
+    const bodies = findBodies(raw)
+    const rawHtml = bodies.html ?? textToHtml(bodies.text || '')
+
+    return {
+        messageId: headers.get('message-id')?.replace(/^<|>$/g, '') || hashString(`${fromHeader}\n${subject}\n${date}`),
+        from,
+        subject,
+        date,
+        html: sanitizeArticleHtml(rawHtml),
+        webUrl: bodies.html ? findWebVersionUrl(bodies.html) : undefined,
+    }
+}
+
+/**
+ * 拆分 mbox 文件：每封邮件以行首 "From " 开始，正文中被转义的 ">From " 还原
+ */
+function splitMbox(raw: string): string[] {
+    return raw
+        .split(/^From [^\r\n]*\r?\n/m)
+        .filter(message => message.trim())
+        .map(message => message.replace(/^>(>*From )/gm, '$1'))
+}
+
+/**
+ * 解析 .eml 或 mbox 文件（按内容判断格式）
+ */
+export function parseMailFile(buffer: ArrayBuffer): NewsletterMessage[] {
+    const raw = bytesToBinaryString(new Uint8Array(buffer))
+    const messages = raw.startsWith('From ') ? splitMbox(raw) : [raw]
+    return messages
+        .map(parseMessage)
+        .filter((message): message is NewsletterMessage => message !== null)
+}
@@ -0,0 +1,126 @@
+/**
+ * 解析 Worker 客户端
+ * 通过类型化的消息调用 Worker 中的解析任务，支持 AbortSignal 取消；
+ * 浏览器不支持 Worker 或 Worker 启动失败时退回主线程执行
+ */
+import {
+    runTask,
+    type ParserRequest,
+    type ParserResponse,
+    type ParserTaskArgs,
+    type ParserTaskPriority,
+    type ParserTaskResult,
+    type ParserTaskType,
+} from '@/workers/parserTasks'
+
+interface PendingTask {
+    resolve: (result: never) => void
+    reject: (err: Error) => void
+}
+
+const pending = new Map<number, PendingTask>()
+let worker: Worker | null = null
+let workerFailed = false
+let nextId = 1
+
+/**
+ * 取消时抛出的错误（与 fetch 被中止时一致）
+ */
+function createAbortError(): DOMException {
+    return new DOMException('解析任务已取消', 'AbortError')
+}
+
+/**
+ * 判断错误是否由取消导致
+ */
+export function isAbortError(err: unknown): boolean {
+    return err instanceof DOMException && err.name === 'AbortError'
+}
+
+/**
+ * 获取（按需创建）解析 Worker，不可用时返回 null
+ */
+function getWorker(): Worker | null {
+    if (worker || workerFailed) return worker
+    if (typeof Worker === 'undefined') {
+        workerFailed = true
+        return null
+    }
+
+    try {
+        worker = new Worker(new URL('../workers/parser.worker.ts', import.meta.url), { type: 'module' })
+    } catch (err) {
+        console.warn('[ParserWorker] Worker 启动失败，改为主线程解析:', err)
+        workerFailed = true
+        return null
+    }
+
+    worker.addEventListener('message', (event: MessageEvent<ParserResponse>) => {
+        const response = event.data
+        const task = pending.get(response.id)
+        // 已取消的任务直接丢弃结果
+        if (!task) return
+        pending.delete(response.id)
+
+        if (response.ok) {
+            task.resolve(response.result as never)
+        } else {
+            task.reject(new Error(response.error))
+        }
+    })
+
+    worker.addEventListener('error', (event) => {
+        console.error('[ParserWorker] Worker 异常，改为主线程解析:', event.message)
+        worker?.terminate()
+        worker = null
+        workerFailed = true
+        for (const task of pending.values()) {
+            task.reject(new Error(`解析 Worker 异常: ${event.message}`))
+        }
+        pending.clear()
+    })
+
+    return worker
+}
+
+/**
+ * 在解析 Worker 中执行任务
+ * @param signal 中止后任务从队列移除（已在执行的任务结果会被丢弃），Promise 以 AbortError 拒绝
+ * @param priority 用户正在等待的任务传 interactive，优先于后台刷新执行
+ */
+export function runParserTask<T extends ParserTaskType>(
+    type: T,
+    args: ParserTaskArgs<T>,
+    signal?: AbortSignal,
+    priority: ParserTaskPriority = 'background'
+): Promise<ParserTaskResult<T>> {
+    if (signal?.aborted) return Promise.reject(createAbortError())
+
+    const target = getWorker()
+    if (!target) {
+        return new Promise(resolve => resolve(runTask(type, args)))
+    }
+
+    const id = nextId++
+    return new Promise<ParserTaskResult<T>>((resolve, reject) => {
+        const onAbort = () => {
+            if (!pending.delete(id)) return
+            target.postMessage({ kind: 'cancel', id } satisfies ParserRequest)
+            reject(createAbortError())
+        }
+
+        pending.set(id, {
+            resolve: (result) => {
+                signal?.removeEventListener('abort', onAbort)
+                resolve(result)
+            },
+            reject: (err) => {
+                signal?.removeEventListener('abort', onAbort)
+                reject(err)
+            },
+        })
+        signal?.addEventListener('abort', onAbort, { once: true })
+
+        target.postMessage({ kind: 'task', id, type, args, priority } as ParserRequest)
+    })
+}
@@ -0,0 +1,176 @@
+/**
+ * CORS 代理配置服务
+ * 代理列表与成功率统计持久化在 settings 表，内存中缓存一份供抓取时同步读取
+ */
+import { dbHelpers } from '@/db'
+import type { ProxyConfig, ProxyStats } from '@/types'
+import { generateUUID } from '@/utils/uuid'
+
+// settings 表中的 key
+const PROXY_LIST_KEY = 'corsProxies'
+const PROXY_STATS_KEY = 'corsProxyStats'
+const LAST_SUCCESSFUL_PROXY_KEY = 'lastSuccessfulProxyId'
+
+/** 连续失败达到该次数后暂时跳过代理 */
+export const PROXY_MAX_FAILURES = 3
+
+/** 被跳过的代理在冷却时间后重新参与尝试（毫秒） */
+const PROXY_COOLDOWN = 30 * 60 * 1000
+
+/** 本地开发代理（vite.config.ts 中的中间件提供） */
+export const DEV_PROXY_TEMPLATE = '/__proxy?url={url}'
+
+// 默认代理列表（按稳定性排序）
+const DEFAULT_PROXIES: ProxyConfig[] = [
+    ...(import.meta.env.DEV
+        ? [{ id: 'dev', name: '本地开发代理', template: DEV_PROXY_TEMPLATE, enabled: true }]
+        : []),
+    { id: 'codetabs', name: 'codetabs', template: 'https://api.codetabs.com/v1/proxy?quest={url}', enabled: true }, // 实测最稳定
+    { id: 'allorigins', name: 'allorigins', template: 'https://api.allorigins.win/raw?url={url}', enabled: true },
+    { id: 'corsproxy', name: 'corsproxy.io', template: 'https://corsproxy.io/?{url}', enabled: true },
+]
+
+// 内存缓存
+let proxies: ProxyConfig[] = DEFAULT_PROXIES
+let proxyStats: Record<string, ProxyStats> = {}
+let lastSuccessfulProxyId: string | null = null
+let loadPromise: Promise<void> | null = null
+
+/**
+ * 从数据库加载代理配置（只加载一次）
+ */
+export function loadProxySettings(): Promise<void> {
+    if (!loadPromise) {
+        loadPromise = (async () => {
+            try {
+                const [storedList, storedStats, storedLast] = await Promise.all([
+                    dbHelpers.getSetting<ProxyConfig[]>(PROXY_LIST_KEY),
+                    dbHelpers.getSetting<Record<string, ProxyStats>>(PROXY_STATS_KEY),
+                    dbHelpers.getSetting<string>(LAST_SUCCESSFUL_PROXY_KEY),
+                ])
+                // 开发时保存的列表中的本地开发代理在生产构建中不存在，过滤掉
+                if (storedList) {
+                    proxies = import.meta.env.DEV
+                        ? storedList
+                        : storedList.filter(proxy => proxy.template !== DEV_PROXY_TEMPLATE)
+                }
+                if (storedStats) proxyStats = storedStats
+                if (storedLast) lastSuccessfulProxyId = storedLast
+            } catch (err) {
+                console.error('[Proxy] Failed to load proxy settings:', err)
+            }
+        })()
+    }
+    return loadPromise
+}
+
+/**
+ * 获取代理列表
+ */
+export function getProxies(): ProxyConfig[] {
+    return proxies
+}
+
+/**
+ * 保存代理列表
+ */
+export async function saveProxies(list: ProxyConfig[]): Promise<void> {
+    proxies = list
+    await dbHelpers.setSetting(PROXY_LIST_KEY, list)
+}
+
+/**
+ * 恢复默认代理列表
+ */
+export async function resetProxies(): Promise<ProxyConfig[]> {
+    await saveProxies(DEFAULT_PROXIES)
+    return DEFAULT_PROXIES
+}
+
+/**
+ * 创建新的代理配置
+ */
+export function createProxy(template: string, name?: string): ProxyConfig {
+    let defaultName = template.trim()
+    try {
+        defaultName = new URL(template.replace('{url}', ''), window.location.origin).host
+    } catch {
+        // 模板不是合法 URL 时直接使用模板作为名称
+    }
+
+    return {
+        id: generateUUID(),
+        name: name?.trim() || defaultName,
+        template: template.trim(),
+        enabled: true,
+    }
+}
+
+/**
+ * 获取代理统计
+ */
+export function getProxyStats(): Record<string, ProxyStats> {
+    return proxyStats
+}
+
+/**
+ * 根据模板生成代理请求地址（无 {url} 占位符时追加到末尾）
+ */
+export function buildProxyUrl(template: string, targetUrl: string): string {
+    const encoded = encodeURIComponent(targetUrl)
+    return template.includes('{url}') ? template.replace('{url}', encoded) : template + encoded
+}
+
+/**
+ * 获取本次抓取应尝试的代理（上次成功的优先，其余按失败次数排序，跳过冷却中的代理）
+ * @param proxyId 指定代理时只返回该代理
+ */
+export function getProxyAttemptOrder(proxyId?: string): ProxyConfig[] {
+    if (proxyId) {
+        return proxies.filter(p => p.id === proxyId)
+    }
+
+    const now = Date.now()
+    const enabled = proxies.filter(p => p.enabled)
+    const failures = (p: ProxyConfig) => proxyStats[p.id]?.consecutiveFailures ?? 0
+    const isCoolingDown = (p: ProxyConfig) =>
+        failures(p) >= PROXY_MAX_FAILURES && now - (proxyStats[p.id]?.lastFailureAt ?? 0) < PROXY_COOLDOWN
+
+    const ordered = [...enabled].sort((a, b) => {
+        if (a.id === lastSuccessfulProxyId) return -1
+        if (b.id === lastSuccessfulProxyId) return 1
+        return failures(a) - failures(b)
+    })
+
+    // 跳过冷却中的代理（除非已无其他选择）
+    const available = ordered.filter(p => !isCoolingDown(p))
+    return available.length > 0 ? available : ordered
+}
+
+/**
+ * 记录代理请求结果并持久化
+ */
+export function recordProxyResult(proxyId: string, success: boolean): void {
+    const now = Date.now()
+    const stats = proxyStats[proxyId] ?? { successCount: 0, failureCount: 0, consecutiveFailures: 0 }
+
+    proxyStats = {
+        ...proxyStats,
+        [proxyId]: success
+            ? { ...stats, successCount: stats.successCount + 1, consecutiveFailures: 0, lastSuccessAt: now }
+            : {
+                ...stats,
+                failureCount: stats.failureCount + 1,
+                consecutiveFailures: stats.consecutiveFailures + 1,
+                lastFailureAt: now,
+            },
+    }
+
+    const writes = [dbHelpers.setSetting(PROXY_STATS_KEY, proxyStats)]
+    if (success && lastSuccessfulProxyId !== proxyId) {
+        lastSuccessfulProxyId = proxyId
+        writes.push(dbHelpers.setSetting(LAST_SUCCESSFUL_PROXY_KEY, proxyId))
+    }
+
+    Promise.all(writes).catch(err => console.error('[Proxy] Failed to save proxy stats:', err))
+}
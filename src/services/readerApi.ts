@@ -0,0 +1,370 @@
+/**
+ * 阅读服务器 API 客户端 - Google Reader 兼容 API（FreshRSS、Inoreader 等）与 Miniflux REST API
+ * 只负责协议层：登录、读取订阅与条目、回写已读/收藏状态，与本地数据库的对接见 remoteBackend.ts
+ */
+
+/** 服务器类型 */
+export type ReaderApiType = 'greader' | 'miniflux'
+
+/** 服务器连接信息 */
+export interface ReaderApiConfig {
+    type: ReaderApiType
+    url: string        // Google Reader API 入口（如 https://freshrss.example.com/api/greader.php）或 Miniflux 根地址
+    username: string
+    password: string   // Google Reader API 密码；Miniflux 未填用户名时作为 API 令牌
+}
+
+/** 服务器上的订阅源 */
+export interface RemoteFeed {
+    id: string
+    title: string
+    url: string
+    siteUrl?: string
+    category?: string
+}
+
+/** 服务器上的条目 */
+export interface RemoteItem {
+    id: string
+    feedId: string
+    title: string
+    link: string
+    content?: string
+    author?: string
+    published: number  // 毫秒时间戳
+    isRead: boolean
+    isStarred: boolean
+    enclosures?: { url: string; type?: string; length?: number }[]
+}
+
+/** 条目状态：未读与已收藏的条目 ID（列表达到数量上限被截断时，不在列表中的条目状态未知） */
+export interface RemoteItemStates {
+    unread: Set<string>
+    starred: Set<string>
+    unreadComplete: boolean
+    starredComplete: boolean
+}
+
+/** 统一的服务器客户端 */
+export interface ReaderClient {
+    /** 校验地址与凭据 */
+    verify(): Promise<void>
+    getFeeds(): Promise<RemoteFeed[]>
+    /** 读取发布时间晚于 since 的条目（新的在前，最多 limit 条） */
+    getItems(since: number | undefined, limit: number): Promise<RemoteItem[]>
+    /** 读取未读与收藏条目，knownIds 为本地已有的条目（服务器支持时只查询这些条目所在的范围） */
+    getItemStates(knownIds: string[], limit: number): Promise<RemoteItemStates>
+    markRead(ids: string[]): Promise<void>
+    setStarred(id: string, starred: boolean): Promise<void>
+}
+
+// 单次请求的条目数
+const PAGE_SIZE = 200
+
+function encodeBase64(text: string): string {
+    let binary = ''
+    for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte)
+    return btoa(binary)
+}
+
+async function assertOk(response: Response, action: string): Promise<Response> {
+    if (response.status === 401 || response.status === 403) throw new Error('服务器认证失败，请检查用户名和密码')
+    if (!response.ok) throw new Error(`${action}失败（HTTP ${response.status}）`)
+    return response
+}
+
+/**
+ * 创建服务器客户端
+ */
+export function createReaderClient(config: ReaderApiConfig): ReaderClient {
+    if (!/^https?:\/\//i.test(config.url)) throw new Error('请填写有效的服务器地址')
+    return config.type === 'miniflux' ? createMinifluxClient(config) : createGoogleReaderClient(config)
+}
+
+/** ========== Google Reader API ========== */
+
+const READING_LIST = 'user/-/state/com.google/reading-list'
+const READ_TAG = 'user/-/state/com.google/read'
+const STARRED_TAG = 'user/-/state/com.google/starred'
+const ITEM_ID_PREFIX = 'tag:google.com,2005:reader/item/'
+
+interface GReaderItem {
+    id: string
+    title?: string
+    published?: number
+    author?: string
+    canonical?: { href: string }[]
+    alternate?: { href: string }[]
+    summary?: { content?: string }
+    content?: { content?: string }
+    categories?: string[]
+    origin?: { streamId?: string }
+    enclosure?: { href: string; type?: string; length?: string | number }[]
+}
+
+/**
+ * 条目 ID 统一为长格式（stream/items/ids 返回十进制短格式，stream/contents 返回带前缀的十六进制）
+ */
+function toLongItemId(id: string): string {
+    if (id.startsWith(ITEM_ID_PREFIX)) return id
+    return ITEM_ID_PREFIX + BigInt(id).toString(16).padStart(16, '0')
+}
+
+function createGoogleReaderClient(config: ReaderApiConfig): ReaderClient {
+    const baseUrl = config.url.replace(/\/+$/, '')
+    let auth: string | null = null
+    let editToken: string | null = null
+
+    const login = async () => {
+        const response = await assertOk(await fetch(`${baseUrl}/accounts/ClientLogin`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({ Email: config.username, Passwd: config.password }),
+        }), '登录')
+        const match = (await response.text()).match(/^Auth=(.+)$/m)
+        if (!match) throw new Error('登录失败：服务器未返回认证令牌')
+        auth = match[1].trim()
+        editToken = null
+    }
+
+    // 认证过期（401）时重新登录一次
+    const request = async (path: string, init: RequestInit = {}, action = '请求服务器'): Promise<Response> => {
+        for (let attempt = 0; attempt < 2; attempt++) {
+            if (!auth) await login()
+            const response = await fetch(`${baseUrl}/reader/api/0/${path}`, {
+                ...init,
+                headers: { ...init.headers, Authorization: `GoogleLogin auth=${auth}` },
+            })
+            if (response.status === 401 && attempt === 0) {
+                auth = null
+                continue
+            }
+            return assertOk(response, action)
+        }
+        throw new Error('服务器认证失败，请检查用户名和密码')
+    }
+
+    const getEditToken = async () => {
+        if (!editToken) editToken = (await (await request('token')).text()).trim()
+        return editToken
+    }
+
+    const editTag = async (ids: string[], tag: string, add: boolean) => {
+        const body = new URLSearchParams()
+        ids.forEach(id => body.append('i', id))
+        body.set(add ? 'a' : 'r', tag)
+        body.set('T', await getEditToken())
+        await request('edit-tag', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body,
+        }, '更新条目状态')
+    }
+
+    const getItemIds = async (params: Record<string, string>, limit: number) => {
+        const query = new URLSearchParams({ output: 'json', n: String(limit), ...params })
+        const data = await (await request(`stream/items/ids?${query}`, {}, '读取条目状态')).json()
+        const ids = new Set<string>((data.itemRefs ?? []).map((ref: { id: string }) => toLongItemId(ref.id)))
+        return { ids, complete: ids.size < limit }
+    }
+
+    const mapItem = (item: GReaderItem): RemoteItem => ({
+        id: toLongItemId(item.id),
+        feedId: item.origin?.streamId ?? '',
+        title: item.title || '无标题',
+        link: item.canonical?.[0]?.href || item.alternate?.[0]?.href || '',
+        content: item.content?.content || item.summary?.content,
+        author: item.author,
+        published: (item.published ?? 0) * 1000,
+        isRead: !!item.categories?.some(c => c.endsWith('/state/com.google/read')),
+        isStarred: !!item.categories?.some(c => c.endsWith('/state/com.google/starred')),
+        enclosures: item.enclosure?.map(e => ({ url: e.href, type: e.type, length: Number(e.length) || undefined })),
+    })
+
+    return {
+        async verify() {
+            await login()
+            await request('user-info?output=json', {}, '读取用户信息')
+        },
+        async getFeeds() {
+            const data = await (await request('subscription/list?output=json', {}, '读取订阅列表')).json()
+            return (data.subscriptions ?? []).map((sub: {
+                id: string
+                title: string
+                url?: string
+                htmlUrl?: string
+                categories?: { label?: string }[]
+            }) => ({
+                id: sub.id,
+                title: sub.title,
+                url: sub.url || sub.id.replace(/^feed\//, ''),
+                siteUrl: sub.htmlUrl,
+                category: sub.categories?.[0]?.label,
+            }))
+        },
+        async getItems(since, limit) {
+            const items: RemoteItem[] = []
+            let continuation: string | undefined
+            do {
+                const query = new URLSearchParams({ output: 'json', n: String(Math.min(PAGE_SIZE, limit - items.length)) })
+                if (since) query.set('ot', String(Math.floor(since / 1000)))
+                if (continuation) query.set('c', continuation)
+                const data = await (await request(`stream/contents/${READING_LIST}?${query}`, {}, '读取条目')).json()
+                items.push(...(data.items ?? []).map(mapItem))
+                continuation = data.continuation
+            } while (continuation && items.length < limit)
+            return items
+        },
+        async getItemStates(_knownIds, limit) {
+            // ID 列表不含正文，直接读取全部未读与收藏条目
+            const [unread, starred] = await Promise.all([
+                getItemIds({ s: READING_LIST, xt: READ_TAG }, limit),
+                getItemIds({ s: STARRED_TAG }, limit),
+            ])
+            return {
+                unread: unread.ids,
+                starred: starred.ids,
+                unreadComplete: unread.complete,
+                starredComplete: starred.complete,
+            }
+        },
+        async markRead(ids) {
+            for (let i = 0; i < ids.length; i += PAGE_SIZE) {
+                await editTag(ids.slice(i, i + PAGE_SIZE), READ_TAG, true)
+            }
+        },
+        async setStarred(id, starred) {
+            await editTag([id], STARRED_TAG, starred)
+        },
+    }
+}
+
+/** ========== Miniflux API ========== */
+
+interface MinifluxEntry {
+    id: number
+    feed_id: number
+    title: string
+    url: string
+    content?: string
+    author?: string
+    published_at: string
+    status: 'read' | 'unread' | 'removed'
+    starred: boolean
+    enclosures?: { url: string; mime_type?: string; size?: number }[] | null
+}
+
+function createMinifluxClient(config: ReaderApiConfig): ReaderClient {
+    const baseUrl = config.url.replace(/\/+$/, '')
+    // 未填用户名时密码栏填写的是 API 令牌
+    const authHeaders: Record<string, string> = config.username
+        ? { Authorization: `Basic ${encodeBase64(`${config.username}:${config.password}`)}` }
+        : { 'X-Auth-Token': config.password }
+
+    const request = async (path: string, init: RequestInit = {}, action = '请求服务器') => assertOk(
+        await fetch(`${baseUrl}/v1/${path}`, {
+            ...init,
+            headers: { ...authHeaders, 'Content-Type': 'application/json', ...init.headers },
+        }),
+        action
+    )
+
+    // 分页读取条目，读到 total 条或 limit 条为止；complete 表示是否已读完全部符合条件的条目
+    const getEntries = async (
+        params: Record<string, string>,
+        limit: number
+    ): Promise<{ entries: MinifluxEntry[]; complete: boolean }> => {
+        const entries: MinifluxEntry[] = []
+        let complete = false
+        while (entries.length < limit) {
+            const query = new URLSearchParams({
+                order: 'published_at',
+                direction: 'desc',
+                limit: String(Math.min(PAGE_SIZE, limit - entries.length)),
+                offset: String(entries.length),
+                ...params,
+            })
+            const data = await (await request(`entries?${query}`, {}, '读取条目')).json()
+            const page: MinifluxEntry[] = data.entries ?? []
+            entries.push(...page)
+            if (page.length === 0 || entries.length >= data.total) {
+                complete = true
+                break
+            }
+        }
+        return { entries, complete }
+    }
+
+    return {
+        async verify() {
+            await request('me', {}, '读取用户信息')
+        },
+        async getFeeds() {
+            const feeds = await (await request('feeds', {}, '读取订阅列表')).json()
+            return feeds.map((feed: {
+                id: number
+                title: string
+                feed_url: string
+                site_url?: string
+                category?: { title?: string }
+            }) => ({
+                id: String(feed.id),
+                title: feed.title,
+                url: feed.feed_url,
+                siteUrl: feed.site_url,
+                category: feed.category?.title,
+            }))
+        },
+        async getItems(since, limit) {
+            const params: Record<string, string> = {}
+            if (since) params.after = String(Math.floor(since / 1000))
+            const { entries } = await getEntries(params, limit)
+            return entries.map(entry => ({
+                id: String(entry.id),
+                feedId: String(entry.feed_id),
+                title: entry.title || '无标题',
+                link: entry.url,
+                content: entry.content,
+                author: entry.author || undefined,
+                published: new Date(entry.published_at).getTime(),
+                isRead: entry.status !== 'unread',
+                isStarred: entry.starred,
+                enclosures: entry.enclosures?.map(e => ({ url: e.url, type: e.mime_type, length: e.size })),
+            }))
+        },
+        async getItemStates(knownIds, limit) {
+            // 条目列表含正文，只查询本地已有条目的 ID 范围，避免下载全部未读/收藏条目
+            const ids = knownIds.map(Number).filter(Number.isInteger)
+            if (ids.length === 0) {
+                return { unread: new Set(), starred: new Set(), unreadComplete: true, starredComplete: true }
+            }
+            const range = {
+                after_entry_id: String(ids.reduce((min, id) => Math.min(min, id)) - 1),
+                before_entry_id: String(ids.reduce((max, id) => Math.max(max, id)) + 1),
+            }
+            const [unread, starred] = await Promise.all([
+                getEntries({ ...range, status: 'unread' }, limit),
+                getEntries({ ...range, starred: 'true' }, limit),
+            ])
+            return {
+                unread: new Set(unread.entries.map(entry => String(entry.id))),
+                starred: new Set(starred.entries.map(entry => String(entry.id))),
+                unreadComplete: unread.complete,
+                starredComplete: starred.complete,
+            }
+        },
+        async markRead(ids) {
+            await request('entries', {
+                method: 'PUT',
+                body: JSON.stringify({ entry_ids: ids.map(Number), status: 'read' }),
+            }, '更新条目状态')
+        },
+        async setStarred(id, starred) {
+            // Miniflux 只提供切换收藏的接口，状态不同时才切换
+            const entry: MinifluxEntry = await (await request(`entries/${id}`, {}, '读取条目')).json()
+            if (entry.starred !== starred) {
+                await request(`entries/${id}/bookmark`, { method: 'PUT' }, '更新收藏状态')
+            }
+        },
+    }
+}
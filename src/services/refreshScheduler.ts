@@ -0,0 +1,85 @@
+/**
+ * 自动刷新调度 - 计算每个订阅源的刷新间隔与下次刷新时间
+ * 优先级：订阅源自定义间隔 > 全局默认间隔与源 <ttl> 提示中的较大者
+ */
+import type { Feed } from '@/types'
+import { REFRESH_CONSTANTS } from '@/utils/constants'
+
+// 配置存储 key（0 表示关闭自动刷新）
+const REFRESH_INTERVAL_KEY = 'folo_refresh_interval'
+
+const MINUTE = 60 * 1000
+
+/** 可选的全局刷新间隔（分钟，0 为关闭） */
+export const REFRESH_INTERVAL_OPTIONS = [
+    { value: 0, label: '关闭' },
+    { value: 15, label: '15 分钟' },
+    { value: 30, label: '30 分钟' },
+    { value: 60, label: '1 小时' },
+    { value: 180, label: '3 小时' },
+]
+
+/**
+ * 获取全局默认刷新间隔（分钟）
+ */
+export function getDefaultRefreshInterval(): number {
+    const stored = localStorage.getItem(REFRESH_INTERVAL_KEY)
+    if (stored === null) return REFRESH_CONSTANTS.DEFAULT_INTERVAL
+
+    const value = parseInt(stored, 10)
+    return Number.isNaN(value) || value < 0 ? REFRESH_CONSTANTS.DEFAULT_INTERVAL : value
+}
+
+/**
+ * 保存全局默认刷新间隔（分钟，0 为关闭）
+ */
+export function saveDefaultRefreshInterval(minutes: number): void {
+    localStorage.setItem(REFRESH_INTERVAL_KEY, String(minutes))
+}
+
+/**
+ * 自动刷新是否开启
+ */
+export function isAutoRefreshEnabled(): boolean {
+    return getDefaultRefreshInterval() > 0
+}
+
+/**
+ * 计算订阅源的正常刷新间隔（分钟）
+ */
+export function getFeedRefreshInterval(feed: Feed): number {
+    const interval = feed.refreshInterval
+        ?? Math.max(getDefaultRefreshInterval() || REFRESH_CONSTANTS.DEFAULT_INTERVAL, feed.feedTtl ?? 0)
+
+    return Math.min(
+        Math.max(interval, REFRESH_CONSTANTS.MIN_INTERVAL),
+        REFRESH_CONSTANTS.MAX_BACKOFF_INTERVAL
+    )
+}
+
+/**
+ * 计算下次刷新时间，失败时按连续失败次数指数退避
+ * @param failures 连续失败次数（0 表示本次成功）
+ */
+export function computeNextRefreshAt(feed: Feed, failures: number, now = Date.now()): number {
+    const interval = getFeedRefreshInterval(feed)
+    const backoff = failures > 0
+        ? Math.min(interval * 2 ** Math.min(failures, 10), REFRESH_CONSTANTS.MAX_BACKOFF_INTERVAL)
+        : interval
+
+    return now + backoff * MINUTE
+}
+
+/**
+ * 获取订阅源的下次刷新时间（未记录时按上次抓取时间推算）
+ */
+export function getNextRefreshAt(feed: Feed): number {
+    return feed.nextRefreshAt ?? (feed.lastFetched ?? 0) + getFeedRefreshInterval(feed) * MINUTE
+}
+
+/**
+ * 筛选已到刷新时间的订阅源
+ */
+export function getDueFeeds(feeds: Feed[], now = Date.now()): Feed[] {
+    return feeds.filter(feed => getNextRefreshAt(feed) <= now)
+}
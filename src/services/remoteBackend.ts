@@ -0,0 +1,442 @@
+/**
+ * 阅读服务器模式 - 以 FreshRSS 等 Google Reader 兼容服务或 Miniflux 作为后端
+ * 订阅源、分类、条目与未读/收藏状态从服务器拉取到 db.feeds / db.articles，
+ * 本地的已读、收藏与取消收藏经数据变更钩子回写到服务器（失败时排队，下次拉取前重试）
+ */
+import { db, dbHelpers, onDataChange, type DataChange } from '@/db'
+import type { Article, Feed, StarredArticle } from '@/types'
+import { createReaderClient, type ReaderApiType, type ReaderClient, type RemoteItem } from '@/services/readerApi'
+import { buildArticleId } from '@/utils/articleId'
+import { canonicalizeUrl } from '@/utils/url'
+import { generateUUID } from '@/utils/uuid'
+import { REMOTE_BACKEND_CONSTANTS } from '@/utils/constants'
+
+// 配置存储 key
+const REMOTE_CONFIG_KEY = 'folo_remote_backend'
+export const REMOTE_STATUS_KEY = 'folo_remote_status'
+
+// settings 表中的 key：待回写的状态变更
+const REMOTE_PENDING_KEY = 'remotePendingOps'
+
+const HOUR = 60 * 60 * 1000
+
+/** 后端类型：none 为不使用服务器（本地抓取） */
+export type RemoteBackendType = 'none' | ReaderApiType
+
+/** 阅读服务器设置 */
+export interface RemoteBackendConfig {
+    type: RemoteBackendType
+    url: string
+    username: string
+    password: string    // Google Reader API 密码；Miniflux 未填用户名时为 API 令牌
+    interval: number    // 自动拉取间隔（分钟，0 为仅手动）
+}
+
+const DEFAULT_REMOTE_CONFIG: RemoteBackendConfig = {
+    type: 'none',
+    url: '',
+    username: '',
+    password: '',
+    interval: REMOTE_BACKEND_CONSTANTS.DEFAULT_INTERVAL,
+}
+
+/** 可选的自动拉取间隔（分钟，0 为仅手动） */
+export const REMOTE_INTERVAL_OPTIONS = [
+    { value: 0, label: '仅手动' },
+    { value: 5, label: '5 分钟' },
+    { value: 15, label: '15 分钟' },
+    { value: 60, label: '1 小时' },
+]
+
+/** 最近一次拉取的状态 */
+export interface RemoteStatus {
+    lastPullAt?: number
+    lastAttemptAt?: number  // 最近一次尝试拉取的时间（含失败）
+    lastError?: string
+    lastItemAt?: number     // 已拉取条目中最新的发布时间（增量拉取的起点）
+    feeds?: number
+    items?: number
+}
+
+/** 拉取结果 */
+export interface RemotePullResult {
+    feeds: number           // 服务器上的订阅源数
+    items: number           // 拉取到的条目数
+    stateChanges: number    // 更新了阅读/收藏状态的文章数
+    pushed: number          // 回写到服务器的状态变更数
+}
+
+/** 待回写到服务器的状态变更 */
+interface PendingOp {
+    remoteId: string
+    action: 'read' | 'star' | 'unstar'
+}
+
+/**
+ * 获取阅读服务器设置
+ */
+export function getRemoteBackendConfig(): RemoteBackendConfig {
+    try {
+        const saved = localStorage.getItem(REMOTE_CONFIG_KEY)
+        return saved ? { ...DEFAULT_REMOTE_CONFIG, ...JSON.parse(saved) } : DEFAULT_REMOTE_CONFIG
+    } catch {
+        return DEFAULT_REMOTE_CONFIG
+    }
+}
+
+/**
+ * 是否使用阅读服务器
+ */
+export function isRemoteBackendEnabled(): boolean {
+    const config = getRemoteBackendConfig()
+    return config.type !== 'none' && !!config.url.trim()
+}
+
+/**
+ * 保存阅读服务器设置
+ * 更换或停用服务器时，解除本地订阅源与文章和原服务器的关联（文章保留，订阅源改为本地抓取）
+ */
+export async function saveRemoteBackendConfig(config: RemoteBackendConfig): Promise<void> {
+    const previous = getRemoteBackendConfig()
+    localStorage.setItem(REMOTE_CONFIG_KEY, JSON.stringify(config))
+
+    const changed = config.type !== previous.type || config.url.trim() !== previous.url.trim()
+    if (!changed || previous.type === 'none') return
+
+    await db.transaction('rw', [db.feeds, db.articles, db.settings], async () => {
+        await db.feeds.filter(feed => !!feed.remoteId).modify(feed => { delete feed.remoteId })
+        await db.articles.filter(article => !!article.remoteId).modify(article => { delete article.remoteId })
+        await db.settings.delete(REMOTE_PENDING_KEY)
+    })
+    localStorage.removeItem(REMOTE_STATUS_KEY)
+    console.log('[Remote] 已解除与原阅读服务器的关联')
+}
+
+/**
+ * 获取最近一次拉取的状态
+ */
+export function getRemoteStatus(): RemoteStatus {
+    try {
+        return JSON.parse(localStorage.getItem(REMOTE_STATUS_KEY) || '{}')
+    } catch {
+        return {}
+    }
+}
+
+function saveRemoteStatus(status: RemoteStatus): void {
+    localStorage.setItem(REMOTE_STATUS_KEY, JSON.stringify(status))
+}
+
+/**
+ * 是否应该执行自动拉取
+ */
+export function isRemotePullDue(now = Date.now()): boolean {
+    const config = getRemoteBackendConfig()
+    if (!isRemoteBackendEnabled() || config.interval <= 0) return false
+    const { lastPullAt, lastAttemptAt } = getRemoteStatus()
+    const last = lastAttemptAt ?? lastPullAt
+    return !last || now - last >= config.interval * 60 * 1000
+}
+
+function createClient(config: RemoteBackendConfig): ReaderClient {
+    if (config.type === 'none') throw new Error('未设置阅读服务器')
+    return createReaderClient({ ...config, type: config.type, url: config.url.trim() })
+}
+
+/**
+ * 测试服务器地址与凭据
+ */
+export async function verifyRemoteBackend(config: RemoteBackendConfig): Promise<void> {
+    await createClient(config).verify()
+}
+
+/** ========== 回写状态 ========== */
+
+function getOpKey(op: PendingOp): string {
+    return `${op.action}:${op.remoteId}`
+}
+
+/**
+ * 把一次数据变更转为待回写的状态变更
+ */
+function toPendingOps(change: DataChange): PendingOp[] {
+    switch (change.table) {
+        case 'articles': {
+            const { before, after } = change
+            if (!after?.remoteId || !after.isRead || before?.isRead) return []
+            return [{ remoteId: after.remoteId, action: 'read' }]
+        }
+        case 'starredArticles': {
+            const article = change.after ?? change.before
+            if (!article?.remoteId) return []
+            return [{ remoteId: article.remoteId, action: change.after ? 'star' : 'unstar' }]
+        }
+        default:
+            return []
+    }
+}
+
+/**
+ * 加入回写队列：同一条目的收藏与取消收藏只保留最后一次
+ */
+async function enqueueOps(ops: PendingOp[]): Promise<void> {
+    const pending = await dbHelpers.getSetting<PendingOp[]>(REMOTE_PENDING_KEY) ?? []
+    const starIds = new Set(ops.filter(op => op.action !== 'read').map(op => op.remoteId))
+    const keys = new Set(ops.map(getOpKey))
+    const kept = pending.filter(op =>
+        !keys.has(getOpKey(op)) && !(op.action !== 'read' && starIds.has(op.remoteId))
+    )
+    await dbHelpers.setSetting(REMOTE_PENDING_KEY, [...kept, ...ops])
+}
+
+/**
+ * 回写队列中的状态变更，成功后移出队列
+ * @returns 回写的变更数
+ */
+async function flushPendingOps(client: ReaderClient): Promise<number> {
+    const ops = await dbHelpers.getSetting<PendingOp[]>(REMOTE_PENDING_KEY) ?? []
+    if (ops.length === 0) return 0
+
+    const readIds = ops.filter(op => op.action === 'read').map(op => op.remoteId)
+    if (readIds.length > 0) await client.markRead(readIds)
+    for (const op of ops) {
+        if (op.action !== 'read') await client.setStarred(op.remoteId, op.action === 'star')
+    }
+
+    // 回写期间新加入的变更留在队列中
+    const flushed = new Set(ops.map(getOpKey))
+    const remaining = (await dbHelpers.getSetting<PendingOp[]>(REMOTE_PENDING_KEY) ?? [])
+        .filter(op => !flushed.has(getOpKey(op)))
+    await dbHelpers.setSetting(REMOTE_PENDING_KEY, remaining)
+    return ops.length
+}
+
+// 正在进行的回写（避免重复提交同一批变更）
+let currentPush: Promise<number> | null = null
+
+function pushPendingOps(): Promise<number> {
+    if (!currentPush) {
+        currentPush = flushPendingOps(createClient(getRemoteBackendConfig())).finally(() => {
+            currentPush = null
+        })
+    }
+    return currentPush
+}
+
+async function pushDataChanges(changes: DataChange[]): Promise<void> {
+    if (!isRemoteBackendEnabled()) return
+    const ops = changes.flatMap(toPendingOps)
+    if (ops.length === 0) return
+
+    await enqueueOps(ops)
+    try {
+        // 等待进行中的回写结束后再提交本次变更
+        await currentPush
+        await pushPendingOps()
+    } catch (err) {
+        console.warn('[Remote] 状态回写失败，将在下次拉取前重试:', err)
+    }
+}
+
+/**
+ * 开始把本地的已读/收藏变更回写到服务器，返回停止回写的函数
+ */
+export function startRemoteRecorder(): () => void {
+    return onDataChange(changes => {
+        pushDataChanges(changes).catch(err => console.error('[Remote] Failed to queue changes:', err))
+    })
+}
+
+/** ========== 拉取 ========== */
+
+/**
+ * 同步订阅源：按服务器 ID 或 URL 对应到本地订阅源，服务器上已删除的订阅源在本地删除
+ * @returns 服务器订阅源 ID → 本地订阅源 ID
+ */
+async function syncRemoteFeeds(client: ReaderClient): Promise<Map<string, string>> {
+    const remoteFeeds = await client.getFeeds()
+    const localIdByRemoteId = new Map<string, string>()
+
+    await db.transaction('rw', [db.feeds, db.articles, db.articleContents], async () => {
+        const localFeeds = await db.feeds.toArray()
+        const byRemoteId = new Map(localFeeds.filter(feed => feed.remoteId).map(feed => [feed.remoteId!, feed]))
+        const byUrl = new Map(localFeeds.map(feed => [feed.url, feed]))
+
+        for (const remote of remoteFeeds) {
+            const local = byRemoteId.get(remote.id) ?? byUrl.get(remote.url)
+            if (local) {
+                const changes: Partial<Feed> = {
+                    remoteId: remote.id,
+                    title: remote.title || local.title,
+                    category: remote.category,
+                }
+                if (remote.siteUrl) changes.siteUrl = remote.siteUrl
+                if (remote.url !== local.url && !byUrl.has(remote.url)) changes.url = remote.url
+                await db.feeds.update(local.id, changes)
+                localIdByRemoteId.set(remote.id, local.id)
+            } else {
+                const feed: Feed = {
+                    id: generateUUID(),
+                    title: remote.title || remote.url,
+                    url: remote.url,
+                    siteUrl: remote.siteUrl,
+                    category: remote.category,
+                    remoteId: remote.id,
+                    createdAt: Date.now(),
+                }
+                await db.feeds.add(feed)
+                byUrl.set(feed.url, feed)
+                localIdByRemoteId.set(remote.id, feed.id)
+            }
+        }
+
+        // 服务器上已退订的订阅源（收藏的文章保留在收藏中）
+        const remoteIds = new Set(remoteFeeds.map(feed => feed.id))
+        for (const feed of byRemoteId.values()) {
+            if (remoteIds.has(feed.remoteId!)) continue
+            const articleIds = await db.articles.where('feedId').equals(feed.id).primaryKeys()
+            await db.feeds.delete(feed.id)
+            await db.articles.bulkDelete(articleIds)
+            await db.articleContents.bulkDelete(articleIds)
+            console.log(`[Remote] 服务器上已退订: ${feed.title}`)
+        }
+    })
+
+    return localIdByRemoteId
+}
+
+function mapRemoteItem(item: RemoteItem, feedId: string, now: number): Omit<Article, 'isRead' | 'isStarred'> {
+    return {
+        id: buildArticleId(feedId, { link: item.link, title: item.title, content: item.content }),
+        feedId,
+        title: item.title,
+        link: item.link,
+        canonicalLink: item.link ? canonicalizeUrl(item.link) : undefined,
+        pubDate: item.published || now,
+        firstSeenAt: now,
+        author: item.author,
+        description: item.content,
+        enclosures: item.enclosures,
+        remoteId: item.id,
+    }
+}
+
+/**
+ * 已在本地抓取过的文章（ID 可能由 GUID 生成，服务器不提供 GUID）按规范化链接沿用本地 ID，
+ * 避免重复插入并保留已有的阅读/收藏状态
+ */
+async function adoptLocalArticleIds(
+    articles: Omit<Article, 'isRead' | 'isStarred'>[]
+): Promise<Omit<Article, 'isRead' | 'isStarred'>[]> {
+    const links = [...new Set(articles.flatMap(article => article.canonicalLink ? [article.canonicalLink] : []))]
+    if (links.length === 0) return articles
+
+    const existing = await db.articles.where('canonicalLink').anyOf(links).toArray()
+    const idByFeedLink = new Map(existing.map(article => [`${article.feedId} ${article.canonicalLink}`, article.id]))
+    return articles.map(article => {
+        const localId = article.canonicalLink && idByFeedLink.get(`${article.feedId} ${article.canonicalLink}`)
+        return localId ? { ...article, id: localId } : article
+    })
+}
+
+/**
+ * 按服务器的未读/收藏条目更新本地文章状态（直接写表，不经过数据变更钩子，避免回写）
+ * 尚未回写成功的本地变更优先；服务器返回的列表被截断时，不在列表中的文章保持本地状态
+ * @returns 状态有变化的文章数
+ */
+async function applyRemoteStates(client: ReaderClient): Promise<number> {
+    const articles = await db.articles.filter(article => !!article.remoteId).toArray()
+    const { unread, starred, unreadComplete, starredComplete } = await client.getItemStates(
+        articles.map(article => article.remoteId!),
+        REMOTE_BACKEND_CONSTANTS.MAX_STATE_IDS
+    )
+    const pending = await dbHelpers.getSetting<PendingOp[]>(REMOTE_PENDING_KEY) ?? []
+    const pendingIds = new Set(pending.map(op => op.remoteId))
+
+    const updates: { key: string; changes: Partial<Article> }[] = []
+    const newlyStarred: StarredArticle[] = []
+    const unstarredIds: string[] = []
+    const now = Date.now()
+
+    for (const article of articles) {
+        const remoteId = article.remoteId!
+        if (pendingIds.has(remoteId)) continue
+        const isRead = unread.has(remoteId) ? false : unreadComplete || article.isRead
+        const isStarred = starred.has(remoteId) || (!starredComplete && article.isStarred)
+        if (isRead === article.isRead && isStarred === article.isStarred) continue
+
+        updates.push({ key: article.id, changes: { isRead, isStarred } })
+        if (isStarred && !article.isStarred) {
+            newlyStarred.push({ ...article, isRead, isStarred, content: article.description ?? '', starredAt: now })
+        } else if (!isStarred && article.isStarred) {
+            unstarredIds.push(article.id)
+        }
+    }
+
+    if (updates.length > 0) {
+        await db.transaction('rw', [db.articles, db.starredArticles], async () => {
+            await db.articles.bulkUpdate(updates)
+            await db.starredArticles.bulkPut(newlyStarred)
+            await db.starredArticles.bulkDelete(unstarredIds)
+        })
+    }
+    return updates.length
+}
+
+async function pullOnce(): Promise<RemotePullResult> {
+    const config = getRemoteBackendConfig()
+    const status = getRemoteStatus()
+
+    try {
+        const client = createClient(config)
+
+        // 先回写本地变更，避免被服务器上的旧状态覆盖
+        const pushed = await flushPendingOps(client)
+        const localIdByRemoteId = await syncRemoteFeeds(client)
+
+        const since = status.lastItemAt ? status.lastItemAt - REMOTE_BACKEND_CONSTANTS.OVERLAP_HOURS * HOUR : undefined
+        const items = await client.getItems(
+            since,
+            since ? REMOTE_BACKEND_CONSTANTS.MAX_ITEMS : REMOTE_BACKEND_CONSTANTS.INITIAL_ITEMS
+        )
+        const now = Date.now()
+        const articles = await adoptLocalArticleIds(items.flatMap(item => {
+            const feedId = localIdByRemoteId.get(item.feedId)
+            return feedId ? [mapRemoteItem(item, feedId, now)] : []
+        }))
+        if (articles.length > 0) await dbHelpers.upsertArticles(articles)
+
+        const stateChanges = await applyRemoteStates(client)
+
+        const lastItemAt = Math.max(status.lastItemAt ?? 0, ...articles.map(article => article.pubDate))
+        saveRemoteStatus({
+            lastPullAt: now,
+            lastAttemptAt: now,
+            lastItemAt: lastItemAt || undefined,
+            feeds: localIdByRemoteId.size,
+            items: articles.length,
+        })
+        console.log(`[Remote] 拉取完成：${localIdByRemoteId.size} 个订阅源，${articles.length} 篇文章，${stateChanges} 篇状态更新`)
+        return { feeds: localIdByRemoteId.size, items: articles.length, stateChanges, pushed }
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err)
+        saveRemoteStatus({ ...status, lastAttemptAt: Date.now(), lastError: message })
+        console.error('[Remote] 拉取失败:', err)
+        throw err
+    }
+}
+
+// 正在进行的拉取（避免自动拉取与手动刷新并发）
+let currentPull: Promise<RemotePullResult> | null = null
+
+/**
+ * 从阅读服务器拉取订阅源、文章与阅读状态
+ */
+export function runRemotePull(): Promise<RemotePullResult> {
+    if (!currentPull) {
+        currentPull = pullOnce().finally(() => {
+            currentPull = null
+        })
+    }
+    return currentPull
+}
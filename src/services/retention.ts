@@ -0,0 +1,203 @@
+/**
+ * 文章保留策略 - 按全局与订阅源规则计算需要清理的文章，执行清理并记录清理报告
+ * 全局规则与清理报告持久化在 settings 表
+ */
+import { db, dbHelpers } from '@/db'
+import type { Article, Feed, RetentionPolicy } from '@/types'
+
+// settings 表中的 key
+const RETENTION_POLICY_KEY = 'retentionPolicy'
+const CLEANUP_REPORTS_KEY = 'cleanupReports'
+
+// 保留的清理报告数
+const MAX_CLEANUP_REPORTS = 10
+
+const DAY = 24 * 60 * 60 * 1000
+
+/** 默认全局规则：保留 30 天，未读与有笔记/对话的文章永久保留 */
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+    keepDays: 30,
+    keepUnread: true,
+    keepReferenced: true,
+}
+
+/** 单个订阅源的清理统计 */
+export interface CleanupFeedSummary {
+    feedId: string
+    title: string
+    count: number
+    sampleTitles: string[]   // 部分待删除文章的标题（用于预览）
+}
+
+/** 清理计划（预览） */
+export interface CleanupPlan {
+    articleIds: string[]
+    articleIdsByFeed: Record<string, string[]>
+    feeds: CleanupFeedSummary[]
+    expiredChatSessions: number
+}
+
+/** 清理报告 */
+export interface CleanupReport {
+    at: number
+    deletedArticles: number
+    deletedChatSessions: number
+    feeds: CleanupFeedSummary[]
+}
+
+// 预览中每个订阅源展示的文章标题数
+const SAMPLE_TITLE_COUNT = 3
+
+/**
+ * 读取全局保留规则
+ */
+export async function loadRetentionPolicy(): Promise<RetentionPolicy> {
+    const stored = await dbHelpers.getSetting<RetentionPolicy>(RETENTION_POLICY_KEY)
+    return { ...DEFAULT_RETENTION_POLICY, ...stored }
+}
+
+/**
+ * 保存全局保留规则
+ */
+export async function saveRetentionPolicy(policy: RetentionPolicy): Promise<void> {
+    await dbHelpers.setSetting(RETENTION_POLICY_KEY, policy)
+}
+
+/**
+ * 读取最近的清理报告（新的在前）
+ */
+export async function getCleanupReports(): Promise<CleanupReport[]> {
+    return (await dbHelpers.getSetting<CleanupReport[]>(CLEANUP_REPORTS_KEY)) ?? []
+}
+
+/**
+ * 规则的文字描述
+ */
+export function describeRetentionPolicy(policy: RetentionPolicy): string {
+    const rules: string[] = []
+    if (policy.keepDays) rules.push(`${policy.keepDays} 天内`)
+    if (policy.keepLatest) rules.push(`最新 ${policy.keepLatest} 篇`)
+    if (rules.length === 0) return '永久保留'
+
+    const extras = [policy.keepUnread && '未读', policy.keepReferenced && '有笔记/对话'].filter(Boolean)
+    return `保留${rules.join('或')}的文章${extras.length > 0 ? `，${extras.join('、')}的文章永久保留` : ''}`
+}
+
+/**
+ * 被笔记引用或有 AI 对话（含收藏的对话）的文章 ID
+ */
+async function getReferencedArticleIds(): Promise<Set<string>> {
+    const [notes, sessions, starredSessions] = await Promise.all([
+        db.notes.toArray(),
+        db.chatSessions.toArray(),
+        db.starredChatSessions.toArray(),
+    ])
+
+    const ids = new Set<string>()
+    for (const note of notes) {
+        note.references?.filter(ref => ref.type === 'article').forEach(ref => ids.add(ref.id))
+    }
+    for (const session of [...sessions, ...starredSessions]) ids.add(session.articleId)
+    return ids
+}
+
+/**
+ * 按规则挑出一个订阅源中需要删除的文章
+ */
+function selectArticlesToDelete(
+    articles: Article[],
+    policy: RetentionPolicy,
+    referenced: Set<string>,
+    now: number
+): Article[] {
+    if (!policy.keepDays && !policy.keepLatest) return []
+
+    return [...articles]
+        .sort((a, b) => b.pubDate - a.pubDate)
+        .filter((article, index) => {
+            if (article.isStarred) return false
+            if (policy.keepUnread && !article.isRead) return false
+            if (policy.keepReferenced && referenced.has(article.id)) return false
+            if (policy.keepLatest && index < policy.keepLatest) return false
+            if (policy.keepDays && now - (article.firstSeenAt ?? article.pubDate) < policy.keepDays * DAY) return false
+            return true
+        })
+}
+
+/**
+ * 计算下次清理将删除的内容
+ * @param globalPolicy 全局规则（预览未保存的修改时传入，缺省读取已保存的规则）
+ */
+export async function planCleanup(globalPolicy?: RetentionPolicy, now = Date.now()): Promise<CleanupPlan> {
+    const [policy, feeds, articles, referenced, expiredChatSessions] = await Promise.all([
+        globalPolicy ?? loadRetentionPolicy(),
+        db.feeds.toArray(),
+        db.articles.toArray(),
+        getReferencedArticleIds(),
+        db.chatSessions.where('expiresAt').below(now).count(),
+    ])
+
+    const feedMap = new Map<string, Feed>(feeds.map(feed => [feed.id, feed]))
+    const byFeed = new Map<string, Article[]>()
+    for (const article of articles) {
+        const list = byFeed.get(article.feedId) ?? []
+        list.push(article)
+        byFeed.set(article.feedId, list)
+    }
+
+    const articleIds: string[] = []
+    const articleIdsByFeed: Record<string, string[]> = {}
+    const feedSummaries: CleanupFeedSummary[] = []
+    for (const [feedId, feedArticles] of byFeed) {
+        const feed = feedMap.get(feedId)
+        const toDelete = selectArticlesToDelete(feedArticles, feed?.retention ?? policy, referenced, now)
+        if (toDelete.length === 0) continue
+
+        articleIdsByFeed[feedId] = toDelete.map(a => a.id)
+        articleIds.push(...articleIdsByFeed[feedId])
+        feedSummaries.push({
+            feedId,
+            title: feed?.title ?? '已删除的订阅源',
+            count: toDelete.length,
+            sampleTitles: toDelete.slice(0, SAMPLE_TITLE_COUNT).map(a => a.title),
+        })
+    }
+
+    return {
+        articleIds,
+        articleIdsByFeed,
+        feeds: feedSummaries.sort((a, b) => b.count - a.count),
+        expiredChatSessions,
+    }
+}
+
+/**
+ * 按保留规则执行清理，删除了内容时记录清理报告
+ * 删除的文章 ID 记为墓碑，订阅源仍列出这些条目时刷新不会把它们当作新文章重新插入
+ */
+export async function runCleanup(): Promise<CleanupReport> {
+    const now = Date.now()
+    const plan = await planCleanup(undefined, now)
+
+    const tables = [db.articles, db.playbackPositions, db.articleContents, db.chatSessions, db.settings]
+    await db.transaction('rw', tables, async () => {
+        await db.articles.bulkDelete(plan.articleIds)
+        await dbHelpers.recordDeletedArticles(plan.articleIdsByFeed)
+        await db.playbackPositions.bulkDelete(plan.articleIds)
+        await db.articleContents.bulkDelete(plan.articleIds)
+        await db.chatSessions.where('expiresAt').below(now).delete()
+    })
+
+    const report: CleanupReport = {
+        at: now,
+        deletedArticles: plan.articleIds.length,
+        deletedChatSessions: plan.expiredChatSessions,
+        feeds: plan.feeds,
+    }
+
+    if (report.deletedArticles > 0 || report.deletedChatSessions > 0) {
+        const reports = await getCleanupReports()
+        await dbHelpers.setSetting(CLEANUP_REPORTS_KEY, [report, ...reports].slice(0, MAX_CLEANUP_REPORTS))
+    }
+    return report
+}
@@ -1,104 +1,157 @@
 /**
- * RSS 服务 - 使用原生 DOMParser 解析 RSS
- * 替换 rss-parser，避免 Node.js 依赖问题
+ * RSS 服务 - 抓取订阅源并交给解析 Worker 解析
+ * 支持格式：RSS 2.0、RSS 1.0 (RDF)、Atom、JSON Feed 1.x（解析实现见 feedParser）
  */
+import { hashString } from '@/utils/hash'
+import { decodeResponseBody } from '@/utils/encoding'
+import { BACKFILL_CONSTANTS } from '@/utils/constants'
+import { canonicalizeUrl } from '@/utils/url'
+import type { FeedFetchMode, ScrapeConfig } from '@/types'
+import type { FeedData, FeedItem, FeedLink } from '@/services/feedParser'
+import { runParserTask } from '@/services/parserWorker'
+import { buildProxyUrl, getProxyAttemptOrder, loadProxySettings, recordProxyResult } from '@/services/proxy'
+import {
+    buildRSSHubInstanceUrl,
+    getRSSHubAttemptOrder,
+    isRSSHubUrl,
+    loadRSSHubSettings,
+    recordRSSHubSuccess,
+} from '@/services/rsshub'
+
+export type { FeedData, FeedItem } from '@/services/feedParser'
+
+// 请求 Feed 时使用的 Accept 头
+const FEED_ACCEPT_HEADER = 'application/rss+xml, application/atom+xml, application/feed+json, application/xml, text/xml, application/json'
 
 /**
- * 将自定义协议URL转换为实际URL
- * rsshub:// -> https://rsshub.app/
+ * 粗略判断响应内容是否像 Feed（XML 或 JSON）
  */
-function normalizeUrl(url: string): string {
-    url = url.trim()
+function looksLikeFeed(text: string): boolean {
+    const trimmed = text.trim()
+    return trimmed.startsWith('<') || trimmed.startsWith('{')
+}
 
-    if (url.startsWith('rsshub://')) {
-        return url.replace('rsshub://', 'https://rsshub.app/')
-    }
+/** 条件请求的校验信息（来自上次抓取） */
+export interface ConditionalHeaders {
+    etag?: string
+    lastModified?: string
+}
+
+/** 抓取路径（对应订阅源的 fetchMode / proxyId），网页订阅源另带抓取规则 */
+export interface FetchRoute {
+    fetchMode?: FeedFetchMode
+    proxyId?: string
+    scrape?: ScrapeConfig
+}
+
+/** 抓取时发生的重定向 */
+export interface FeedRedirect {
+    url: string             // 最终地址
+    permanent?: boolean     // 是否为永久重定向（301/308）；浏览器直连时无法得知，为 undefined
+}
 
-    return url
+/** 抓取结果（含 HTTP 元数据） */
+interface FetchResult {
+    text: string            // 响应内容（304 时为空字符串）
+    status: number          // HTTP 状态码
+    etag?: string
+    lastModified?: string
+    redirect?: FeedRedirect
 }
 
-// CORS 代理列表（按稳定性排序）
-const CORS_PROXIES = [
-    'https://api.codetabs.com/v1/proxy?quest=', // 实测最稳定
-    'https://api.allorigins.win/raw?url=',
-    'https://corsproxy.io/?',
-]
-
-// 代理缓存（记住上次成功的代理索引）
-let lastSuccessfulProxyIndex: number | null = null
-let proxyFailureCount: Map<number, number> = new Map() // 失败计数
-
-export interface FeedData {
-    title: string
-    link?: string
-    description?: string
-    image?: { url?: string }
-    items: FeedItem[]
+/**
+ * 按检测到的字符编码读取响应内容（兼容 GBK / Big5 等非 UTF-8 的源和网页）
+ */
+async function readResponseText(response: Response): Promise<string> {
+    return decodeResponseBody(await response.arrayBuffer(), response.headers.get('Content-Type'))
 }
 
-export interface FeedItem {
-    guid?: string
-    title?: string
-    link?: string
-    pubDate?: string
-    creator?: string
-    author?: string
-    content?: string
-    description?: string
+/**
+ * 读取代理响应中的重定向信息（本地开发代理通过自定义响应头提供）
+ */
+function getProxyRedirect(response: Response): FeedRedirect | undefined {
+    const url = response.headers.get('X-Folo-Redirect-Url')
+    if (!url) return undefined
+    return { url, permanent: response.headers.get('X-Folo-Redirect-Permanent') === 'true' }
 }
 
 /**
  * 使用 CORS 代理获取 RSS 内容
+ * 直接访问时携带 If-None-Match / If-Modified-Since，代理不转发这些头，只能依赖内容哈希判断
  */
-async function fetchWithProxy(url: string): Promise<string> {
+async function fetchWithProxy(url: string, conditional?: ConditionalHeaders, route: FetchRoute = {}): Promise<FetchResult> {
     let lastError: Error | null = null
     const errors: string[] = []
+    const fetchMode = route.fetchMode ?? 'auto'
 
-    // 首先尝试直接访问（某些RSS源支持CORS）
-    try {
-        console.log(`[RSS] 尝试直接访问: ${url}`)
-        const response = await fetch(url, {
-            headers: { 'Accept': 'application/rss+xml, application/xml, text/xml' }
-        })
-        if (response.ok) {
-            const text = await response.text()
-            if (text && text.trim().length > 0) {
-                console.log(`[RSS] 直接访问成功`)
-                return text
+    await loadProxySettings()
+
+    // 首先尝试直接访问（某些RSS源支持CORS），指定代理时跳过
+    if (fetchMode !== 'proxy') {
+        try {
+            console.log(`[RSS] 尝试直接访问: ${url}`)
+            const headers: Record<string, string> = { 'Accept': FEED_ACCEPT_HEADER }
+            if (conditional?.etag) headers['If-None-Match'] = conditional.etag
+            if (conditional?.lastModified) headers['If-Modified-Since'] = conditional.lastModified
+
+            let response: Response
+            try {
+                response = await fetch(url, { headers })
+            } catch (err) {
+                // 条件请求头会触发 CORS 预检，部分源不允许，去掉后再试一次
+                if (!headers['If-None-Match'] && !headers['If-Modified-Since']) throw err
+                response = await fetch(url, { headers: { 'Accept': FEED_ACCEPT_HEADER } })
+            }
+
+            const meta = {
+                status: response.status,
+                etag: response.headers.get('ETag') || undefined,
+                lastModified: response.headers.get('Last-Modified') || undefined,
+                // 浏览器自动跟随重定向，只能得知最终地址
+                redirect: response.redirected && response.url && response.url !== url
+                    ? { url: response.url }
+                    : undefined,
             }
-            errors.push(`直接访问返回空内容`)
-        } else {
-            errors.push(`直接访问失败: ${response.status} ${response.statusText}`)
-        }
-    } catch (err) {
-        errors.push(`直接访问异常: ${(err as Error).message}`)
-    }
 
-    // 尝试使用代理（智能排序）
-    const proxyIndices = Array.from({ length: CORS_PROXIES.length }, (_, i) => i)
+            if (response.status === 304) {
+                console.log(`[RSS] 直接访问返回 304，内容未变化`)
+                return {
+                    text: '',
+                    status: 304,
+                    etag: meta.etag || conditional?.etag,
+                    lastModified: meta.lastModified || conditional?.lastModified,
+                    redirect: meta.redirect,
+                }
+            }
 
-    // 将上次成功的代理移到最前面
-    if (lastSuccessfulProxyIndex !== null) {
-        proxyIndices.sort((a, b) => {
-            if (a === lastSuccessfulProxyIndex) return -1
-            if (b === lastSuccessfulProxyIndex) return 1
-            return (proxyFailureCount.get(a) || 0) - (proxyFailureCount.get(b) || 0)
-        })
+            if (response.ok) {
+                const text = await readResponseText(response)
+                if (text && text.trim().length > 0) {
+                    console.log(`[RSS] 直接访问成功`)
+                    return { ...meta, text }
+                }
+                errors.push(`直接访问返回空内容`)
+            } else {
+                errors.push(`直接访问失败: ${response.status} ${response.statusText}`)
+            }
+        } catch (err) {
+            errors.push(`直接访问异常: ${(err as Error).message}`)
+        }
     }
 
-    for (const i of proxyIndices) {
-        const proxy = CORS_PROXIES[i]
-        const failures = proxyFailureCount.get(i) || 0
+    // 仅直连的订阅源不走代理
+    const proxyList = fetchMode === 'direct' ? [] : getProxyAttemptOrder(fetchMode === 'proxy' ? route.proxyId : undefined)
+    if (fetchMode === 'proxy' && proxyList.length === 0) {
+        errors.push('指定的代理不存在')
+    }
 
-        // 跳过连续失败超过 3 次的代理（除非是最后选择）
-        if (failures >= 3 && proxyIndices.filter(idx => (proxyFailureCount.get(idx) || 0) < 3).length > 0) {
-            console.log(`[RSS] 跳过代理 ${i + 1}（失败 ${failures} 次）`)
-            continue
-        }
+    // 尝试使用代理（上次成功的优先）
+    for (const [i, proxy] of proxyList.entries()) {
+        const label = `代理 ${proxy.name}`
 
         try {
-            const proxyUrl = proxy + encodeURIComponent(url)
-            console.log(`[RSS] 尝试代理 ${i + 1}/${CORS_PROXIES.length}: ${proxy}`)
+            const proxyUrl = buildProxyUrl(proxy.template, url)
+            console.log(`[RSS] 尝试代理 ${i + 1}/${proxyList.length}: ${proxy.name}`)
 
             // 添加 3 秒超时
             const controller = new AbortController()
@@ -106,43 +159,42 @@ async function fetchWithProxy(url: string): Promise<string> {
 
             const response = await fetch(proxyUrl, {
                 signal: controller.signal,
-                headers: { 'Accept': 'application/rss+xml, application/xml, text/xml' }
+                headers: { 'Accept': FEED_ACCEPT_HEADER }
             })
             clearTimeout(timeoutId)
 
             if (response.ok) {
-                const text = await response.text()
+                const text = await readResponseText(response)
 
                 // 验证响应内容不为空
                 if (!text || text.trim().length === 0) {
-                    errors.push(`代理 ${i + 1} 返回空内容`)
-                    proxyFailureCount.set(i, failures + 1)
+                    errors.push(`${label} 返回空内容`)
+                    recordProxyResult(proxy.id, false)
                     continue
                 }
 
-                // 验证响应内容看起来像XML
-                if (!text.trim().startsWith('<')) {
-                    errors.push(`代理 ${i + 1} 返回非XML内容: ${text.substring(0, 100)}`)
-                    proxyFailureCount.set(i, failures + 1)
+                // 验证响应内容看起来像 XML 或 JSON
+                if (!looksLikeFeed(text)) {
+                    errors.push(`${label} 返回非 Feed 内容: ${text.substring(0, 100)}`)
+                    recordProxyResult(proxy.id, false)
                     continue
                 }
 
-                console.log(`[RSS] 代理 ${i + 1} 成功`)
+                console.log(`[RSS] ${label} 成功`)
 
-                // 记住成功的代理
-                lastSuccessfulProxyIndex = i
-                proxyFailureCount.set(i, 0) // 重置失败计数
+                // 记住成功的代理并重置失败计数
+                recordProxyResult(proxy.id, true)
 
-                return text
+                return { text, status: response.status, redirect: getProxyRedirect(response) }
             } else {
-                errors.push(`代理 ${i + 1} HTTP错误: ${response.status}`)
-                proxyFailureCount.set(i, failures + 1)
+                errors.push(`${label} HTTP错误: ${response.status}`)
+                recordProxyResult(proxy.id, false)
             }
         } catch (err) {
             lastError = err as Error
             const errorMsg = err instanceof Error && err.name === 'AbortError' ? '超时(3s)' : lastError.message
-            errors.push(`代理 ${i + 1}: ${errorMsg}`)
-            proxyFailureCount.set(i, failures + 1)
+            errors.push(`${label}: ${errorMsg}`)
+            recordProxyResult(proxy.id, false)
             continue
         }
     }
@@ -153,117 +205,283 @@ async function fetchWithProxy(url: string): Promise<string> {
 }
 
 /**
- * 获取并解析 RSS Feed
+ * 抓取订阅源地址：rsshub:// 地址依次尝试已配置的 RSSHub 实例，其余地址直接抓取
+ * @returns 抓取结果及实际请求的地址
  */
-export async function fetchFeed(url: string): Promise<FeedData> {
-    const normalizedUrl = normalizeUrl(url)
-    const xmlText = await fetchWithProxy(normalizedUrl)
-    return parseRSS(xmlText)
+async function fetchSource(
+    url: string,
+    conditional?: ConditionalHeaders,
+    route: FetchRoute = {}
+): Promise<FetchResult & { url: string }> {
+    const trimmedUrl = url.trim()
+    if (!isRSSHubUrl(trimmedUrl)) {
+        return { ...(await fetchWithProxy(trimmedUrl, conditional, route)), url: trimmedUrl }
+    }
+
+    await loadRSSHubSettings()
+    const instances = getRSSHubAttemptOrder()
+    if (instances.length === 0) {
+        throw new Error('未配置可用的 RSSHub 实例')
+    }
+
+    const errors: string[] = []
+    for (const instance of instances) {
+        const instanceUrl = buildRSSHubInstanceUrl(trimmedUrl, instance)
+        try {
+            const result = await fetchWithProxy(instanceUrl, conditional, route)
+            recordRSSHubSuccess(instance.id)
+            // 实例内部的重定向与 rsshub:// 地址无关
+            return { ...result, url: instanceUrl, redirect: undefined }
+        } catch (err) {
+            console.warn(`[RSS] RSSHub 实例 ${instance.url} 抓取失败，尝试下一个`)
+            errors.push(`${instance.url}: ${(err as Error).message}`)
+        }
+    }
+
+    throw new Error(`所有 RSSHub 实例均抓取失败：${errors.join('; ')}`)
 }
 
 /**
- * 解析 RSS/Atom XML
+ * 在解析 Worker 中解析抓取到的内容：网页订阅源按抓取规则提取条目，其余按 Feed 解析
  */
-function parseRSS(xmlText: string): FeedData {
-    const parser = new DOMParser()
-    const doc = parser.parseFromString(xmlText, 'text/xml')
-
-    // 检查解析错误
-    const parseError = doc.querySelector('parsererror')
-    if (parseError) {
-        throw new Error('RSS 解析失败: ' + parseError.textContent)
+function parseFetchedContent(text: string, url: string, route: FetchRoute = {}, signal?: AbortSignal): Promise<FeedData> {
+    if (route.scrape) {
+        return runParserTask('scrapePage', { html: text, pageUrl: url, config: route.scrape }, signal)
     }
+    return runParserTask('parseFeed', { text, feedUrl: url }, signal)
+}
+
+/**
+ * 获取并解析 RSS Feed（或按抓取规则抓取网页）
+ * @param signal 中止时取消尚未完成的解析
+ */
+export async function fetchFeed(url: string, route?: FetchRoute, signal?: AbortSignal): Promise<FeedData> {
+    const { text, url: fetchedUrl } = await fetchSource(url, undefined, route)
+    return parseFetchedContent(text, fetchedUrl, route, signal)
+}
+
+/** 加载更早文章的结果 */
+export interface FeedHistoryResult {
+    items: FeedItem[]       // 新抓取到的更早条目
+    nextPageUrl?: string    // 下次继续加载的地址，为空表示已到最早一页
+    language?: string       // 订阅源语言（取自抓取到的页面）
+}
+
+// WordPress 的分页参数（/feed/?paged=2 为第二页）
+const WORDPRESS_PAGE_PARAM = 'paged'
 
-    // Atom 格式
-    const feedEl = doc.querySelector('feed')
-    if (feedEl) {
-        return parseAtom(feedEl)
+/**
+ * 是否为按 WordPress 约定构造的分页地址
+ */
+function isWordPressPageUrl(pageUrl: string): boolean {
+    try {
+        return new URL(pageUrl).searchParams.has(WORDPRESS_PAGE_PARAM)
+    } catch {
+        return false
     }
+}
 
-    // RSS 2.0 格式
-    const channelEl = doc.querySelector('channel')
-    if (channelEl) {
-        return parseRSS2(channelEl)
+/**
+ * 按 WordPress 的 ?paged=N 约定构造下一页地址
+ */
+function getWordPressNextPageUrl(pageUrl: string): string | undefined {
+    try {
+        const url = new URL(pageUrl)
+        const page = parseInt(url.searchParams.get(WORDPRESS_PAGE_PARAM) || '1', 10)
+        url.searchParams.set(WORDPRESS_PAGE_PARAM, String((Number.isNaN(page) ? 1 : page) + 1))
+        return url.href
+    } catch {
+        return undefined
     }
+}
 
-    throw new Error('无法识别的 Feed 格式')
+/**
+ * 条目的去重标识
+ */
+function getItemKey(item: FeedItem): string {
+    return item.guid || item.link || item.title || ''
 }
 
 /**
- * 解析 RSS 2.0
+ * 加载订阅源更早的文章：优先跟随 Feed 声明的分页链接（RFC 5005 rel="next" / "prev-archive"），
+ * 没有声明时按 WordPress 的 ?paged=N 约定翻页；某页没有新条目（如站点忽略分页参数）时视为已到最早一页
+ * @param fromUrl 上次加载停下的地址，为空时从订阅源当前内容开始
+ * @param limit 本次最多加载的条目数（达到后不再抓取下一页）
  */
-function parseRSS2(channel: Element): FeedData {
-    const getTextContent = (el: Element | null, selector: string): string | undefined => {
-        const child = el?.querySelector(selector)
-        return child?.textContent?.trim() || undefined
+export async function fetchFeedHistory(
+    url: string,
+    route: FetchRoute = {},
+    fromUrl?: string,
+    limit: number = BACKFILL_CONSTANTS.DEFAULT_LIMIT,
+    signal?: AbortSignal
+): Promise<FeedHistoryResult> {
+    const seen = new Set<string>()
+    let pageUrl = fromUrl
+    let language: string | undefined
+
+    if (!pageUrl) {
+        const current = await fetchFeed(url, route, signal)
+        current.items.forEach(item => seen.add(getItemKey(item)))
+        pageUrl = current.nextPageUrl ?? getWordPressNextPageUrl(url)
+        language = current.language
     }
 
-    const items = Array.from(channel.querySelectorAll('item')).map((item): FeedItem => ({
-        guid: getTextContent(item, 'guid') || getTextContent(item, 'link'),
-        title: getTextContent(item, 'title'),
-        link: getTextContent(item, 'link'),
-        pubDate: getTextContent(item, 'pubDate'),
-        creator: getTextContent(item, 'dc\\:creator') || getTextContent(item, 'creator'),
-        author: getTextContent(item, 'author'),
-        description: getTextContent(item, 'description'),
-        content: getTextContent(item, 'content\\:encoded') || getTextContent(item, 'encoded'),
-    }))
+    const items: FeedItem[] = []
+    for (let page = 0; pageUrl && page < BACKFILL_CONSTANTS.MAX_PAGES && items.length < limit; page++) {
+        let feedData: FeedData
+        try {
+            feedData = await fetchFeed(pageUrl, route, signal)
+        } catch (err) {
+            if (signal?.aborted) throw err
+            // 按约定猜测的地址抓取失败（WordPress 超出页数时返回 404）视为已到最早一页
+            if (isWordPressPageUrl(pageUrl)) return { items, language }
+            // 其他错误保留已加载的条目，下次从这一页继续
+            if (items.length > 0) return { items, nextPageUrl: pageUrl, language }
+            throw err
+        }
 
-    const imageUrl = getTextContent(channel, 'image > url')
+        language ??= feedData.language
+        const fresh = feedData.items.filter(item => !seen.has(getItemKey(item)))
+        if (fresh.length === 0) return { items, language }
+        fresh.forEach(item => seen.add(getItemKey(item)))
+        items.push(...fresh)
 
-    return {
-        title: getTextContent(channel, 'title') || 'Unknown Feed',
-        link: getTextContent(channel, 'link'),
-        description: getTextContent(channel, 'description'),
-        image: imageUrl ? { url: imageUrl } : undefined,
-        items,
+        pageUrl = feedData.nextPageUrl ?? (isWordPressPageUrl(pageUrl) ? getWordPressNextPageUrl(pageUrl) : undefined)
     }
+
+    console.log(`[RSS] 加载更早文章 ${items.length} 篇: ${url}`)
+    return { items, nextPageUrl: pageUrl, language }
 }
 
+/** 条件抓取结果：未变化时不解析内容，但仍返回响应中的 ETag / Last-Modified 供下次使用 */
+export type ConditionalFeedResult =
+    | { notModified: true; status: number; redirect?: FeedRedirect; etag?: string; lastModified?: string }
+    | {
+        notModified: false
+        status: number
+        redirect?: FeedRedirect
+        feedData: FeedData
+        etag?: string
+        lastModified?: string
+        contentHash: string
+    }
+
 /**
- * 解析 Atom
+ * 条件抓取 Feed：HTTP 304 或内容哈希与上次相同时跳过解析
+ * @param previous 上次抓取保存的 ETag / Last-Modified / 内容哈希
+ * @param route 抓取方式（直连 / 指定代理）
+ * @param signal 中止时取消尚未完成的解析
  */
-function parseAtom(feed: Element): FeedData {
-    const getTextContent = (el: Element | null, selector: string): string | undefined => {
-        const child = el?.querySelector(selector)
-        return child?.textContent?.trim() || undefined
+export async function fetchFeedConditional(
+    url: string,
+    previous: ConditionalHeaders & { contentHash?: string } = {},
+    route: FetchRoute = {},
+    signal?: AbortSignal
+): Promise<ConditionalFeedResult> {
+    const result = await fetchSource(url, previous, route)
+
+    if (result.status === 304) {
+        return {
+            notModified: true,
+            status: result.status,
+            redirect: result.redirect,
+            etag: result.etag,
+            lastModified: result.lastModified,
+        }
     }
 
-    const getLinkHref = (el: Element | null, rel?: string): string | undefined => {
-        const links = el?.querySelectorAll('link')
-        if (!links) return undefined
-
-        for (const link of links) {
-            if (!rel || link.getAttribute('rel') === rel || (!link.getAttribute('rel') && rel === 'alternate')) {
-                return link.getAttribute('href') || undefined
-            }
+    const contentHash = hashString(result.text)
+    if (previous.contentHash && previous.contentHash === contentHash) {
+        console.log(`[RSS] 内容哈希未变化，跳过解析: ${url}`)
+        return {
+            notModified: true,
+            status: result.status,
+            redirect: result.redirect,
+            etag: result.etag,
+            lastModified: result.lastModified,
         }
-        return undefined
     }
 
-    const items = Array.from(feed.querySelectorAll('entry')).map((entry): FeedItem => ({
-        guid: getTextContent(entry, 'id'),
-        title: getTextContent(entry, 'title'),
-        link: getLinkHref(entry, 'alternate') || getLinkHref(entry),
-        pubDate: getTextContent(entry, 'published') || getTextContent(entry, 'updated'),
-        author: getTextContent(entry, 'author > name'),
-        content: getTextContent(entry, 'content') || getTextContent(entry, 'summary'),
+    return {
+        notModified: false,
+        status: result.status,
+        redirect: result.redirect,
+        feedData: await parseFetchedContent(result.text, result.url, route, signal),
+        etag: result.etag,
+        lastModified: result.lastModified,
+        contentHash,
+    }
+}
+
+/** 订阅源发现结果 */
+export interface FeedCandidate extends FeedLink {
+    feedData?: FeedData   // 已抓取并解析的内容（直接是 Feed 或探测常见路径时获得）
+}
+
+// 发现订阅源时探测的常见路径（与页面声明的 Feed 合并）
+const COMMON_FEED_PATHS = ['/feed', '/rss.xml', '/atom.xml', '/index.xml']
+
+/**
+ * 判断抓取到的内容是否为 HTML 页面（而非 Feed）
+ */
+function isHtmlDocument(text: string): boolean {
+    const head = text.trim().slice(0, 1000)
+    if (/<(rss|feed|rdf:RDF)[\s>]/i.test(head)) return false
+    return /<!doctype html|<html[\s>]/i.test(head)
+}
+
+/**
+ * 探测站点的常见 Feed 路径，返回可成功解析的地址
+ */
+async function probeCommonFeedPaths(pageUrl: string): Promise<FeedCandidate[]> {
+    const origin = new URL(pageUrl).origin
+
+    const results = await Promise.allSettled(COMMON_FEED_PATHS.map(async (path): Promise<FeedCandidate> => {
+        const url = origin + path
+        const { text } = await fetchWithProxy(url)
+        if (isHtmlDocument(text)) throw new Error('不是 Feed')
+        const feedData = await runParserTask('parseFeed', { text, feedUrl: url }, undefined, 'interactive')
+        return { url, title: feedData.title, feedData }
     }))
 
-    return {
-        title: getTextContent(feed, 'title') || 'Unknown Feed',
-        link: getLinkHref(feed, 'alternate') || getLinkHref(feed),
-        description: getTextContent(feed, 'subtitle'),
-        items,
+    return results
+        .filter((r): r is PromiseFulfilledResult<FeedCandidate> => r.status === 'fulfilled')
+        .map(r => r.value)
+}
+
+/**
+ * 发现订阅源：URL 本身是 Feed 时直接返回；是网页时扫描声明的 Feed 链接并探测常见路径，
+ * 两者合并后按地址去重（声明的在前；同一地址探测时已抓取的内容一并保留）
+ * @returns 候选订阅源列表（可能为空）
+ */
+export async function discoverFeeds(url: string): Promise<FeedCandidate[]> {
+    const { text, url: fetchedUrl } = await fetchSource(url)
+
+    if (!isHtmlDocument(text)) {
+        const feedData = await runParserTask('parseFeed', { text, feedUrl: fetchedUrl }, undefined, 'interactive')
+        return [{ url: url.trim(), title: feedData.title, feedData }]
+    }
+
+    console.log(`[RSS] ${fetchedUrl} 是网页，开始发现订阅源`)
+    const [declared, probed] = await Promise.all([
+        runParserTask('extractFeedLinks', { html: text, pageUrl: fetchedUrl }, undefined, 'interactive'),
+        probeCommonFeedPaths(fetchedUrl),
+    ])
+
+    const found: FeedCandidate[] = [...declared, ...probed]
+    const candidates = new Map<string, FeedCandidate>()
+    for (const candidate of found) {
+        const key = canonicalizeUrl(candidate.url)
+        const existing = candidates.get(key)
+        candidates.set(key, existing ? { ...existing, feedData: existing.feedData ?? candidate.feedData } : candidate)
     }
+    return [...candidates.values()]
 }
 
 /**
  * 获取文章全文内容（用于阅读视图）
  */
 export async function fetchArticleContent(url: string): Promise<string> {
-    const html = await fetchWithProxy(url)
-    return html
+    const { text } = await fetchWithProxy(url)
+    return text
 }
-
-
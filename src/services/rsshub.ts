@@ -0,0 +1,181 @@
+/**
+ * RSSHub 服务
+ * rsshub:// 地址按配置的实例依次尝试，上次成功的实例优先；实例列表持久化在 settings 表
+ */
+import { dbHelpers } from '@/db'
+import type { RSSHubInstance } from '@/types'
+import { generateUUID } from '@/utils/uuid'
+
+// settings 表中的 key
+const INSTANCE_LIST_KEY = 'rsshubInstances'
+const LAST_SUCCESSFUL_INSTANCE_KEY = 'lastSuccessfulRSSHubId'
+
+/** RSSHub 地址协议前缀 */
+export const RSSHUB_PROTOCOL = 'rsshub://'
+
+// 默认实例（官方实例有频率限制，建议添加自建实例）
+const DEFAULT_INSTANCES: RSSHubInstance[] = [
+    { id: 'official', url: 'https://rsshub.app', enabled: true },
+]
+
+// 内存缓存
+let instances: RSSHubInstance[] = DEFAULT_INSTANCES
+let lastSuccessfulInstanceId: string | null = null
+let loadPromise: Promise<void> | null = null
+
+/**
+ * 从数据库加载 RSSHub 实例配置（只加载一次）
+ */
+export function loadRSSHubSettings(): Promise<void> {
+    if (!loadPromise) {
+        loadPromise = (async () => {
+            try {
+                const [storedList, storedLast] = await Promise.all([
+                    dbHelpers.getSetting<RSSHubInstance[]>(INSTANCE_LIST_KEY),
+                    dbHelpers.getSetting<string>(LAST_SUCCESSFUL_INSTANCE_KEY),
+                ])
+                if (storedList) instances = storedList
+                if (storedLast) lastSuccessfulInstanceId = storedLast
+            } catch (err) {
+                console.error('[RSSHub] Failed to load instances:', err)
+            }
+        })()
+    }
+    return loadPromise
+}
+
+/**
+ * 获取实例列表
+ */
+export function getRSSHubInstances(): RSSHubInstance[] {
+    return instances
+}
+
+/**
+ * 保存实例列表
+ */
+export async function saveRSSHubInstances(list: RSSHubInstance[]): Promise<void> {
+    instances = list
+    await dbHelpers.setSetting(INSTANCE_LIST_KEY, list)
+}
+
+/**
+ * 恢复默认实例列表
+ */
+export async function resetRSSHubInstances(): Promise<RSSHubInstance[]> {
+    await saveRSSHubInstances(DEFAULT_INSTANCES)
+    return DEFAULT_INSTANCES
+}
+
+/**
+ * 创建新的实例配置（去掉末尾斜杠）
+ */
+export function createRSSHubInstance(url: string, accessKey?: string): RSSHubInstance {
+    return {
+        id: generateUUID(),
+        url: url.trim().replace(/\/+$/, ''),
+        accessKey: accessKey?.trim() || undefined,
+        enabled: true,
+    }
+}
+
+/**
+ * 是否为 rsshub:// 地址
+ */
+export function isRSSHubUrl(url: string): boolean {
+    return url.trim().startsWith(RSSHUB_PROTOCOL)
+}
+
+/**
+ * 将 rsshub:// 地址转换为指定实例上的实际地址（有访问密钥时附加 key 参数）
+ */
+export function buildRSSHubInstanceUrl(rsshubUrl: string, instance: RSSHubInstance): string {
+    const route = rsshubUrl.trim().slice(RSSHUB_PROTOCOL.length).replace(/^\/+/, '')
+    const url = `${instance.url.replace(/\/+$/, '')}/${route}`
+    if (!instance.accessKey) return url
+
+    const separator = url.includes('?') ? '&' : '?'
+    return `${url}${separator}key=${encodeURIComponent(instance.accessKey)}`
+}
+
+/**
+ * 获取本次抓取应尝试的实例（上次成功的优先）
+ */
+export function getRSSHubAttemptOrder(): RSSHubInstance[] {
+    return instances
+        .filter(instance => instance.enabled)
+        .sort((a, b) => {
+            if (a.id === lastSuccessfulInstanceId) return -1
+            if (b.id === lastSuccessfulInstanceId) return 1
+            return 0
+        })
+}
+
+/**
+ * 记录抓取成功的实例并持久化
+ */
+export function recordRSSHubSuccess(instanceId: string): void {
+    if (lastSuccessfulInstanceId === instanceId) return
+    lastSuccessfulInstanceId = instanceId
+    dbHelpers.setSetting(LAST_SUCCESSFUL_INSTANCE_KEY, instanceId)
+        .catch(err => console.error('[RSSHub] Failed to save last instance:', err))
+}
+
+/** 路由模板参数 */
+export interface RSSHubRouteParam {
+    key: string
+    label: string
+    placeholder: string
+}
+
+/** 常用路由模板 */
+export interface RSSHubRouteTemplate {
+    id: string
+    name: string
+    path: string           // 路由路径，:key 为参数占位符
+    params: RSSHubRouteParam[]
+}
+
+export const RSSHUB_ROUTE_TEMPLATES: RSSHubRouteTemplate[] = [
+    {
+        id: 'github-release',
+        name: 'GitHub 仓库 Releases',
+        path: '/github/release/:user/:repo',
+        params: [
+            { key: 'user', label: '用户/组织', placeholder: 'DIYgod' },
+            { key: 'repo', label: '仓库名', placeholder: 'RSSHub' },
+        ],
+    },
+    {
+        id: 'bilibili-user',
+        name: 'B 站 UP 主投稿',
+        path: '/bilibili/user/video/:uid',
+        params: [{ key: 'uid', label: '用户 UID', placeholder: '2267573' }],
+    },
+    {
+        id: 'weibo-user',
+        name: '微博用户',
+        path: '/weibo/user/:uid',
+        params: [{ key: 'uid', label: '用户 UID', placeholder: '1195230310' }],
+    },
+    {
+        id: 'zhihu-zhuanlan',
+        name: '知乎专栏',
+        path: '/zhihu/zhuanlan/:id',
+        params: [{ key: 'id', label: '专栏 ID', placeholder: 'zhihuadmin' }],
+    },
+]
+
+/**
+ * 根据模板和参数生成 rsshub:// 地址
+ * @returns 参数不完整时返回 null
+ */
+export function buildRSSHubRoute(template: RSSHubRouteTemplate, values: Record<string, string>): string | null {
+    let path = template.path
+    for (const param of template.params) {
+        const value = values[param.key]?.trim()
+        if (!value) return null
+        path = path.replace(`:${param.key}`, encodeURIComponent(value))
+    }
+    return RSSHUB_PROTOCOL + path.replace(/^\/+/, '')
+}
@@ -0,0 +1,135 @@
+/**
+ * 网页订阅源 - 按 CSS 选择器从普通网页中提取条目，转换为与 RSS 相同的 FeedData
+ * 只依赖 linkedom，主线程与解析 Worker 共用
+ */
+import type { ScrapeConfig } from '@/types'
+import type { FeedData, FeedItem } from '@/services/feedParser'
+import { parseHtmlDocument } from '@/utils/dom'
+import { resolveUrl } from '@/utils/url'
+
+// 推荐条目选择器时，重复元素至少出现的次数
+const MIN_REPEATED_ITEMS = 3
+
+/**
+ * 在条目容器内查找字段元素；选择器无效时抛出可读的错误
+ */
+function queryField(container: Element, selector: string | undefined, field: string): Element | null {
+    if (!selector?.trim()) return null
+    try {
+        return container.querySelector(selector)
+    } catch {
+        throw new Error(`${field}选择器无效: ${selector}`)
+    }
+}
+
+/**
+ * 读取条目链接：指定选择器 > 容器本身是链接 > 容器内第一个链接
+ */
+function findLinkElement(container: Element, config: ScrapeConfig): Element | null {
+    if (config.linkSelector?.trim()) return queryField(container, config.linkSelector, '链接')
+    if (container.tagName === 'A' && container.hasAttribute('href')) return container
+    return container.querySelector('a[href]')
+}
+
+/**
+ * 读取时间文本：优先使用 <time datetime> 等机器可读属性
+ */
+function readDate(el: Element | null): string | undefined {
+    if (!el) return undefined
+    return el.getAttribute('datetime')?.trim()
+        || el.getAttribute('content')?.trim()
+        || el.textContent?.trim()
+        || undefined
+}
+
+/**
+ * 按抓取规则从网页 HTML 中提取条目
+ * @param pageUrl 网页地址，用于解析相对链接（页面自带 <base> 时以其为准）
+ */
+export function scrapeFeed(html: string, pageUrl: string, config: ScrapeConfig): FeedData {
+    const doc = parseHtmlDocument(html)
+    const baseHref = doc.querySelector('base[href]')?.getAttribute('href')
+    const baseUrl = baseHref ? resolveUrl(baseHref, pageUrl) : pageUrl
+
+    let containers: Element[]
+    try {
+        containers = Array.from(doc.querySelectorAll(config.itemSelector))
+    } catch {
+        throw new Error(`条目选择器无效: ${config.itemSelector}`)
+    }
+
+    const items = containers.map((container): FeedItem | null => {
+        const linkEl = findLinkElement(container, config)
+        const link = resolveUrl(linkEl?.getAttribute('href') || undefined, baseUrl)
+        const titleEl = queryField(container, config.titleSelector, '标题') ?? linkEl
+        const title = titleEl?.textContent?.replace(/\s+/g, ' ').trim()
+        // 既没有链接也没有标题的容器不是有效条目
+        if (!link && !title) return null
+
+        const summaryEl = queryField(container, config.summarySelector, '摘要')
+        const image = container.querySelector('img[src]')?.getAttribute('src') || undefined
+        return {
+            guid: link || title,
+            title,
+            link,
+            pubDate: readDate(queryField(container, config.dateSelector, '时间')),
+            description: summaryEl?.innerHTML.trim() || undefined,
+            image: resolveUrl(image, baseUrl),
+            baseUrl,
+        }
+    }).filter((item): item is FeedItem => item !== null)
+
+    const icon = doc.querySelector('link[rel~="icon"][href]')?.getAttribute('href') || undefined
+    return {
+        title: doc.querySelector('title')?.textContent?.trim() || pageUrl,
+        link: pageUrl,
+        description: doc.querySelector('meta[name="description"]')?.getAttribute('content')?.trim() || undefined,
+        image: icon ? { url: resolveUrl(icon, baseUrl) } : undefined,
+        items,
+    }
+}
+
+/**
+ * 元素的简单选择器签名：标签名 + 前两个 class（忽略含特殊字符的 class）
+ */
+function getSignature(el: Element): string {
+    const classes = (el.getAttribute('class') || '')
+        .split(/\s+/)
+        .filter(c => /^[A-Za-z_][\w-]*$/.test(c))
+        .slice(0, 2)
+    return el.tagName.toLowerCase() + classes.map(c => `.${c}`).join('')
+}
+
+/**
+ * 推荐条目容器选择器：从每个链接向上查找与兄弟节点结构相同的重复元素，按重复次数排序
+ */
+export function suggestItemSelectors(html: string, limit = 5): string[] {
+    const doc = parseHtmlDocument(html)
+    doc.querySelectorAll('script, style, nav, header, footer').forEach(el => el.remove())
+
+    const groups = new Map<string, Set<Element>>()
+    for (const link of Array.from(doc.querySelectorAll('a[href]'))) {
+        for (let el: Element | null = link; el && el !== doc.body; el = el.parentElement) {
+            const parent = el.parentElement
+            if (!parent) break
+
+            const signature = getSignature(el)
+            const repeated = Array.from(parent.children).filter(sibling => getSignature(sibling) === signature)
+            if (repeated.length < MIN_REPEATED_ITEMS) continue
+
+            const parentId = parent.getAttribute('id')
+            const parentSignature = parentId && /^[A-Za-z][\w-]*$/.test(parentId) ? `#${parentId}` : getSignature(parent)
+            const selector = `${parentSignature} > ${signature}`
+            const group = groups.get(selector) ?? new Set<Element>()
+            group.add(el)
+            groups.set(selector, group)
+            break
+        }
+    }
+
+    return [...groups.entries()]
+        .filter(([, elements]) => elements.size >= MIN_REPEATED_ITEMS)
+        .sort((a, b) => b[1].size - a[1].size)
+        .slice(0, limit)
+        .map(([selector]) => selector)
+}
@@ -0,0 +1,711 @@
+/**
+ * 多设备同步 - 通过 WebDAV 或本地文件夹同步订阅源、阅读状态、收藏文章与笔记
+ * dbHelpers 的写操作经数据变更钩子记入 syncRecords 表（每条数据一条最新记录，删除记为墓碑）；
+ * 同步时每台设备上传自己产生的记录到 folo-sync-<设备 ID>.json，下载其他设备的记录按最后写入者胜合并
+ */
+import { db, dbHelpers, onDataChange, type DataChange } from '@/db'
+import type { Article, Feed, Note, StarredArticle, SyncRecord } from '@/types'
+import { isNewsletterUrl } from '@/services/newsletter'
+import { generateUUID } from '@/utils/uuid'
+import { SYNC_CONSTANTS } from '@/utils/constants'
+
+// 配置存储 key
+const SYNC_CONFIG_KEY = 'folo_sync_config'
+export const SYNC_STATUS_KEY = 'folo_sync_status'
+export const SYNC_DEVICE_ID_KEY = 'folo_sync_device_id'
+
+// settings 表中的 key
+export const SYNC_FOLDER_KEY = 'syncFolderHandle'
+const SYNC_SNAPSHOT_KEY = 'syncSnapshotDeviceId'
+
+// 同步文件格式
+const SYNC_FILE_FORMAT = 'folo-sync'
+const SYNC_FILE_VERSION = 1
+const SYNC_FILE_PATTERN = /^folo-sync-[\w-]+\.json$/
+
+const DAY = 24 * 60 * 60 * 1000
+
+/** 同步目标：WebDAV 服务 / 本地文件夹（如网盘客户端同步的目录） */
+export type SyncTargetType = 'webdav' | 'folder'
+
+/** 同步设置 */
+export interface SyncConfig {
+    enabled: boolean
+    target: SyncTargetType
+    webdavUrl: string     // WebDAV 目录地址
+    username: string
+    password: string
+    interval: number      // 自动同步间隔（分钟，0 为仅手动同步）
+}
+
+const DEFAULT_SYNC_CONFIG: SyncConfig = {
+    enabled: false,
+    target: 'webdav',
+    webdavUrl: '',
+    username: '',
+    password: '',
+    interval: SYNC_CONSTANTS.DEFAULT_INTERVAL,
+}
+
+/** 可选的自动同步间隔（分钟，0 为仅手动） */
+export const SYNC_INTERVAL_OPTIONS = [
+    { value: 0, label: '仅手动' },
+    { value: 5, label: '5 分钟' },
+    { value: 15, label: '15 分钟' },
+    { value: 60, label: '1 小时' },
+]
+
+/** 最近一次同步的状态 */
+export interface SyncStatus {
+    lastSyncAt?: number
+    lastAttemptAt?: number  // 最近一次尝试同步的时间（含失败）
+    lastError?: string
+    pushed?: number
+    pulled?: number
+}
+
+/** 同步结果 */
+export interface SyncResult {
+    pushed: number          // 上传的本设备记录数
+    pulled: number          // 合并到本地的其他设备记录数
+    addedFeedIds: string[]  // 从其他设备新增的订阅源（需要抓取文章）
+}
+
+/** 上传到同步目标的文件内容 */
+interface SyncFile {
+    format: typeof SYNC_FILE_FORMAT
+    version: number
+    deviceId: string
+    updatedAt: number
+    records: SyncRecord[]
+}
+
+/** 同步目标的文件读写 */
+interface SyncTarget {
+    list(): Promise<string[]>
+    read(name: string): Promise<string>
+    write(name: string, content: string): Promise<void>
+}
+
+// 参与同步的订阅源字段（抓取状态、代理等设备相关字段不同步）
+type SyncedFeedField =
+    'title' | 'url' | 'siteUrl' | 'category' | 'aiFilter' | 'refreshInterval' | 'scrape' | 'retention' | 'previousUrls'
+
+// 每个同步字段都必须出现（未设置时为 undefined），合并时据此清除其他设备已清空的字段
+type SyncedFeed = { [K in SyncedFeedField]: Feed[K] }
+
+/**
+ * 获取同步设置
+ */
+export function getSyncConfig(): SyncConfig {
+    try {
+        const saved = localStorage.getItem(SYNC_CONFIG_KEY)
+        return saved ? { ...DEFAULT_SYNC_CONFIG, ...JSON.parse(saved) } : DEFAULT_SYNC_CONFIG
+    } catch {
+        return DEFAULT_SYNC_CONFIG
+    }
+}
+
+/**
+ * 保存同步设置（关闭同步后不再记录变更，重新开启时需要重新为已有数据生成记录）
+ */
+export async function saveSyncConfig(config: SyncConfig): Promise<void> {
+    localStorage.setItem(SYNC_CONFIG_KEY, JSON.stringify(config))
+    if (!config.enabled) await db.settings.delete(SYNC_SNAPSHOT_KEY)
+}
+
+/**
+ * 获取最近一次同步的状态
+ */
+export function getSyncStatus(): SyncStatus {
+    try {
+        return JSON.parse(localStorage.getItem(SYNC_STATUS_KEY) || '{}')
+    } catch {
+        return {}
+    }
+}
+
+function saveSyncStatus(status: SyncStatus): void {
+    localStorage.setItem(SYNC_STATUS_KEY, JSON.stringify(status))
+}
+
+/**
+ * 本设备的同步 ID（首次使用时生成）
+ */
+export function getDeviceId(): string {
+    let deviceId = localStorage.getItem(SYNC_DEVICE_ID_KEY)
+    if (!deviceId) {
+        deviceId = generateUUID()
+        localStorage.setItem(SYNC_DEVICE_ID_KEY, deviceId)
+    }
+    return deviceId
+}
+
+function getSyncFileName(deviceId: string): string {
+    return `folo-sync-${deviceId}.json`
+}
+
+/**
+ * 是否应该执行自动同步
+ */
+export function isAutoSyncDue(now = Date.now()): boolean {
+    const config = getSyncConfig()
+    if (!config.enabled || config.interval <= 0) return false
+    const { lastSyncAt, lastAttemptAt } = getSyncStatus()
+    const last = lastAttemptAt ?? lastSyncAt
+    return !last || now - last >= config.interval * 60 * 1000
+}
+
+/** ========== 变更记录 ========== */
+
+/**
+ * 取出订阅源的同步字段（同步文件为 JSON，未设置的字段不会出现，读取记录时同样经此补齐）
+ */
+function pickSyncedFeed(feed: Pick<Feed, SyncedFeedField>): SyncedFeed {
+    const { title, url, siteUrl, category, aiFilter, refreshInterval, scrape, retention, previousUrls } = feed
+    return { title, url, siteUrl, category, aiFilter, refreshInterval, scrape, retention, previousUrls }
+}
+
+function feedKey(url: string): string {
+    return `feed:${url}`
+}
+
+/**
+ * 文章的跨设备标识：订阅源 URL + 条目标识哈希（文章 ID 中订阅源 ID 之后的部分）
+ */
+function getArticleRef(article: Pick<Article, 'id' | 'feedId'>, feedUrl: string): string | undefined {
+    const prefix = `${article.feedId}:`
+    if (!article.id.startsWith(prefix)) return undefined
+    return `${feedUrl}#${article.id.slice(prefix.length)}`
+}
+
+/**
+ * 由跨设备标识解析本地的订阅源与文章 ID（本地没有该订阅源时 feed 为空）
+ */
+function resolveArticleRef(ref: string, feedsByUrl: Map<string, Feed>): { feed?: Feed; articleId?: string } {
+    const index = ref.lastIndexOf('#')
+    const feed = feedsByUrl.get(ref.slice(0, index))
+    return { feed, articleId: feed ? `${feed.id}:${ref.slice(index + 1)}` : undefined }
+}
+
+/**
+ * 笔记写入同步记录前，把文章引用的本地 ID 换成跨设备标识（订阅源 ID 按设备生成，其他设备无法识别）
+ */
+function toSyncedNote(note: Note, feedUrlById: Map<string, string>): Note {
+    if (!note.references) return note
+    return {
+        ...note,
+        references: note.references.map(ref => {
+            if (ref.type !== 'article') return ref
+            const feedId = ref.id.slice(0, ref.id.indexOf(':'))
+            const feedUrl = feedUrlById.get(feedId)
+            const articleRef = feedUrl && getArticleRef({ id: ref.id, feedId }, feedUrl)
+            return articleRef ? { ...ref, id: articleRef } : ref
+        }),
+    }
+}
+
+/**
+ * 把同步记录中笔记的文章引用解析回本地文章 ID（本地没有对应订阅源时保留跨设备标识）
+ */
+function fromSyncedNote(note: Note, feedsByUrl: Map<string, Feed>): Note {
+    if (!note.references) return note
+    return {
+        ...note,
+        references: note.references.map(ref => {
+            if (ref.type !== 'article' || !ref.id.includes('#')) return ref
+            const { articleId } = resolveArticleRef(ref.id, feedsByUrl)
+            return articleId ? { ...ref, id: articleId } : ref
+        }),
+    }
+}
+
+/**
+ * 把一次数据变更转为同步记录
+ */
+async function toSyncRecords(change: DataChange, deviceId: string, now: number): Promise<SyncRecord[]> {
+    const record = (key: string, type: SyncRecord['type'], data?: unknown): SyncRecord => (
+        data === undefined
+            ? { key, type, updatedAt: now, deviceId, deleted: true }
+            : { key, type, updatedAt: now, deviceId, data }
+    )
+
+    switch (change.table) {
+        case 'feeds': {
+            const { before, after } = change
+            const records: SyncRecord[] = []
+            // 邮件订阅源的文章来自本地导入的邮件，不同步
+            if (after && !isNewsletterUrl(after.url)) {
+                const synced = pickSyncedFeed(after)
+                if (!before || JSON.stringify(pickSyncedFeed(before)) !== JSON.stringify(synced)) {
+                    records.push(record(feedKey(after.url), 'feed', synced))
+                }
+            }
+            if (before && !isNewsletterUrl(before.url) && before.url !== after?.url) {
+                records.push(record(feedKey(before.url), 'feed'))
+            }
+            return records
+        }
+        case 'articles': {
+            const { before, after } = change
+            if (!after?.isRead || before?.isRead) return []
+            const feed = await db.feeds.get(after.feedId)
+            const ref = feed && getArticleRef(after, feed.url)
+            return ref ? [record(`read:${ref}`, 'read', { isRead: true })] : []
+        }
+        case 'starredArticles': {
+            const article = change.after ?? change.before
+            if (!article) return []
+            const feed = await db.feeds.get(article.feedId)
+            const ref = feed && getArticleRef(article, feed.url)
+            return ref ? [record(`star:${ref}`, 'star', change.after)] : []
+        }
+        case 'notes': {
+            const note = change.after ?? change.before
+            if (!note) return []
+            if (!change.after) return [record(`note:${note.id}`, 'note')]
+            const feedUrlById = new Map((await db.feeds.toArray()).map(feed => [feed.id, feed.url]))
+            return [record(`note:${note.id}`, 'note', toSyncedNote(change.after, feedUrlById))]
+        }
+    }
+}
+
+/**
+ * 记录数据变更（未开启同步时忽略）
+ */
+async function recordDataChanges(changes: DataChange[]): Promise<void> {
+    if (!getSyncConfig().enabled) return
+    const deviceId = getDeviceId()
+    const now = Date.now()
+
+    const records: SyncRecord[] = []
+    for (const change of changes) records.push(...await toSyncRecords(change, deviceId, now))
+    if (records.length > 0) await db.syncRecords.bulkPut(records)
+}
+
+/**
+ * 开始记录 dbHelpers 的写操作，返回停止记录的函数
+ */
+export function startSyncRecorder(): () => void {
+    return onDataChange(changes => {
+        recordDataChanges(changes).catch(err => console.error('[Sync] Failed to record changes:', err))
+    })
+}
+
+/**
+ * 首次同步前为已有数据生成记录（开启同步之前的数据没有经过变更钩子）
+ */
+async function ensureSnapshot(deviceId: string): Promise<void> {
+    if (await dbHelpers.getSetting<string>(SYNC_SNAPSHOT_KEY) === deviceId) return
+
+    const now = Date.now()
+    const [feeds, readArticles, starred, notes] = await Promise.all([
+        db.feeds.toArray(),
+        db.articles.filter(article => article.isRead).toArray(),
+        db.starredArticles.toArray(),
+        db.notes.toArray(),
+    ])
+    const feedUrlById = new Map(feeds.map(feed => [feed.id, feed.url]))
+    const articleRecords = (articles: Article[], type: 'read' | 'star', getTime: (article: Article) => number) =>
+        articles.flatMap(article => {
+            const feedUrl = feedUrlById.get(article.feedId)
+            const ref = feedUrl && getArticleRef(article, feedUrl)
+            if (!ref) return []
+            const data = type === 'read' ? { isRead: true } : article
+            return [{ key: `${type}:${ref}`, type, updatedAt: getTime(article), deviceId, data } as SyncRecord]
+        })
+
+    const records: SyncRecord[] = [
+        ...feeds
+            .filter(feed => !isNewsletterUrl(feed.url))
+            .map(feed => ({ key: feedKey(feed.url), type: 'feed' as const, updatedAt: feed.createdAt, deviceId, data: pickSyncedFeed(feed) })),
+        ...articleRecords(readArticles, 'read', () => now),
+        ...articleRecords(starred, 'star', article => (article as StarredArticle).starredAt),
+        ...notes.map(note => ({
+            key: `note:${note.id}`,
+            type: 'note' as const,
+            updatedAt: note.updatedAt,
+            deviceId,
+            data: toSyncedNote(note, feedUrlById),
+        })),
+    ]
+
+    // 已有记录（如其他设备同步来的）保持不变
+    const existing = new Set(await db.syncRecords.toCollection().primaryKeys())
+    await db.syncRecords.bulkPut(records.filter(record => !existing.has(record.key)))
+    await dbHelpers.setSetting(SYNC_SNAPSHOT_KEY, deviceId)
+    console.log(`[Sync] 已为现有数据生成 ${records.length} 条同步记录`)
+}
+
+/** ========== 合并 ========== */
+
+/**
+ * 最后写入者胜：更新时间较新的记录胜出，时间相同时按设备 ID 决定，保证各设备结果一致
+ */
+function isNewer(incoming: SyncRecord, local?: SyncRecord): boolean {
+    if (!local) return true
+    if (incoming.updatedAt !== local.updatedAt) return incoming.updatedAt > local.updatedAt
+    return incoming.deviceId > local.deviceId
+}
+
+/**
+ * 把其他设备的记录写入本地数据（直接写表，不经过 dbHelpers，避免再次被记录为本设备的变更）
+ */
+async function applyRecord(
+    record: SyncRecord,
+    feedsByUrl: Map<string, Feed>,
+    addedFeedIds: string[]
+): Promise<void> {
+    switch (record.type) {
+        case 'feed': {
+            if (record.deleted) {
+                const feed = feedsByUrl.get(record.key.slice('feed:'.length))
+                if (!feed) return
+                const articleIds = await db.articles.where('feedId').equals(feed.id).primaryKeys()
+                await db.feeds.delete(feed.id)
+                await db.articles.bulkDelete(articleIds)
+                await db.articleContents.bulkDelete(articleIds)
+                feedsByUrl.delete(feed.url)
+                return
+            }
+
+            // 缺失的字段即其他设备上已清空，更新时一并清除
+            const synced = pickSyncedFeed(record.data as Pick<Feed, SyncedFeedField>)
+            // 其他设备上迁移了地址的订阅源，按旧地址找到本地订阅源
+            const local = feedsByUrl.get(synced.url)
+                ?? synced.previousUrls?.map(url => feedsByUrl.get(url)).find(Boolean)
+            if (local) {
+                const changes: Partial<Feed> = { ...synced }
+                if (local.url !== synced.url) {
+                    changes.etag = undefined
+                    changes.lastModified = undefined
+                    changes.contentHash = undefined
+                    changes.nextRefreshAt = undefined
+                    feedsByUrl.delete(local.url)
+                }
+                await db.feeds.update(local.id, changes)
+                feedsByUrl.set(synced.url, { ...local, ...changes })
+            } else {
+                const feed: Feed = { ...synced, id: generateUUID(), createdAt: Date.now() }
+                await db.feeds.add(feed)
+                feedsByUrl.set(feed.url, feed)
+                addedFeedIds.push(feed.id)
+            }
+            return
+        }
+        case 'read': {
+            const { articleId } = resolveArticleRef(record.key.slice('read:'.length), feedsByUrl)
+            if (articleId && !record.deleted) await db.articles.update(articleId, { isRead: true })
+            return
+        }
+        case 'star': {
+            const { feed, articleId } = resolveArticleRef(record.key.slice('star:'.length), feedsByUrl)
+            const starred = record.data as StarredArticle | undefined
+            const id = articleId ?? starred?.id
+            if (!id) return
+            if (record.deleted || !starred) {
+                await db.starredArticles.delete(id)
+                await db.articles.update(id, { isStarred: false })
+            } else {
+                await db.starredArticles.put({ ...starred, id, feedId: feed?.id ?? starred.feedId })
+                await db.articles.update(id, { isStarred: true })
+            }
+            return
+        }
+        case 'note': {
+            const noteId = record.key.slice('note:'.length)
+            if (record.deleted) {
+                await db.notes.delete(noteId)
+            } else {
+                await db.notes.put(fromSyncedNote(record.data as Note, feedsByUrl))
+            }
+            return
+        }
+    }
+}
+
+// 合并顺序：先新增/更新订阅源，再处理订阅源删除（迁移地址时旧地址的墓碑不应删掉已迁移的订阅源），最后是文章与笔记
+function getApplyOrder(record: SyncRecord): number {
+    if (record.type !== 'feed') return 2
+    return record.deleted ? 1 : 0
+}
+
+/**
+ * 合并其他设备的记录，返回胜出并写入本地的记录数
+ */
+async function mergeRemoteRecords(remote: SyncRecord[]): Promise<{ pulled: number; addedFeedIds: string[] }> {
+    // 同一条数据在多台设备上都有记录时，先在远端记录之间取最新
+    const latest = new Map<string, SyncRecord>()
+    for (const record of remote) {
+        if (isNewer(record, latest.get(record.key))) latest.set(record.key, record)
+    }
+
+    const incoming = [...latest.values()]
+    const local = await db.syncRecords.bulkGet(incoming.map(record => record.key))
+    const winners = incoming
+        .filter((record, i) => isNewer(record, local[i]))
+        .sort((a, b) => getApplyOrder(a) - getApplyOrder(b))
+
+    const addedFeedIds: string[] = []
+    if (winners.length === 0) return { pulled: 0, addedFeedIds }
+
+    const tables = [db.feeds, db.articles, db.articleContents, db.starredArticles, db.notes, db.syncRecords]
+    await db.transaction('rw', tables, async () => {
+        const feedsByUrl = new Map((await db.feeds.toArray()).map(feed => [feed.url, feed]))
+        for (const record of winners) {
+            await applyRecord(record, feedsByUrl, addedFeedIds)
+        }
+        await db.syncRecords.bulkPut(winners)
+    })
+    return { pulled: winners.length, addedFeedIds }
+}
+
+/**
+ * 补齐文章状态：阅读/收藏记录同步到本地时文章可能尚未抓取，抓取后在此补上
+ */
+export async function reconcileArticleStates(): Promise<void> {
+    const records = await db.syncRecords.where('type').anyOf(['read', 'star']).toArray()
+    const feedsByUrl = new Map((await db.feeds.toArray()).map(feed => [feed.url, feed]))
+
+    const readIds: string[] = []
+    const starredIds: string[] = []
+    for (const record of records) {
+        if (record.deleted) continue
+        const { articleId } = resolveArticleRef(record.key.slice(record.type.length + 1), feedsByUrl)
+        if (!articleId) continue
+        if (record.type === 'read') {
+            readIds.push(articleId)
+        } else {
+            starredIds.push(articleId)
+        }
+    }
+
+    const [readArticles, starredArticles] = await Promise.all([
+        db.articles.bulkGet(readIds),
+        db.articles.bulkGet(starredIds),
+    ])
+    const updates = [
+        ...readArticles.filter(a => a && !a.isRead).map(a => ({ key: a!.id, changes: { isRead: true } })),
+        ...starredArticles.filter(a => a && !a.isStarred).map(a => ({ key: a!.id, changes: { isStarred: true } })),
+    ]
+    if (updates.length > 0) await db.articles.bulkUpdate(updates)
+}
+
+/**
+ * 删除过期的墓碑与阅读状态记录
+ */
+async function pruneRecords(now: number): Promise<void> {
+    const expiredBefore = now - SYNC_CONSTANTS.RECORD_TTL_DAYS * DAY
+    await db.syncRecords
+        .where('updatedAt').below(expiredBefore)
+        .filter(record => !!record.deleted || record.type === 'read')
+        .delete()
+}
+
+/** ========== 同步目标 ========== */
+
+function encodeBase64(text: string): string {
+    let binary = ''
+    for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte)
+    return btoa(binary)
+}
+
+const PROPFIND_BODY = '<?xml version="1.0" encoding="utf-8"?><d:propfind xmlns:d="DAV:"><d:prop><d:resourcetype/></d:prop></d:propfind>'
+
+/**
+ * WebDAV 目标：同步文件直接存放在配置的目录下（目录不存在时自动创建）
+ */
+function createWebDAVTarget(config: SyncConfig): SyncTarget {
+    if (!/^https?:\/\//i.test(config.webdavUrl)) throw new Error('请填写有效的 WebDAV 地址')
+
+    const baseUrl = config.webdavUrl.replace(/\/*$/, '/')
+    const authHeaders: Record<string, string> = config.username
+        ? { Authorization: `Basic ${encodeBase64(`${config.username}:${config.password}`)}` }
+        : {}
+
+    const request = (method: string, name = '', init: RequestInit = {}) => fetch(baseUrl + encodeURIComponent(name), {
+        ...init,
+        method,
+        headers: { ...authHeaders, ...init.headers },
+        cache: 'no-store',
+    })
+
+    return {
+        async list() {
+            const response = await request('PROPFIND', '', {
+                headers: { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' },
+                body: PROPFIND_BODY,
+            })
+            if (response.status === 404) {
+                const created = await request('MKCOL')
+                if (!created.ok) throw new Error(`无法创建 WebDAV 目录（HTTP ${created.status}）`)
+                return []
+            }
+            if (response.status === 401 || response.status === 403) throw new Error('WebDAV 认证失败，请检查用户名和密码')
+            if (!response.ok) throw new Error(`读取 WebDAV 目录失败（HTTP ${response.status}）`)
+
+            const doc = new DOMParser().parseFromString(await response.text(), 'application/xml')
+            return Array.from(doc.getElementsByTagNameNS('DAV:', 'href'))
+                .map(href => decodeURIComponent((href.textContent || '').split('/').filter(Boolean).pop() || ''))
+                .filter(name => SYNC_FILE_PATTERN.test(name))
+        },
+        async read(name) {
+            const response = await request('GET', name)
+            if (!response.ok) throw new Error(`下载 ${name} 失败（HTTP ${response.status}）`)
+            return response.text()
+        },
+        async write(name, content) {
+            const response = await request('PUT', name, {
+                headers: { 'Content-Type': 'application/json' },
+                body: content,
+            })
+            if (!response.ok) throw new Error(`上传同步文件失败（HTTP ${response.status}）`)
+        },
+    }
+}
+
+/** File System Access API 中 TypeScript 尚未内置的部分 */
+interface SyncFolderHandle extends FileSystemDirectoryHandle {
+    keys(): AsyncIterable<string>
+    queryPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>
+    requestPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>
+}
+
+interface DirectoryPickerWindow {
+    showDirectoryPicker(options?: { mode?: 'read' | 'readwrite' }): Promise<SyncFolderHandle>
+}
+
+/**
+ * 当前浏览器是否支持同步到本地文件夹（File System Access API）
+ */
+export function isFolderSyncSupported(): boolean {
+    return 'showDirectoryPicker' in window
+}
+
+/**
+ * 选择同步文件夹（需由用户操作触发），返回文件夹名称
+ */
+export async function pickSyncFolder(): Promise<string> {
+    const handle = await (window as unknown as DirectoryPickerWindow).showDirectoryPicker({ mode: 'readwrite' })
+    await dbHelpers.setSetting(SYNC_FOLDER_KEY, handle)
+    return handle.name
+}
+
+/**
+ * 已选择的同步文件夹名称
+ */
+export async function getSyncFolderName(): Promise<string | undefined> {
+    return (await dbHelpers.getSetting<SyncFolderHandle>(SYNC_FOLDER_KEY))?.name
+}
+
+/**
+ * 本地文件夹目标
+ * @param interactive 由用户操作触发时可弹出授权请求，后台同步时只检查已有授权
+ */
+async function createFolderTarget(interactive: boolean): Promise<SyncTarget> {
+    const handle = await dbHelpers.getSetting<SyncFolderHandle>(SYNC_FOLDER_KEY)
+    if (!handle) throw new Error('尚未选择同步文件夹')
+
+    let permission = await handle.queryPermission({ mode: 'readwrite' })
+    if (permission !== 'granted' && interactive) {
+        permission = await handle.requestPermission({ mode: 'readwrite' })
+    }
+    if (permission !== 'granted') throw new Error('没有同步文件夹的访问权限，请在同步设置中手动同步以重新授权')
+
+    return {
+        async list() {
+            const names: string[] = []
+            for await (const name of handle.keys()) {
+                if (SYNC_FILE_PATTERN.test(name)) names.push(name)
+            }
+            return names
+        },
+        async read(name) {
+            const file = await (await handle.getFileHandle(name)).getFile()
+            return file.text()
+        },
+        async write(name, content) {
+            const writable = await (await handle.getFileHandle(name, { create: true })).createWritable()
+            await writable.write(content)
+            await writable.close()
+        },
+    }
+}
+
+/** ========== 同步 ========== */
+
+function parseSyncFile(text: string): SyncFile {
+    const file = JSON.parse(text) as SyncFile
+    if (file?.format !== SYNC_FILE_FORMAT || !Array.isArray(file.records)) {
+        throw new Error('不是有效的同步文件')
+    }
+    if (file.version > SYNC_FILE_VERSION) {
+        throw new Error('同步文件来自更新版本的应用')
+    }
+    return file
+}
+
+// 正在进行的同步（避免自动同步与手动同步并发）
+let currentSync: Promise<SyncResult> | null = null
+
+/**
+ * 执行一次同步：下载并合并其他设备的记录，再上传本设备的记录
+ * @param interactive 是否由用户操作触发
+ */
+export function runSync(interactive = false): Promise<SyncResult> {
+    if (!currentSync) {
+        currentSync = syncOnce(interactive).finally(() => {
+            currentSync = null
+        })
+    }
+    return currentSync
+}
+
+async function syncOnce(interactive: boolean): Promise<SyncResult> {
+    const config = getSyncConfig()
+    const deviceId = getDeviceId()
+    const ownFileName = getSyncFileName(deviceId)
+
+    try {
+        const target = config.target === 'folder'
+            ? await createFolderTarget(interactive)
+            : createWebDAVTarget(config)
+
+        await ensureSnapshot(deviceId)
+
+        // 下载其他设备的记录（单个文件损坏时跳过）
+        const remote: SyncRecord[] = []
+        for (const name of await target.list()) {
+            if (name === ownFileName) continue
+            try {
+                remote.push(...parseSyncFile(await target.read(name)).records)
+            } catch (err) {
+                console.warn(`[Sync] 跳过无法读取的同步文件 ${name}:`, err)
+            }
+        }
+        const { pulled, addedFeedIds } = await mergeRemoteRecords(remote)
+        await reconcileArticleStates()
+
+        // 上传本设备产生的记录
+        const now = Date.now()
+        await pruneRecords(now)
+        const own = await db.syncRecords.where('deviceId').equals(deviceId).toArray()
+        const file: SyncFile = {
+            format: SYNC_FILE_FORMAT,
+            version: SYNC_FILE_VERSION,
+            deviceId,
+            updatedAt: now,
+            records: own,
+        }
+        await target.write(ownFileName, JSON.stringify(file))
+
+        saveSyncStatus({ lastSyncAt: now, lastAttemptAt: now, pushed: own.length, pulled })
+        console.log(`[Sync] 同步完成：上传 ${own.length} 条，合并 ${pulled} 条`)
+        return { pushed: own.length, pulled, addedFeedIds }
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err)
+        saveSyncStatus({ ...getSyncStatus(), lastAttemptAt: Date.now(), lastError: message })
+        console.error('[Sync] 同步失败:', err)
+        throw err
+    }
+}
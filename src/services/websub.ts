@@ -0,0 +1,150 @@
+/**
+ * WebSub 推送服务
+ * 浏览器无法直接接收 hub 的回调，需要一个可公开访问的中继（开发用实现见 scripts/websub-relay.mjs）：
+ * 应用通过中继向 hub 订阅，中继收到内容推送后经 SSE 通知应用刷新对应订阅源
+ * hub 异步验证回调后中继才发出 verified 事件，此前（以及租期结束、被拒绝或取消后）订阅源仍按计划轮询
+ */
+import type { Feed } from '@/types'
+
+// localStorage 存储 key
+const RELAY_STORAGE_KEY = 'folo_websub_relay'
+
+// 本次连接中已请求中继订阅的 topic（避免重复请求）
+const requestedTopics = new Set<string>()
+// hub 已验证的 topic 及其租期到期时间
+const verifiedTopics = new Map<string, number>()
+let eventSource: EventSource | null = null
+
+/** 中继订阅状态事件的数据 */
+interface RelayStateEvent {
+    topic?: string
+    leaseSeconds?: number
+}
+
+/**
+ * 获取中继地址（空字符串表示未启用）
+ */
+export function getRelayUrl(): string {
+    return localStorage.getItem(RELAY_STORAGE_KEY) || ''
+}
+
+/**
+ * 保存中继地址
+ */
+export function saveRelayUrl(url: string): void {
+    const trimmed = url.trim().replace(/\/+$/, '')
+    if (trimmed) {
+        localStorage.setItem(RELAY_STORAGE_KEY, trimmed)
+    } else {
+        localStorage.removeItem(RELAY_STORAGE_KEY)
+    }
+}
+
+/**
+ * 订阅源在 hub 上的 topic（优先使用 Feed 声明的 self 地址）
+ */
+export function getFeedTopic(feed: Feed): string {
+    return feed.selfUrl || feed.url
+}
+
+/**
+ * 订阅源当前是否由推送更新（中继已连接、hub 已验证订阅且租期未到），此时可跳过定时轮询
+ */
+export function isPushActive(feed: Feed): boolean {
+    const expiresAt = verifiedTopics.get(getFeedTopic(feed))
+    return eventSource?.readyState === EventSource.OPEN && expiresAt !== undefined && expiresAt > Date.now()
+}
+
+/**
+ * 通过中继向 hub 订阅订阅源（同一连接内只请求一次，hub 验证后才视为生效）
+ */
+export async function subscribeViaRelay(feed: Feed): Promise<void> {
+    const relayUrl = getRelayUrl()
+    const topic = getFeedTopic(feed)
+    if (!relayUrl || !feed.hubUrl || requestedTopics.has(topic)) return
+
+    requestedTopics.add(topic)
+    try {
+        const response = await fetch(`${relayUrl}/subscribe`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ hub: feed.hubUrl, topic }),
+        })
+        if (!response.ok) {
+            throw new Error(`中继订阅失败: HTTP ${response.status}`)
+        }
+    } catch (err) {
+        requestedTopics.delete(topic)
+        throw err
+    }
+
+    console.log(`[WebSub] 已通过中继请求订阅，等待 hub 验证: ${topic}`)
+}
+
+/**
+ * 解析中继的订阅状态事件
+ */
+function parseStateEvent(event: MessageEvent): RelayStateEvent {
+    try {
+        return JSON.parse(event.data) as RelayStateEvent
+    } catch (err) {
+        console.error('[WebSub] Invalid relay event:', err)
+        return {}
+    }
+}
+
+/**
+ * 连接中继的推送事件流
+ * @param onNotify 收到某个 topic 有新内容时的回调
+ * @param onOpen 连接（或重连）成功时的回调；中继可能已重启，需要重新订阅
+ * @returns 断开连接的函数
+ */
+export function connectRelay(onNotify: (topic: string) => void, onOpen?: () => void): () => void {
+    const relayUrl = getRelayUrl()
+    if (!relayUrl) return () => {}
+
+    const source = new EventSource(`${relayUrl}/events`)
+    eventSource = source
+
+    source.onopen = () => {
+        requestedTopics.clear()
+        verifiedTopics.clear()
+        onOpen?.()
+    }
+
+    source.addEventListener('verified', (event) => {
+        const { topic, leaseSeconds } = parseStateEvent(event)
+        if (!topic || !leaseSeconds) return
+        verifiedTopics.set(topic, Date.now() + leaseSeconds * 1000)
+        console.log(`[WebSub] hub 已验证订阅（租期 ${leaseSeconds} 秒）: ${topic}`)
+    })
+    for (const type of ['unsubscribed', 'denied']) {
+        source.addEventListener(type, (event) => {
+            const { topic } = parseStateEvent(event)
+            if (!topic) return
+            verifiedTopics.delete(topic)
+            console.warn(`[WebSub] 订阅已失效（${type}），恢复轮询: ${topic}`)
+        })
+    }
+
+    source.onmessage = (event) => {
+        try {
+            const { topic } = JSON.parse(event.data) as { topic?: string }
+            if (topic) onNotify(topic)
+        } catch (err) {
+            console.error('[WebSub] Invalid relay message:', err)
+        }
+    }
+    source.onerror = () => {
+        console.warn('[WebSub] 中继连接中断，将自动重连')
+    }
+
+    return () => {
+        source.close()
+        if (eventSource === source) {
+            eventSource = null
+            requestedTopics.clear()
+            verifiedTopics.clear()
+        }
+    }
+}
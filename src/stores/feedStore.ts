@@ -3,13 +3,163 @@
  * 参考 Folo 的 Jotai atoms 设计，简化为 Zustand store
  */
 import { create } from 'zustand'
-import type { Feed, Article } from '@/types'
+import type { Feed, Article, ScrapeConfig } from '@/types'
 import { db, dbHelpers } from '@/db'
-import { fetchFeed, fetchArticleContent } from '@/services/rss'
+import { fetchFeed, fetchFeedConditional, fetchFeedHistory, type FeedData, type FeedItem, type FeedRedirect } from '@/services/rss'
 import { generateSummary, filterArticlesBatch, isAIConfigured } from '@/services/ai'
 import { extractContentForSummary } from '@/services/contentExtractor'
-import { generateUUID } from '@/utils/uuid'
+import { getArticleContent } from '@/services/contentCache'
+import { resolvePubDate } from '@/utils/date'
+import { buildArticleId } from '@/utils/articleId'
+import { canonicalizeUrl } from '@/utils/url'
+import { isRSSHubUrl } from '@/services/rsshub'
+import { isPushActive } from '@/services/websub'
 import { PRESET_FEEDS } from '@/config/presetFeeds'
+import { computeNextRefreshAt, getDueFeeds } from '@/services/refreshScheduler'
+import { computeItemStats } from '@/services/feedHealth'
+import { isAbortError } from '@/services/parserWorker'
+import { isNewsletterUrl, getNewsletterFeedUrl, type NewsletterMessage } from '@/services/newsletter'
+import { getBackfillLimit } from '@/services/backfill'
+import { runSync, reconcileArticleStates, type SyncResult } from '@/services/sync'
+import { runRemotePull, isRemoteBackendEnabled, type RemotePullResult } from '@/services/remoteBackend'
+
+// 刷新订阅源的最大并发数
+const REFRESH_CONCURRENCY = 4
+
+// 自动刷新是否正在进行（避免定时器重叠触发）
+let isAutoRefreshing = false
+
+// 当前选中订阅源的加载任务，切换订阅源时中止（取消尚未完成的解析）
+let selectionController: AbortController | null = null
+
+// 文章列表默认显示的文章数
+const DEFAULT_ARTICLE_LIST_LIMIT = 50
+
+// 当前订阅源文章列表显示的文章数（加载更早文章后增加，切换订阅源时重置）
+let articleListLimit = DEFAULT_ARTICLE_LIST_LIMIT
+
+/**
+ * 将解析出的 Feed 条目转换为文章元数据
+ * @param language 订阅源语言，用于解析有歧义的时区缩写
+ */
+function mapFeedItemsToArticles(items: FeedItem[], feedId: string, language?: string): Omit<Article, 'isRead' | 'isStarred'>[] {
+    const now = Date.now()
+    return items.map(item => {
+        const { pubDate, dateIssue } = resolvePubDate(item.pubDate, now, now, language)
+        const description = item.content || item.description
+        return {
+            id: buildArticleId(feedId, { guid: item.guid, link: item.link, title: item.title, content: description }),
+            feedId,
+            title: item.title || '无标题',
+            link: item.link || '',
+            canonicalLink: item.link ? canonicalizeUrl(item.link) : undefined,
+            pubDate,
+            firstSeenAt: now,
+            dateIssue,
+            rawPubDate: dateIssue && dateIssue !== 'missing' ? item.pubDate : undefined,
+            author: item.creator || item.author,
+            description, // 用于快速生成摘要
+            enclosures: item.enclosures,
+            imageUrl: item.image,
+            baseUrl: item.baseUrl,
+        }
+    })
+}
+
+/**
+ * 保存新订阅源及首次抓取到的文章
+ */
+async function saveNewFeed(feed: Omit<Feed, 'id' | 'createdAt'>, feedData: FeedData): Promise<string> {
+    const feedId = await dbHelpers.addFeed(feed)
+
+    // 保存文章元数据
+    if (feedData.items.length > 0) {
+        await dbHelpers.upsertArticles(mapFeedItemsToArticles(feedData.items, feedId, feedData.language))
+    }
+    return feedId
+}
+
+/**
+ * 并发刷新一组订阅源（最多同时 REFRESH_CONCURRENCY 个）
+ */
+async function refreshFeedsConcurrently(
+    feeds: Feed[],
+    refreshFeed: (feedId: string) => Promise<void>
+): Promise<void> {
+    const queue = [...feeds]
+
+    const workers = Array.from({ length: REFRESH_CONCURRENCY }, async () => {
+        while (queue.length > 0) {
+            const feed = queue.shift()
+            if (feed) {
+                try {
+                    await refreshFeed(feed.id)
+                } catch (err) {
+                    console.error(`Failed to refresh ${feed.title}:`, err)
+                }
+            }
+        }
+    })
+
+    await Promise.all(workers)
+}
+
+/**
+ * 判断 Feed 声明的 self 地址是否表示订阅源已迁移
+ * 仅当新出现的 self 地址与当前地址不同（忽略协议和跟踪参数）时成立；RSSHub 订阅源的 self 指向具体实例，不处理
+ */
+function isFeedMoved(feed: Feed, selfUrl: string | undefined): selfUrl is string {
+    if (!selfUrl || selfUrl === feed.selfUrl || isRSSHubUrl(feed.url)) return false
+    const stripScheme = (url: string) => canonicalizeUrl(url).replace(/^https?:\/\//i, '')
+    return stripScheme(selfUrl) !== stripScheme(feed.url)
+}
+
+// 新 self 地址的条目与当前条目至少有该比例重合（按较多的一方计），才视为同一订阅源
+const SAME_FEED_MIN_OVERLAP = 0.5
+
+/**
+ * 判断新 self 地址抓取到的 Feed 是否与当前是同一个订阅源，避免错误的 self 链接（如指向全站或分类 Feed）替换订阅
+ * 新地址须同样声明该 self 地址，且条目（按 GUID 或规范化链接）大部分重合；双方都没有条目时只比较 self 地址
+ */
+function isSameFeed(current: FeedData, candidate: FeedData): boolean {
+    const stripScheme = (url: string) => canonicalizeUrl(url).replace(/^https?:\/\//i, '')
+    if (!current.selfUrl || !candidate.selfUrl || stripScheme(candidate.selfUrl) !== stripScheme(current.selfUrl)) {
+        return false
+    }
+
+    const total = Math.max(current.items.length, candidate.items.length)
+    if (total === 0) return true
+
+    const guids = new Set(current.items.map(item => item.guid).filter(Boolean))
+    const links = new Set(current.items.map(item => item.link && canonicalizeUrl(item.link)).filter(Boolean))
+    const shared = candidate.items.filter(item =>
+        (item.guid && guids.has(item.guid)) || (item.link && links.has(canonicalizeUrl(item.link)))
+    ).length
+    return shared / total >= SAME_FEED_MIN_OVERLAP
+}
+
+// 浏览器直连时无法得知重定向状态码，同一目标连续出现该次数后视为永久迁移
+const REDIRECT_CONFIRMATIONS = 3
+
+/**
+ * 根据本次抓取的重定向计算订阅源更新
+ * 永久重定向立即迁移；状态未知的重定向累计确认次数；临时重定向或未重定向时清除待确认记录
+ */
+function getRedirectUpdates(feed: Feed, redirect: FeedRedirect | undefined): { updates: Partial<Feed>; movedTo?: string } {
+    const clearPending = { pendingRedirectUrl: undefined, pendingRedirectCount: undefined }
+    if (!redirect || redirect.permanent === false) {
+        return { updates: feed.pendingRedirectUrl ? clearPending : {} }
+    }
+
+    const count = feed.pendingRedirectUrl === redirect.url ? (feed.pendingRedirectCount ?? 0) + 1 : 1
+    if (redirect.permanent || count >= REDIRECT_CONFIRMATIONS) {
+        return { updates: clearPending, movedTo: redirect.url }
+    }
+    return { updates: { pendingRedirectUrl: redirect.url, pendingRedirectCount: count } }
+}
+
+/** 条件抓取缓存（ETag / Last-Modified / 内容哈希） */
+type FeedValidators = Pick<Feed, 'etag' | 'lastModified' | 'contentHash'>
 
 interface FeedState {
     // 数据
@@ -23,22 +173,31 @@ interface FeedState {
     isLoading: boolean
     isFetchingFeed: boolean
     isFiltering: boolean  // 正在 AI 筛选
+    isLoadingOlder: boolean  // 正在加载更早文章
     generatingSummaryIds: Set<string>
     error: string | null
 
     // Actions
     loadFeeds: () => Promise<void>
     initPresetFeeds: () => Promise<{ addedCount: number; skippedCount: number }>
-    addFeed: (url: string, title?: string, category?: string, aiFilter?: string) => Promise<void>
+    addFeed: (url: string, title?: string, category?: string, aiFilter?: string, prefetched?: FeedData) => Promise<void>
+    addScrapeFeed: (url: string, scrape: ScrapeConfig, title?: string, category?: string, prefetched?: FeedData) => Promise<void>
+    importNewsletters: (messages: NewsletterMessage[]) => Promise<{ feedCount: number; articleCount: number }>
     deleteFeed: (feedId: string) => Promise<void>
+    updateFeed: (feedId: string, updates: Partial<Omit<Feed, 'id' | 'createdAt'>>) => Promise<void>
+    migrateFeedUrl: (feedId: string, newUrl: string, validators?: FeedValidators) => Promise<boolean>
     selectFeed: (feed: Feed | null) => void
     selectArticle: (article: Article | null) => void
-    refreshFeed: (feedId: string) => Promise<void>
+    refreshFeed: (feedId: string, force?: boolean, signal?: AbortSignal) => Promise<void>
     refreshAllFeeds: () => Promise<void>
+    refreshDueFeeds: () => Promise<void>
+    loadOlderArticles: (feedId: string) => Promise<number>
     markArticleRead: (articleId: string) => Promise<void>
     generateArticleSummary: (article: Article) => Promise<string | null>
     starArticle: (articleId: string, content: string) => Promise<void>
     unstarArticle: (articleId: string) => Promise<void>
+    syncNow: (interactive?: boolean) => Promise<SyncResult>
+    pullRemote: () => Promise<RemotePullResult>
 }
 
 export const useFeedStore = create<FeedState>((set, get) => ({
@@ -51,6 +210,7 @@ export const useFeedStore = create<FeedState>((set, get) => ({
     isLoading: false,
     isFetchingFeed: false,
     isFiltering: false,
+    isLoadingOlder: false,
     generatingSummaryIds: new Set(),
     error: null,
 
@@ -124,34 +284,20 @@ export const useFeedStore = create<FeedState>((set, get) => ({
     },
 
     // 添加订阅源
-    addFeed: async (url: string, title?: string, category?: string, aiFilter?: string) => {
+    addFeed: async (url: string, title?: string, category?: string, aiFilter?: string, prefetched?: FeedData) => {
         set({ isLoading: true, error: null })
         try {
-            // 先尝试获取 RSS 信息
-            const feedData = await fetchFeed(url)
+            // 先尝试获取 RSS 信息（订阅源发现阶段已抓取过的直接复用）
+            const feedData = prefetched ?? await fetchFeed(url)
 
-            const feedId = await dbHelpers.addFeed({
+            await saveNewFeed({
                 title: title || feedData.title || url,
                 url,
                 siteUrl: feedData.link,
                 category,
                 favicon: feedData.image?.url,
                 aiFilter,
-            })
-
-            // 保存文章元数据
-            if (feedData.items.length > 0) {
-                const articles = feedData.items.map(item => ({
-                    id: item.guid || item.link || generateUUID(),
-                    feedId,
-                    title: item.title || '无标题',
-                    link: item.link || '',
-                    pubDate: item.pubDate ? new Date(item.pubDate).getTime() : Date.now(),
-                    author: item.creator || item.author,
-                    description: item.content || item.description, // 用于快速生成摘要
-                }))
-                await dbHelpers.upsertArticles(articles)
-            }
+            }, feedData)
 
             await get().loadFeeds()
             set({ isLoading: false })
@@ -172,6 +318,59 @@ export const useFeedStore = create<FeedState>((set, get) => ({
         }
     },
 
+    // 添加网页订阅源（按 CSS 选择器抓取，选择器预览阶段已抓取过的直接复用）
+    addScrapeFeed: async (url: string, scrape: ScrapeConfig, title?: string, category?: string, prefetched?: FeedData) => {
+        const feedData = prefetched ?? await fetchFeed(url, { scrape })
+
+        await saveNewFeed({
+            title: title || feedData.title || url,
+            url,
+            siteUrl: url,
+            category,
+            favicon: feedData.image?.url,
+            scrape,
+        }, feedData)
+
+        await get().loadFeeds()
+    },
+
+    // 导入邮件订阅：按发件人归入 newsletter:// 订阅源（已存在的复用），邮件正文作为文章内容
+    importNewsletters: async (messages: NewsletterMessage[]) => {
+        const bySender = new Map<string, NewsletterMessage[]>()
+        for (const message of messages) {
+            const list = bySender.get(message.from.address) ?? []
+            list.push(message)
+            bySender.set(message.from.address, list)
+        }
+
+        let articleCount = 0
+        for (const [address, list] of bySender) {
+            const url = getNewsletterFeedUrl(address)
+            // addFeed 对已存在的订阅源直接返回其 ID
+            const feedId = await dbHelpers.addFeed({
+                title: list.find(m => m.from.name)?.from.name || address,
+                url,
+                category: '邮件订阅',
+            })
+
+            const items: FeedItem[] = list.map(message => ({
+                guid: message.messageId,
+                title: message.subject,
+                // 没有网页版的邮件使用伪链接，保证文章 ID 与去重稳定
+                link: message.webUrl || `${url}/${encodeURIComponent(message.messageId)}`,
+                pubDate: message.date,
+                author: message.from.name || message.from.address,
+                content: message.html,
+            }))
+            await dbHelpers.upsertArticles(mapFeedItemsToArticles(items, feedId))
+            articleCount += items.length
+        }
+
+        await get().loadFeeds()
+        console.log(`[FeedStore] 导入邮件订阅：${bySender.size} 个发件人，${articleCount} 封邮件`)
+        return { feedCount: bySender.size, articleCount }
+    },
+
     // 删除订阅源
     deleteFeed: async (feedId: string) => {
         console.log(`[FeedStore] Deleting feed: ${feedId}`)
@@ -190,21 +389,66 @@ export const useFeedStore = create<FeedState>((set, get) => ({
         }
     },
 
+    // 更新订阅源信息（修改 URL 时清空抓取缓存，下次刷新重新解析；同时传入的缓存字段保留）
+    updateFeed: async (feedId: string, updates: Partial<Omit<Feed, 'id' | 'createdAt'>>) => {
+        const feed = get().feeds.find(f => f.id === feedId)
+        if (!feed) return
+
+        const changes: Partial<Feed> = updates.url && updates.url !== feed.url
+            ? { etag: undefined, lastModified: undefined, contentHash: undefined, nextRefreshAt: undefined, ...updates }
+            : { ...updates }
+
+        await dbHelpers.updateFeed(feedId, changes)
+        set(state => ({
+            feeds: state.feeds.map(f => f.id === feedId ? { ...f, ...changes } : f),
+            selectedFeed: state.selectedFeed?.id === feedId
+                ? { ...state.selectedFeed, ...changes }
+                : state.selectedFeed,
+        }))
+    },
+
+    // 订阅源迁移到新地址：记录旧地址并提示用户，文章保留（validators 为刚从新地址取得的抓取缓存）
+    migrateFeedUrl: async (feedId: string, newUrl: string, validators: FeedValidators = {}) => {
+        const feed = get().feeds.find(f => f.id === feedId)
+        if (!feed || feed.url === newUrl) return false
+
+        // 新地址已被其他订阅源使用时不迁移，避免违反 url 唯一索引
+        const conflict = await dbHelpers.findFeedByUrl(newUrl)
+        if (conflict && conflict.id !== feedId) {
+            console.warn(`[FeedStore] ${newUrl} 已被订阅源「${conflict.title}」使用，跳过迁移`)
+            return false
+        }
+
+        console.log(`[FeedStore] ${feed.title} 已迁移: ${feed.url} -> ${newUrl}`)
+        await get().updateFeed(feedId, {
+            url: newUrl,
+            previousUrls: [...new Set([...(feed.previousUrls ?? []), feed.url])].filter(url => url !== newUrl),
+            movedFrom: feed.url,
+            ...validators,
+        })
+        return true
+    },
+
     // 选择订阅源
     selectFeed: async (feed: Feed | null) => {
+        selectionController?.abort()
+        selectionController = feed ? new AbortController() : null
+        const signal = selectionController?.signal
+        articleListLimit = DEFAULT_ARTICLE_LIST_LIMIT
+
         set({ selectedFeed: feed, selectedArticle: null, filteredArticles: [] })
         if (feed) {
             const feedId = feed.id
-            let articles = await dbHelpers.getArticlesByFeed(feedId)
+            let articles = await dbHelpers.getArticlesByFeed(feedId, articleListLimit)
 
             // 竞态检查：如果用户已切换到其他订阅源，丢弃本次结果
             if (get().selectedFeed?.id !== feedId) return
 
-            // 如果没有文章，自动刷新获取
+            // 如果没有文章，自动刷新获取（强制抓取，文章可能已过期清理而源内容未变）
             if (articles.length === 0) {
-                await get().refreshFeed(feedId)
+                await get().refreshFeed(feedId, true, signal)
                 if (get().selectedFeed?.id !== feedId) return
-                articles = await dbHelpers.getArticlesByFeed(feedId)
+                articles = await dbHelpers.getArticlesByFeed(feedId, articleListLimit)
                 if (get().selectedFeed?.id !== feedId) return
             }
 
@@ -242,63 +486,220 @@ export const useFeedStore = create<FeedState>((set, get) => ({
         }
     },
 
-    // 刷新单个订阅源
-    refreshFeed: async (feedId: string) => {
+    // 刷新单个订阅源（force 为 true 时忽略 ETag/内容哈希，强制重新解析；signal 中止时放弃本次刷新）
+    refreshFeed: async (feedId: string, force = false, signal?: AbortSignal) => {
+        const feed = get().feeds.find(f => f.id === feedId)
+        // 邮件订阅源只能通过导入更新
+        if (!feed || isNewsletterUrl(feed.url)) return
+
+        // 阅读服务器的订阅源由服务器抓取，刷新时从服务器拉取
+        if (feed.remoteId) {
+            set({ isFetchingFeed: true })
+            try {
+                await get().pullRemote()
+            } catch (err) {
+                console.error('Failed to pull from reader server:', err)
+            } finally {
+                set({ isFetchingFeed: false })
+            }
+            return
+        }
+
         set({ isFetchingFeed: true })
+        let feedUpdates: Partial<Feed>
+        let hasNewContent = false
+        let movedTo: string | undefined      // 重定向到的新地址（已成功抓取）
+        let movedSelf: { url: string; feedData: FeedData } | undefined // Feed 声明的新 self 地址及本次内容（需确认为同一订阅源）
         try {
-            const feed = get().feeds.find(f => f.id === feedId)
-            if (!feed) return
-
-            const feedData = await fetchFeed(feed.url)
-
-            if (feedData.items.length > 0) {
-                const articles = feedData.items.map(item => ({
-                    id: item.guid || item.link || generateUUID(),
-                    feedId,
-                    title: item.title || '无标题',
-                    link: item.link || '',
-                    pubDate: item.pubDate ? new Date(item.pubDate).getTime() : Date.now(),
-                    author: item.creator || item.author,
-                    description: item.content || item.description, // 用于快速生成摘要
-                }))
-                await dbHelpers.upsertArticles(articles)
+            const result = await fetchFeedConditional(feed.url, force ? {} : feed, feed, signal)
+            const now = Date.now()
+
+            const redirect = getRedirectUpdates(feed, result.redirect)
+            movedTo = redirect.movedTo
+
+            if (result.notModified) {
+                console.log(`[FeedStore] ${feed.title} 未变化，跳过解析`)
+                // 内容哈希相同但服务器换了 ETag / Last-Modified 时保存新值，下次才能得到 304
+                feedUpdates = {
+                    ...redirect.updates,
+                    lastFetched: now,
+                    lastSuccessAt: now,
+                    lastStatus: result.status,
+                    etag: result.etag ?? feed.etag,
+                    lastModified: result.lastModified ?? feed.lastModified,
+                }
+            } else {
+                const { feedData } = result
+                const articles = mapFeedItemsToArticles(feedData.items, feedId, feedData.language)
+                if (articles.length > 0) {
+                    await dbHelpers.upsertArticles(articles)
+                }
+
+                hasNewContent = true
+                feedUpdates = {
+                    ...redirect.updates,
+                    ...computeItemStats(articles.filter(a => !a.dateIssue).map(a => a.pubDate)),
+                    lastFetched: now,
+                    lastSuccessAt: now,
+                    lastStatus: result.status,
+                    etag: result.etag,
+                    lastModified: result.lastModified,
+                    contentHash: result.contentHash,
+                    feedTtl: feedData.ttl,
+                    hubUrl: feedData.hub,
+                    selfUrl: feedData.selfUrl,
+                }
+
+                if (!movedTo && isFeedMoved(feed, feedData.selfUrl)) {
+                    movedSelf = { url: feedData.selfUrl, feedData }
+                }
+            }
+
+            feedUpdates.consecutiveFailures = 0
+            feedUpdates.lastError = undefined
+            feedUpdates.nextRefreshAt = computeNextRefreshAt({ ...feed, ...feedUpdates }, 0, now)
+        } catch (err) {
+            // 已取消（用户切换了订阅源）：不计为失败，下次刷新重新抓取
+            if (isAbortError(err)) {
+                console.log(`[FeedStore] ${feed.title} 的刷新已取消`)
+                set({ isFetchingFeed: false })
+                return
             }
+            console.error('Failed to refresh feed:', err)
+            const failures = (feed.consecutiveFailures ?? 0) + 1
+            feedUpdates = {
+                consecutiveFailures: failures,
+                lastError: err instanceof Error ? err.message : String(err),
+                nextRefreshAt: computeNextRefreshAt(feed, failures),
+            }
+        }
 
-            // 更新最后抓取时间
-            await db.feeds.update(feedId, { lastFetched: Date.now() })
+        try {
+            // 更新抓取元数据，并同步到内存中的订阅源列表
+            await db.feeds.update(feedId, feedUpdates)
+            set(state => ({
+                feeds: state.feeds.map(f => f.id === feedId ? { ...f, ...feedUpdates } : f),
+            }))
 
             // 如果当前选中的是这个订阅源，刷新文章列表
-            if (get().selectedFeed?.id === feedId) {
-                const articles = await dbHelpers.getArticlesByFeed(feedId)
+            if (hasNewContent && get().selectedFeed?.id === feedId) {
+                const articles = await dbHelpers.getArticlesByFeed(feedId, articleListLimit)
                 set({ articles })
             }
+
+            // 永久重定向：迁移到新地址（保留已有文章；本次抓取已来自新地址，抓取缓存沿用）
+            if (movedTo) {
+                const { etag, lastModified, contentHash } = { ...feed, ...feedUpdates }
+                await get().migrateFeedUrl(feedId, movedTo, { etag, lastModified, contentHash })
+            }
+
+            // Feed 声明了新的 self 地址：确认新地址可用且是同一订阅源后迁移，沿用确认时取得的抓取缓存
+            if (movedSelf) {
+                try {
+                    const check = await fetchFeedConditional(movedSelf.url, {}, feed)
+                    if (check.notModified || !isSameFeed(movedSelf.feedData, check.feedData)) {
+                        console.warn(`[FeedStore] self 地址与当前订阅源内容不一致，不迁移: ${movedSelf.url}`)
+                    } else {
+                        await get().migrateFeedUrl(feedId, movedSelf.url, {
+                            etag: check.etag,
+                            lastModified: check.lastModified,
+                            contentHash: check.contentHash,
+                        })
+                    }
+                } catch (err) {
+                    console.warn(`[FeedStore] self 地址不可用，暂不迁移: ${movedSelf.url}`, err)
+                }
+            }
         } catch (err) {
-            console.error('Failed to refresh feed:', err)
+            console.error('Failed to update feed after refresh:', err)
         } finally {
             set({ isFetchingFeed: false })
         }
     },
 
-    // 刷新所有订阅源（并发，最多同时 4 个）
+    // 刷新所有订阅源（并发，最多同时 4 个；阅读服务器的订阅源统一拉取一次）
     refreshAllFeeds: async () => {
         const { feeds, refreshFeed } = get()
-        const concurrency = 4
-        const queue = [...feeds]
-
-        const workers = Array.from({ length: concurrency }, async () => {
-            while (queue.length > 0) {
-                const feed = queue.shift()
-                if (feed) {
-                    try {
-                        await refreshFeed(feed.id)
-                    } catch (err) {
-                        console.error(`Failed to refresh ${feed.title}:`, err)
-                    }
+        await refreshFeedsConcurrently(feeds.filter(feed => !feed.remoteId), refreshFeed)
+        if (isRemoteBackendEnabled()) {
+            await get().pullRemote().catch(err => console.error('Failed to pull from reader server:', err))
+        }
+    },
+
+    // 自动刷新：只刷新已到期的订阅源（由定时器调用）
+    refreshDueFeeds: async () => {
+        if (isAutoRefreshing) return
+
+        const { feeds, refreshFeed } = get()
+        // 已由 WebSub 推送更新的订阅源、邮件订阅源与阅读服务器的订阅源不再轮询
+        const dueFeeds = getDueFeeds(feeds).filter(feed =>
+            !isPushActive(feed) && !isNewsletterUrl(feed.url) && !feed.remoteId
+        )
+        if (dueFeeds.length === 0) return
+
+        isAutoRefreshing = true
+        try {
+            console.log(`[FeedStore] 自动刷新 ${dueFeeds.length} 个到期订阅源`)
+            await refreshFeedsConcurrently(dueFeeds, refreshFeed)
+        } finally {
+            isAutoRefreshing = false
+        }
+    },
+
+    // 加载更早文章：沿分页链接回填历史文章（单次数量上限可配置），返回新加载的文章数
+    loadOlderArticles: async (feedId: string) => {
+        const feed = get().feeds.find(f => f.id === feedId)
+        if (!feed || feed.historyComplete || isNewsletterUrl(feed.url) || feed.remoteId || get().isLoadingOlder) return 0
+
+        const signal = selectionController?.signal
+        set({ isLoadingOlder: true })
+        try {
+            const { items, nextPageUrl, language } = await fetchFeedHistory(
+                feed.url,
+                feed,
+                feed.historyPageUrl,
+                getBackfillLimit(),
+                signal
+            )
+            const articles = mapFeedItemsToArticles(items, feedId, language)
+            if (articles.length > 0) {
+                await dbHelpers.upsertArticles(articles)
+            }
+
+            const feedUpdates: Partial<Feed> = { historyPageUrl: nextPageUrl, historyComplete: !nextPageUrl }
+            await db.feeds.update(feedId, feedUpdates)
+            set(state => ({
+                feeds: state.feeds.map(f => f.id === feedId ? { ...f, ...feedUpdates } : f),
+            }))
+
+            // 扩大列表显示数量，让回填的文章可见
+            if (get().selectedFeed?.id === feedId) {
+                articleListLimit = get().articles.length + articles.length
+                const loaded = await dbHelpers.getArticlesByFeed(feedId, articleListLimit)
+                if (get().selectedFeed?.id !== feedId) return articles.length
+
+                // 有 AI 筛选规则时只对新加载的文章筛选
+                let filteredArticles = loaded
+                if (feed.aiFilter && isAIConfigured()) {
+                    const matchedIds = articles.length > 0
+                        ? await filterArticlesBatch(articles.map(a => ({ id: a.id, title: a.title })), feed.aiFilter)
+                        : new Set<string>()
+                    if (get().selectedFeed?.id !== feedId) return articles.length
+                    const visibleIds = new Set([...get().filteredArticles.map(a => a.id), ...matchedIds])
+                    filteredArticles = loaded.filter(a => visibleIds.has(a.id))
                 }
+                set({ articles: loaded, filteredArticles })
             }
-        })
 
-        await Promise.all(workers)
+            console.log(`[FeedStore] ${feed.title} 加载更早文章 ${articles.length} 篇${nextPageUrl ? '' : '，已到最早一页'}`)
+            return articles.length
+        } catch (err) {
+            if (isAbortError(err)) return 0
+            console.error('Failed to load older articles:', err)
+            throw err
+        } finally {
+            set({ isLoadingOlder: false })
+        }
     },
 
     // 标记已读
@@ -327,7 +728,8 @@ export const useFeedStore = create<FeedState>((set, get) => ({
             const { content, source } = await extractContentForSummary(
                 article.description, // 使用 RSS 自带的 description/content 字段
                 article.link,
-                fetchArticleContent
+                // 全文经正文缓存获取，与阅读视图、AI 对话共用
+                async () => (await getArticleContent(article)).html
             )
 
             console.log(`[摘要生成] ${article.title.substring(0, 30)}... | 来源: ${source}, 长度: ${content.length}`)
@@ -388,4 +790,68 @@ export const useFeedStore = create<FeedState>((set, get) => ({
                 : state.selectedArticle,
         }))
     },
+
+    // 与其他设备同步，合并后重新加载订阅源与当前文章列表的阅读/收藏状态
+    syncNow: async (interactive = false) => {
+        const result = await runSync(interactive)
+        if (result.pulled === 0) return result
+
+        await get().loadFeeds()
+        const { feeds, selectedFeed, articles } = get()
+        if (selectedFeed && !feeds.some(f => f.id === selectedFeed.id)) {
+            set({ selectedFeed: null, articles: [], filteredArticles: [], selectedArticle: null })
+        }
+
+        // 其他设备新增的订阅源立即抓取文章，再补上同步来的阅读状态
+        const addedFeeds = feeds.filter(f => result.addedFeedIds.includes(f.id))
+        if (addedFeeds.length > 0) {
+            await refreshFeedsConcurrently(addedFeeds, get().refreshFeed)
+            await reconcileArticleStates()
+        }
+
+        const stored = await db.articles.bulkGet(articles.map(a => a.id))
+        const storedMap = new Map(stored.filter(a => !!a).map(a => [a!.id, a!]))
+        const withSyncedState = (article: Article): Article => {
+            const latest = storedMap.get(article.id)
+            return latest ? { ...article, isRead: latest.isRead, isStarred: latest.isStarred } : article
+        }
+        set(state => ({
+            articles: state.articles.map(withSyncedState),
+            filteredArticles: state.filteredArticles.map(withSyncedState),
+            selectedArticle: state.selectedArticle && withSyncedState(state.selectedArticle),
+        }))
+        return result
+    },
+
+    // 从阅读服务器拉取订阅源、文章与阅读状态，完成后重新加载订阅源与当前文章列表
+    pullRemote: async () => {
+        const result = await runRemotePull()
+
+        await get().loadFeeds()
+        const { feeds, selectedFeed } = get()
+        if (!selectedFeed) return result
+        const feed = feeds.find(f => f.id === selectedFeed.id)
+        if (!feed) {
+            set({ selectedFeed: null, articles: [], filteredArticles: [], selectedArticle: null })
+            return result
+        }
+
+        const loaded = await dbHelpers.getArticlesByFeed(feed.id, articleListLimit)
+        if (get().selectedFeed?.id !== feed.id) return result
+
+        // 有 AI 筛选规则时保持已筛选的列表，只更新其中文章的阅读/收藏状态
+        const loadedMap = new Map(loaded.map(a => [a.id, a]))
+        const withPulledState = (article: Article): Article => {
+            const latest = loadedMap.get(article.id)
+            return latest ? { ...article, isRead: latest.isRead, isStarred: latest.isStarred } : article
+        }
+        set(state => ({
+            articles: loaded,
+            filteredArticles: feed.aiFilter && isAIConfigured()
+                ? state.filteredArticles.map(withPulledState)
+                : loaded,
+            selectedArticle: state.selectedArticle && withPulledState(state.selectedArticle),
+        }))
+        return result
+    },
 }))
@@ -0,0 +1,37 @@
+/**
+ * 附件播放器状态 - 迷你播放器在切换文章时保持播放
+ */
+import { create } from 'zustand'
+
+/** 正在播放的附件 */
+export interface PlayerTrack {
+    articleId: string
+    title: string
+    url: string
+    type?: string
+    image?: string
+}
+
+interface PlayerState {
+    track: PlayerTrack | null
+    isPlaying: boolean
+    play: (track: PlayerTrack) => void
+    setPlaying: (isPlaying: boolean) => void
+    stop: () => void
+}
+
+export const usePlayerStore = create<PlayerState>((set, get) => ({
+    track: null,
+    isPlaying: false,
+
+    play: (track) => {
+        // 同一附件只恢复播放，不重新加载
+        if (get().track?.url === track.url) {
+            set({ isPlaying: true })
+            return
+        }
+        set({ track, isPlaying: true })
+    },
+    setPlaying: (isPlaying) => set({ isPlaying }),
+    stop: () => set({ track: null, isPlaying: false }),
+}))
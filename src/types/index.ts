@@ -13,26 +13,113 @@ export interface Feed {
     favicon?: string      // 图标 URL
     aiFilter?: string     // AI 筛选规则
     lastFetched?: number  // 最后抓取时间戳
+    etag?: string         // 上次响应的 ETag（用于 If-None-Match）
+    lastModified?: string // 上次响应的 Last-Modified（用于 If-Modified-Since）
+    lastStatus?: number   // 上次抓取的 HTTP 状态码
+    contentHash?: string  // 上次抓取内容的哈希（内容未变化时跳过解析）
+    refreshInterval?: number     // 自定义刷新间隔（分钟），未设置时使用全局默认
+    feedTtl?: number             // 源建议的刷新间隔（分钟，来自 <ttl>/sy:updatePeriod）
+    nextRefreshAt?: number       // 下次自动刷新时间戳
+    consecutiveFailures?: number // 连续抓取失败次数（用于退避）
+    lastError?: string           // 最近一次抓取失败的错误信息
+    lastSuccessAt?: number       // 最近一次成功抓取时间戳
+    avgItemsPerDay?: number      // 平均每日发文数
+    latestItemAt?: number        // 最新文章的发布时间戳
+    fetchMode?: FeedFetchMode    // 抓取方式，未设置时为 auto
+    proxyId?: string             // fetchMode 为 proxy 时使用的代理 ID
+    hubUrl?: string              // WebSub hub 地址（<link rel="hub">）
+    selfUrl?: string             // Feed 声明的自身地址（<link rel="self">）
+    previousUrls?: string[]      // 迁移前使用过的地址（添加订阅时去重）
+    movedFrom?: string           // 最近一次迁移前的地址（用于提示用户，知晓后清除）
+    pendingRedirectUrl?: string  // 待确认的重定向目标（无法得知状态码时多次确认后迁移）
+    pendingRedirectCount?: number
+    scrape?: ScrapeConfig        // 网页订阅源的抓取规则（存在时按 CSS 选择器抓取网页，而非解析 RSS）
+    historyPageUrl?: string      // 加载更早文章时下一页的地址（为空时从当前内容开始翻页）
+    historyComplete?: boolean    // 已加载到最早一页
+    retention?: RetentionPolicy  // 自定义文章保留规则（未设置时使用全局规则）
+    remoteId?: string            // 阅读服务器上的订阅源 ID（存在时文章由服务器拉取，不在本地抓取）
     createdAt: number
 }
 
+/**
+ * 文章保留规则：收藏的文章始终保留；其余文章在保留天数内或属于最新 N 篇时保留，
+ * 两者都未设置时不清理
+ */
+export interface RetentionPolicy {
+    keepDays?: number          // 保留首次抓取后 N 天内的文章
+    keepLatest?: number        // 每个订阅源保留最新的 N 篇
+    keepUnread: boolean        // 未读文章永久保留
+    keepReferenced: boolean    // 被笔记引用或有 AI 对话的文章永久保留
+}
+
+/** 网页订阅源的抓取规则，条目内字段的选择器相对于条目容器 */
+export interface ScrapeConfig {
+    itemSelector: string       // 条目容器
+    titleSelector?: string     // 标题，缺省时取链接文本
+    linkSelector?: string      // 链接，缺省时取容器内第一个链接（或容器本身）
+    dateSelector?: string      // 发布时间，优先读取 datetime 属性
+    summarySelector?: string   // 摘要
+}
+
+/** 附件（播客音频、视频等） */
+export interface Enclosure {
+    url: string
+    type?: string         // MIME 类型，如 audio/mpeg
+    length?: number       // 文件大小（字节）
+    duration?: number     // 时长（秒）
+    image?: string        // 封面图
+}
+
 /** 文章元数据 */
 export interface Article {
     id: string
     feedId: string
     title: string
     link: string
-    pubDate: number       // 发布时间戳
+    canonicalLink?: string // 规范化后的链接（跨订阅源去重）
+    pubDate: number       // 发布时间戳（日期异常时为首次抓取时间）
+    firstSeenAt?: number  // 首次抓取到该文章的时间
+    dateIssue?: ArticleDateIssue // 发布时间异常标记
+    rawPubDate?: string   // 日期异常时保留的原始日期字符串
     author?: string
     description?: string  // RSS 源的 description/content 字段（用于快速生成摘要）
+    enclosures?: Enclosure[] // 附件（播客音频、视频等）
+    imageUrl?: string     // 题图（缩略图或正文首图）
+    baseUrl?: string      // description 中相对地址的基准（xml:base 或订阅源主页）
     isRead: boolean
     isStarred: boolean    // 收藏
     aiSummary?: string    // AI 生成的摘要
     summaryGeneratedAt?: number
-    expiresAt?: number    // 过期时间戳(24小时后)
+    expiresAt?: number    // 旧版本的过期时间戳（清理改由保留规则决定，不再写入）
+    remoteId?: string     // 阅读服务器上的条目 ID（用于回写已读/收藏状态）
     // 注意：原文内容不存储，按需获取
 }
 
+/** 文章发布时间异常：缺失 / 无法解析 / 在未来 */
+export type ArticleDateIssue = 'missing' | 'invalid' | 'future'
+
+/** 文章正文缓存（离线阅读、摘要与对话共用） */
+export interface ArticleContent {
+    articleId: string
+    html: string          // 清洗后的正文 HTML
+    text: string          // 提取的纯文本
+    size: number          // 占用空间估算（字节）
+    fetchedAt: number
+    lastAccessedAt: number // 最近读取时间（用于 LRU 淘汰）
+}
+
+/** 附件播放进度 */
+export interface PlaybackPosition {
+    articleId: string
+    url: string           // 附件地址
+    position: number      // 播放位置（秒）
+    duration?: number     // 总时长（秒）
+    updatedAt: number
+}
+
+/** 文章列表布局：列表 / 卡片 / 画廊 */
+export type ArticleLayout = 'list' | 'cards' | 'gallery'
+
 /** 收藏的文章（包含原文） */
 export interface StarredArticle extends Article {
     content: string       // 收藏时保存原文
@@ -120,3 +207,47 @@ export interface Note {
     // 内容引用（来源追溯）
     references?: NoteReference[]
 }
+
+/** CORS 代理配置 */
+export interface ProxyConfig {
+    id: string
+    name: string
+    template: string       // 代理地址模板，{url} 为编码后的目标地址占位符
+    enabled: boolean
+}
+
+/** CORS 代理成功率统计 */
+export interface ProxyStats {
+    successCount: number
+    failureCount: number
+    consecutiveFailures: number
+    lastSuccessAt?: number
+    lastFailureAt?: number
+}
+
+/** RSSHub 实例 */
+export interface RSSHubInstance {
+    id: string
+    url: string            // 实例根地址，如 https://rsshub.example.com
+    accessKey?: string     // 访问密钥（以 ?key= 附加到请求）
+    enabled: boolean
+}
+
+/** 订阅源抓取方式：自动（直连失败后走代理）/ 仅直连 / 指定代理 */
+export type FeedFetchMode = 'auto' | 'direct' | 'proxy'
+
+/** 同步记录类型：订阅源 / 阅读状态 / 收藏文章 / 笔记 */
+export type SyncRecordType = 'feed' | 'read' | 'star' | 'note'
+
+/**
+ * 同步记录：每条数据的最新状态（按最后写入者胜合并）
+ * 订阅源以 URL 标识，文章以「订阅源 URL + 条目标识哈希」标识，以便跨设备对应
+ */
+export interface SyncRecord {
+    key: string           // 类型 + 跨设备标识，如 feed:https://example.com/feed
+    type: SyncRecordType
+    updatedAt: number     // 变更时间
+    deviceId: string      // 产生变更的设备
+    deleted?: boolean     // 墓碑：记录已删除
+    data?: unknown        // 记录内容（墓碑为空）
+}
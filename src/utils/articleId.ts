@@ -0,0 +1,37 @@
+/**
+ * 文章稳定 ID 生成
+ * ID = 订阅源 ID + 条目标识的哈希，同一条目每次刷新得到相同 ID，不同订阅源之间互不覆盖
+ */
+import { hashString } from '@/utils/hash'
+import { canonicalizeUrl } from '@/utils/url'
+
+/** 用于生成 ID 的条目字段 */
+export interface ArticleIdentity {
+    guid?: string
+    link?: string
+    title?: string
+    content?: string
+}
+
+/**
+ * 计算条目标识：GUID > 链接 > 标题 > 正文
+ * URL 形式的标识会先规范化，避免跟踪参数等差异产生不同 ID
+ */
+function getIdentityKey(item: ArticleIdentity): string {
+    const identity = item.guid?.trim() || item.link?.trim()
+    if (identity) {
+        return /^https?:\/\//i.test(identity) ? canonicalizeUrl(identity) : identity
+    }
+
+    const title = item.title?.trim().toLowerCase().replace(/\s+/g, ' ')
+    if (title) return `title:${title}`
+
+    return `content:${item.content?.trim() || ''}`
+}
+
+/**
+ * 生成文章 ID
+ */
+export function buildArticleId(feedId: string, item: ArticleIdentity): string {
+    return `${feedId}:${hashString(getIdentityKey(item))}`
+}
@@ -16,9 +16,78 @@ export const AI_CONSTANTS = {
 
 /** 数据过期时间常量 */
 export const EXPIRY_CONSTANTS = {
-    /** 文章元数据过期时间（24小时，毫秒） */
+    /** 旧版本的文章元数据过期时间（24小时，毫秒），仅用于数据库迁移；文章清理改由保留规则决定 */
     ARTICLE_EXPIRY: 24 * 60 * 60 * 1000,
 
     /** AI 对话会话过期时间（24小时，毫秒） */
     CHAT_SESSION_EXPIRY: 24 * 60 * 60 * 1000,
 } as const
+
+/** 文章日期相关常量 */
+export const DATE_CONSTANTS = {
+    /** 发布时间超过当前时间多少仍视为正常（容忍时钟偏差，毫秒） */
+    FUTURE_TOLERANCE: 60 * 60 * 1000,
+} as const
+
+/** 自动刷新相关常量（分钟） */
+export const REFRESH_CONSTANTS = {
+    /** 全局默认刷新间隔 */
+    DEFAULT_INTERVAL: 30,
+
+    /** 单个订阅源允许的最短刷新间隔 */
+    MIN_INTERVAL: 5,
+
+    /** 失败退避后的最长间隔（24小时） */
+    MAX_BACKOFF_INTERVAL: 24 * 60,
+
+    /** 调度器检查到期订阅源的周期 */
+    TICK_INTERVAL: 1,
+} as const
+
+/** 订阅源健康检查相关常量 */
+export const HEALTH_CONSTANTS = {
+    /** 超过该天数未成功抓取视为停滞（天） */
+    STALE_SUCCESS_DAYS: 7,
+
+    /** 最新文章早于该天数视为停更（天） */
+    STALE_ITEM_DAYS: 30,
+} as const
+
+/** 加载更早文章（分页回填）相关常量 */
+export const BACKFILL_CONSTANTS = {
+    /** 单次加载的默认文章数上限 */
+    DEFAULT_LIMIT: 100,
+
+    /** 单次加载最多抓取的页数 */
+    MAX_PAGES: 10,
+} as const
+
+/** 多设备同步相关常量 */
+export const SYNC_CONSTANTS = {
+    /** 默认自动同步间隔（分钟） */
+    DEFAULT_INTERVAL: 15,
+
+    /** 检查是否需要自动同步的周期（分钟） */
+    TICK_INTERVAL: 1,
+
+    /** 删除墓碑与阅读状态记录的保留天数，超过后不再同步 */
+    RECORD_TTL_DAYS: 30,
+} as const
+
+/** 阅读服务器（Google Reader API / Miniflux）相关常量 */
+export const REMOTE_BACKEND_CONSTANTS = {
+    /** 默认自动拉取间隔（分钟） */
+    DEFAULT_INTERVAL: 15,
+
+    /** 首次拉取的条目数 */
+    INITIAL_ITEMS: 500,
+
+    /** 增量拉取单次最多的条目数 */
+    MAX_ITEMS: 1000,
+
+    /** 读取未读/收藏状态的条目 ID 上限 */
+    MAX_STATE_IDS: 10000,
+
+    /** 增量拉取向前重叠的时间（小时），避免遗漏发布时间略早于上次拉取的条目 */
+    OVERLAP_HOURS: 24,
+} as const
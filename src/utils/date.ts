@@ -0,0 +1,171 @@
+/**
+ * Feed 日期解析工具
+ * 支持 RFC 822（含命名时区）、ISO 8601 / W3CDTF 各种变体、中文日期格式
+ * 没有时区的日期一律按 UTC 处理（中文日期除外），不符合以上任何格式的字符串视为无法解析
+ */
+import type { ArticleDateIssue } from '@/types'
+import { DATE_CONSTANTS } from '@/utils/constants'
+
+// RFC 822 及常见非标准命名时区对应的 UTC 偏移（分钟）
+const NAMED_ZONE_OFFSETS: Record<string, number> = {
+    UT: 0, UTC: 0, GMT: 0, Z: 0,
+    EST: -300, EDT: -240,
+    CST: -360, CDT: -300,
+    MST: -420, MDT: -360,
+    PST: -480, PDT: -420,
+    BST: 60, CET: 60, CEST: 120, EET: 120, EEST: 180, MSK: 180,
+    IST: 330, HKT: 480, SGT: 480, JST: 540, KST: 540,
+    AEST: 600, AEDT: 660,
+}
+
+// 中文日期默认按北京时间（UTC+8）处理
+const CHINA_OFFSET_MINUTES = 480
+
+// 有歧义的时区缩写按订阅源语言（<language>）取偏移：中文订阅源中的 CST 指中国标准时间而非美国中部时间
+const LANGUAGE_ZONE_OFFSETS: Record<string, Record<string, number>> = {
+    zh: { CST: CHINA_OFFSET_MINUTES },
+}
+
+// RFC 822 日期（已去掉星期）：日 月 年 [时:分[:秒]] [时区]，时区为数字偏移或命名时区，可附带括号注释
+const RFC822_PATTERN = /^(\d{1,2})\s+([A-Za-z]{3,9})\.?,?\s+(\d{4}|\d{2})(?:\s+(\d{1,2}:\d{2}(?::\d{2})?))?(?:\s+(?:([+-]\d{4})|\(?([A-Za-z]{1,5})\)?))?(?:\s+\([^)]*\))?$/
+
+/**
+ * 查找命名时区的 UTC 偏移（分钟），language 为订阅源语言
+ */
+function getNamedZoneOffset(zone: string, language?: string): number | undefined {
+    const upper = zone.toUpperCase()
+    const primaryLanguage = language?.trim().toLowerCase().split(/[-_]/)[0]
+    return (primaryLanguage ? LANGUAGE_ZONE_OFFSETS[primaryLanguage]?.[upper] : undefined) ?? NAMED_ZONE_OFFSETS[upper]
+}
+
+/**
+ * 将分钟偏移格式化为 +HH:MM
+ */
+function formatOffset(minutes: number): string {
+    const sign = minutes < 0 ? '-' : '+'
+    const abs = Math.abs(minutes)
+    const hours = String(Math.floor(abs / 60)).padStart(2, '0')
+    const mins = String(abs % 60).padStart(2, '0')
+    return `${sign}${hours}:${mins}`
+}
+
+/**
+ * 解析中文日期：2024年1月2日 08:30、2024年01月02日 星期二 08:30:15
+ */
+function parseChineseDate(value: string): number | undefined {
+    const match = value.match(
+        /(\d{4})\s*年\s*(\d{1,2})\s*月\s*(\d{1,2})\s*日(?:\s*(?:星期|周)[一二三四五六日天])?(?:\s*(\d{1,2})\s*[:：时]\s*(\d{1,2})(?:\s*[:：分]\s*(\d{1,2}))?)?/
+    )
+    if (!match) return undefined
+
+    const [, year, month, day, hour = '0', minute = '0', second = '0'] = match
+    return Date.UTC(+year, +month - 1, +day, +hour, +minute, +second) - CHINA_OFFSET_MINUTES * 60 * 1000
+}
+
+/**
+ * 将 ISO 8601 变体规范化为 Date.parse 可靠识别的扩展格式
+ * 例：20240102T083000Z、2024-01-02 08:30:00+0800、2024-01-02T08:30 UTC、2024/01/02 08:30
+ * 无时区的日期时间按 UTC 处理，避免因浏览器时区不同得到不同结果
+ */
+function normalizeISODate(value: string): string | undefined {
+    const basic = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})?(.*)$/)
+    if (basic) {
+        const [, y, mo, d, h, mi, s = '00', rest] = basic
+        value = `${y}-${mo}-${d}T${h}:${mi}:${s}${rest}`
+    }
+    // 斜杠分隔的日期（2024/01/02 08:30）同样按此规则解析，否则 Date.parse 会按本地时区处理
+    value = value.replace(/^(\d{4})\/(\d{1,2})\/(\d{1,2})(?=$|[T\s])/, '$1-$2-$3')
+
+    const match = value.match(
+        /^(\d{4}-\d{1,2}-\d{1,2})(?:[T\s]+(\d{1,2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?))?\s*(Z|UTC|GMT|[+-]\d{2}(?::?\d{2})?)?$/i
+    )
+    if (!match) return undefined
+
+    const [, datePart, timePart, zone] = match
+    const [y, mo, d] = datePart.split('-')
+    const date = `${y}-${mo.padStart(2, '0')}-${d.padStart(2, '0')}`
+    if (!timePart) return date
+
+    const time = timePart.replace(',', '.').replace(/^(\d):/, '0$1:')
+    let offset = 'Z'
+    if (zone && /^[+-]/.test(zone)) {
+        const digits = zone.slice(1).replace(':', '').padEnd(4, '0')
+        offset = `${zone[0]}${digits.slice(0, 2)}:${digits.slice(2, 4)}`
+    }
+    return `${date}T${time}${offset}`
+}
+
+/**
+ * 规范化 RFC 822 日期：去掉星期（含非标准缩写），补齐时间，将命名时区替换为数字偏移，没有时区时按 UTC
+ * 例：Tues, 2 Jan 2024 08:30:00 PST -> 2 Jan 2024 08:30:00 -08:00
+ * 不符合 RFC 822 格式或时区无法识别时返回 undefined
+ */
+function normalizeRFC822Date(value: string, language?: string): string | undefined {
+    const match = value.replace(/^[A-Za-z]+\.?,?\s+(?=\d)/, '').match(RFC822_PATTERN)
+    if (!match) return undefined
+
+    const [, day, month, year, time = '00:00', numericZone, namedZone] = match
+    let offset = '+00:00'
+    if (numericZone) {
+        offset = `${numericZone.slice(0, 3)}:${numericZone.slice(3)}`
+    } else if (namedZone) {
+        const minutes = getNamedZoneOffset(namedZone, language)
+        if (minutes === undefined) return undefined
+        offset = formatOffset(minutes)
+    }
+    return `${day} ${month} ${year} ${time} ${offset}`
+}
+
+/**
+ * 解析 Feed 中的日期字符串
+ * @param language 订阅源语言，用于确定有歧义的时区缩写（如 CST）
+ * @returns 时间戳（毫秒），无法解析时返回 undefined
+ */
+export function parseFeedDate(value: string | undefined | null, language?: string): number | undefined {
+    const trimmed = value?.trim()
+    if (!trimmed) return undefined
+
+    const candidates: Array<number | undefined> = []
+
+    if (/[年月日]/.test(trimmed)) {
+        candidates.push(parseChineseDate(trimmed))
+    }
+
+    const iso = normalizeISODate(trimmed)
+    if (iso) {
+        candidates.push(Date.parse(iso))
+    }
+
+    const rfc822 = normalizeRFC822Date(trimmed, language)
+    if (rfc822) {
+        candidates.push(Date.parse(rfc822))
+    }
+
+    return candidates.find((time): time is number => time !== undefined && Number.isFinite(time) && time > 0)
+}
+
+/**
+ * 计算文章的排序时间：发布时间缺失、无法解析或在未来时，使用首次抓取时间并标记
+ * @param value Feed 中的原始日期字符串
+ * @param firstSeenAt 首次抓取时间
+ * @param language 订阅源语言
+ */
+export function resolvePubDate(
+    value: string | undefined,
+    firstSeenAt: number,
+    now = Date.now(),
+    language?: string
+): { pubDate: number; dateIssue?: ArticleDateIssue } {
+    if (!value?.trim()) {
+        return { pubDate: firstSeenAt, dateIssue: 'missing' }
+    }
+
+    const parsed = parseFeedDate(value, language)
+    if (parsed === undefined) {
+        return { pubDate: firstSeenAt, dateIssue: 'invalid' }
+    }
+    if (parsed > now + DATE_CONSTANTS.FUTURE_TOLERANCE) {
+        return { pubDate: firstSeenAt, dateIssue: 'future' }
+    }
+    return { pubDate: parsed }
+}
@@ -0,0 +1,36 @@
+/**
+ * 与运行环境无关的 DOM 解析
+ * Web Worker 中没有 DOMParser / document，统一使用 linkedom 解析，主线程与 Worker 行为一致
+ */
+import { DOMParser } from 'linkedom/worker'
+
+/** 节点类型常量（Worker 中没有全局 Node 对象） */
+export const ELEMENT_NODE = 1
+export const TEXT_NODE = 3
+
+/**
+ * 解析 XML 文档
+ * linkedom 对不合法的 XML 也会尽量解析，不会生成 <parsererror>
+ */
+export function parseXmlDocument(xml: string): Document {
+    return new DOMParser().parseFromString(xml, 'text/xml') as unknown as Document
+}
+
+/**
+ * 解析 HTML 文档或片段
+ * linkedom 不会为片段补全 <html>/<body>，这里手动包裹，保证 doc.body 始终可用
+ */
+export function parseHtmlDocument(html: string): Document {
+    const isFullDocument = /^\s*(<!--[\s\S]*?-->\s*)*(<!doctype|<html[\s>])/i.test(html)
+    const source = isFullDocument ? html : `<!DOCTYPE html><html><head></head><body>${html}</body></html>`
+    return new DOMParser().parseFromString(source, 'text/html') as unknown as Document
+}
+
+/**
+ * 元素的本地名（去掉命名空间前缀，如 atom:link -> link）
+ * linkedom 的 localName 会保留前缀
+ */
+export function getLocalName(el: Element): string {
+    const name = el.localName || el.tagName
+    return name.slice(name.indexOf(':') + 1)
+}
@@ -0,0 +1,78 @@
+/**
+ * 响应内容编码检测与解码
+ * 依次参考 BOM、文档内声明（XML 声明 / HTML meta）、UTF-8 合法性、Content-Type 头，用 TextDecoder 解码
+ */
+
+// 嗅探文档内编码声明时读取的字节数
+const SNIFF_LENGTH = 1024
+
+/**
+ * 根据 BOM 判断编码
+ */
+function detectBOM(bytes: Uint8Array): string | undefined {
+    if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8'
+    if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le'
+    if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be'
+    return undefined
+}
+
+/**
+ * 从文档开头读取编码声明：<?xml encoding="..."?>、<meta charset="...">、<meta http-equiv content="...; charset=...">
+ */
+function detectDeclaredCharset(bytes: Uint8Array): string | undefined {
+    // 声明部分均为 ASCII，按 latin1 读取不会出错
+    const head = new TextDecoder('latin1').decode(bytes.subarray(0, SNIFF_LENGTH))
+
+    const xmlDeclaration = head.match(/<\?xml[^>]*\sencoding\s*=\s*["']([\w.:-]+)["']/i)
+    if (xmlDeclaration) return xmlDeclaration[1]
+
+    const metaCharset = head.match(/<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i)
+    return metaCharset?.[1]
+}
+
+/**
+ * 从 Content-Type 头读取 charset
+ */
+function parseContentTypeCharset(contentType: string | null | undefined): string | undefined {
+    return contentType?.match(/charset\s*=\s*["']?([\w.:-]+)/i)?.[1]
+}
+
+/**
+ * 使用指定编码严格解码，编码不支持或内容不合法时返回 undefined
+ */
+function tryDecode(bytes: Uint8Array, label: string): string | undefined {
+    try {
+        return new TextDecoder(label, { fatal: true }).decode(bytes)
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * 解码响应内容
+ * 代理常会改写 Content-Type，因此文档内声明优先；其次内容是合法 UTF-8 时直接采用（非 UTF-8 中文文本几乎不可能恰好合法），
+ * 再依次尝试响应头声明的编码和 GB18030，最后宽松按 UTF-8 解码
+ * @param buffer 响应字节
+ * @param contentType 响应的 Content-Type 头
+ */
+export function decodeResponseBody(buffer: ArrayBuffer, contentType?: string | null): string {
+    const bytes = new Uint8Array(buffer)
+
+    const candidates = [
+        detectBOM(bytes),
+        detectDeclaredCharset(bytes),
+        'utf-8',
+        parseContentTypeCharset(contentType),
+        'gb18030',
+    ].filter((label): label is string => !!label)
+
+    for (const label of new Set(candidates.map(l => l.toLowerCase()))) {
+        const text = tryDecode(bytes, label)
+        if (text !== undefined) {
+            if (label !== 'utf-8') console.log(`[Encoding] 使用 ${label} 解码`)
+            return text
+        }
+    }
+
+    return new TextDecoder('utf-8').decode(bytes)
+}
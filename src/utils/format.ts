@@ -0,0 +1,39 @@
+/**
+ * 格式化工具
+ */
+
+/**
+ * 格式化时长（秒）为 H:MM:SS 或 M:SS
+ */
+export function formatDuration(seconds: number): string {
+    if (!Number.isFinite(seconds) || seconds < 0) return '0:00'
+
+    const total = Math.floor(seconds)
+    const h = Math.floor(total / 3600)
+    const m = Math.floor((total % 3600) / 60)
+    const s = total % 60
+    const pad = (n: number) => String(n).padStart(2, '0')
+
+    return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`
+}
+
+/**
+ * 格式化文件大小（字节）
+ */
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+/**
+ * 纯文本正文转为简单 HTML（转义后按空行分段，段内换行转为 <br>）
+ */
+export function textToHtml(text: string): string {
+    const escape = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    return text
+        .split(/\r?\n\s*\r?\n/)
+        .filter(p => p.trim())
+        .map(p => `<p>${escape(p.trim()).replace(/\r?\n/g, '<br>')}</p>`)
+        .join('')
+}
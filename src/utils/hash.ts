@@ -0,0 +1,19 @@
+/**
+ * 计算字符串的快速非加密哈希（cyrb53，53 位）
+ * 用于内容变更检测等无需安全性的场景
+ */
+export function hashString(input: string, seed = 0): string {
+    let h1 = 0xdeadbeef ^ seed
+    let h2 = 0x41c6ce57 ^ seed
+
+    for (let i = 0; i < input.length; i++) {
+        const ch = input.charCodeAt(i)
+        h1 = Math.imul(h1 ^ ch, 2654435761)
+        h2 = Math.imul(h2 ^ ch, 1597334677)
+    }
+
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16)
+}
@@ -0,0 +1,60 @@
+/**
+ * URL 工具函数
+ */
+
+/**
+ * 将相对地址解析为绝对地址
+ * 页内锚点（#xxx）、无基准地址或解析失败时原样返回
+ * @param url 待解析的地址
+ * @param base 基准地址
+ */
+export function resolveUrl(url: string, base?: string): string
+export function resolveUrl(url: string | undefined, base?: string): string | undefined
+export function resolveUrl(url: string | undefined, base?: string): string | undefined {
+    if (!url) return url
+    const trimmed = url.trim()
+    if (!base || trimmed.startsWith('#')) return trimmed
+
+    try {
+        return new URL(trimmed, base).href
+    } catch {
+        return trimmed
+    }
+}
+
+/**
+ * 解析 srcset 属性中的每个候选地址（保留宽度/像素密度描述符）
+ */
+export function resolveSrcset(srcset: string, base?: string): string {
+    return srcset
+        .split(',')
+        .map(candidate => {
+            const [url, ...descriptors] = candidate.trim().split(/\s+/)
+            return [resolveUrl(url, base), ...descriptors].join(' ')
+        })
+        .filter(Boolean)
+        .join(', ')
+}
+
+// 规范化时移除的跟踪参数
+const TRACKING_PARAM_PATTERN = /^(utm_[a-z_]+|fbclid|gclid|mc_cid|mc_eid)$/i
+
+/**
+ * 规范化 URL，用于文章去重与生成稳定 ID
+ * 去掉锚点、utm_* 等跟踪参数和路径末尾的斜杠；协议与主机名由 URL 统一为小写
+ */
+export function canonicalizeUrl(url: string): string {
+    try {
+        const parsed = new URL(url.trim())
+        parsed.hash = ''
+        for (const key of Array.from(parsed.searchParams.keys())) {
+            if (TRACKING_PARAM_PATTERN.test(key)) parsed.searchParams.delete(key)
+        }
+        if (parsed.pathname.length > 1) {
+            parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/'
+        }
+        return parsed.href
+    } catch {
+        return url.trim()
+    }
+}
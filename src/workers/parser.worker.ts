@@ -0,0 +1,52 @@
+/**
+ * 解析 Worker：在后台线程解析 Feed、清洗文章 HTML，避免批量刷新时阻塞界面
+ * 任务逐个执行，每个任务之间让出事件循环，使取消消息能在任务开始前生效
+ */
+import { runTask, type ParserRequest, type ParserResponse } from './parserTasks'
+
+type TaskRequest = Extract<ParserRequest, { kind: 'task' }>
+
+const queue: TaskRequest[] = []
+let scheduled = false
+
+function reply(response: ParserResponse): void {
+    self.postMessage(response)
+}
+
+function schedule(): void {
+    if (scheduled || queue.length === 0) return
+    scheduled = true
+    setTimeout(processNext, 0)
+}
+
+function processNext(): void {
+    scheduled = false
+    const request = queue.shift()
+    if (!request) return
+
+    try {
+        reply({ id: request.id, ok: true, result: runTask(request.type, request.args) })
+    } catch (err) {
+        reply({ id: request.id, ok: false, error: err instanceof Error ? err.message : String(err) })
+    }
+    schedule()
+}
+
+self.addEventListener('message', (event: MessageEvent<ParserRequest>) => {
+    const request = event.data
+
+    if (request.kind === 'cancel') {
+        const index = queue.findIndex(r => r.id === request.id)
+        if (index !== -1) queue.splice(index, 1)
+        return
+    }
+
+    // 交互任务插到所有后台任务之前
+    if (request.priority === 'interactive') {
+        const firstBackground = queue.findIndex(r => r.priority === 'background')
+        queue.splice(firstBackground === -1 ? queue.length : firstBackground, 0, request)
+    } else {
+        queue.push(request)
+    }
+    schedule()
+})
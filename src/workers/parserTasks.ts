@@ -0,0 +1,63 @@
+/**
+ * 解析 Worker 支持的任务及消息协议
+ * Worker 与主线程降级路径共用同一份任务实现，参数与返回值类型由实现推导
+ */
+import { parseRSS, extractFeedLinks } from '@/services/feedParser'
+import { sanitizeArticleHtml } from '@/services/articleParser'
+import { extractTextFromHtml } from '@/services/contentExtractor'
+import { scrapeFeed, suggestItemSelectors } from '@/services/scraper'
+import { parseMailFile } from '@/services/newsletter'
+import type { ScrapeConfig } from '@/types'
+
+export const parserTasks = {
+    // 解析 Feed 内容
+    parseFeed: ({ text, feedUrl }: { text: string; feedUrl?: string }) => parseRSS(text, feedUrl),
+    // 提取网页声明的 Feed 链接
+    extractFeedLinks: ({ html, pageUrl }: { html: string; pageUrl: string }) => extractFeedLinks(html, pageUrl),
+    // 清洗文章 HTML
+    sanitizeHtml: ({ html, baseUrl }: { html: string; baseUrl?: string }) => sanitizeArticleHtml(html, baseUrl),
+    // 提取纯文本
+    extractText: ({ html }: { html: string }) => extractTextFromHtml(html),
+    // 按 CSS 选择器从网页提取条目
+    scrapePage: ({ html, pageUrl, config }: { html: string; pageUrl: string; config: ScrapeConfig }) =>
+        scrapeFeed(html, pageUrl, config),
+    // 推荐网页的条目容器选择器
+    suggestSelectors: ({ html }: { html: string }) => suggestItemSelectors(html),
+    // 解析 .eml / mbox 邮件文件
+    parseNewsletters: ({ buffer }: { buffer: ArrayBuffer }) => parseMailFile(buffer),
+}
+
+export type ParserTaskType = keyof typeof parserTasks
+export type ParserTaskArgs<T extends ParserTaskType> = Parameters<typeof parserTasks[T]>[0]
+export type ParserTaskResult<T extends ParserTaskType> = ReturnType<typeof parserTasks[T]>
+
+/**
+ * 任务优先级：interactive 为用户正在等待的任务（如打开文章），排在后台刷新任务之前
+ */
+export type ParserTaskPriority = 'interactive' | 'background'
+
+/** 主线程 -> Worker */
+export type ParserRequest =
+    | {
+        [T in ParserTaskType]: {
+            kind: 'task'
+            id: number
+            type: T
+            args: ParserTaskArgs<T>
+            priority: ParserTaskPriority
+        }
+    }[ParserTaskType]
+    | { kind: 'cancel'; id: number }
+
+/** Worker -> 主线程 */
+export type ParserResponse =
+    | { id: number; ok: true; result: ParserTaskResult<ParserTaskType> }
+    | { id: number; ok: false; error: string }
+
+/**
+ * 执行任务（Worker 内部及主线程降级时调用）
+ */
+export function runTask<T extends ParserTaskType>(type: T, args: ParserTaskArgs<T>): ParserTaskResult<T> {
+    const task = parserTasks[type] as (args: ParserTaskArgs<T>) => ParserTaskResult<T>
+    return task(args)
+}
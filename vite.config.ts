@@ -1,10 +1,117 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
+import { BlockList, isIP } from 'net'
+import { lookup } from 'dns/promises'
+
+// 开发代理最多跟随的重定向次数
+const MAX_REDIRECTS = 5
+
+// 开发代理拒绝访问的地址：本机、私有网络、链路本地、组播及保留地址（避免 vite --host 时成为局域网 SSRF 跳板）
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+/**
+ * 判断开发代理能否访问该地址：只允许 http/https，且主机解析出的所有地址都是公网地址
+ */
+async function isAllowedProxyTarget(url: string): Promise<boolean> {
+    let parsed: URL
+    try {
+        parsed = new URL(url)
+    } catch {
+        return false
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false
+
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, '')
+    const addresses = isIP(hostname)
+        ? [{ address: hostname, family: isIP(hostname) }]
+        : await lookup(hostname, { all: true }).catch(() => [])
+    if (addresses.length === 0) return false
+
+    return addresses.every(({ address, family }) => {
+        // IPv4 映射的 IPv6 地址（::ffff:127.0.0.1）按 IPv4 检查
+        const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1]
+        if (mapped) return !BLOCKED_ADDRESSES.check(mapped, 'ipv4')
+        return !BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+    })
+}
+
+/**
+ * 本地开发用 CORS 代理：/__proxy?url=<编码后的目标地址>
+ * 在服务端抓取目标地址并原样返回，转发条件请求头与缓存相关响应头；目标及每次重定向都只允许公网 http/https 地址
+ * 手动跟随重定向，通过 X-Folo-Redirect-Url / X-Folo-Redirect-Permanent 告知最终地址及是否为永久重定向
+ */
+function devCorsProxy(): Plugin {
+    return {
+        name: 'folo-dev-cors-proxy',
+        configureServer(server) {
+            server.middlewares.use('/__proxy', async (req, res) => {
+                const target = new URL(req.url ?? '', 'http://localhost').searchParams.get('url')
+                if (!target || !/^https?:\/\//i.test(target)) {
+                    res.statusCode = 400
+                    res.end('Missing or invalid url parameter')
+                    return
+                }
+
+                try {
+                    const headers: Record<string, string> = { 'User-Agent': 'Folo-Dev-Proxy' }
+                    for (const name of ['accept', 'if-none-match', 'if-modified-since']) {
+                        const value = req.headers[name]
+                        if (typeof value === 'string') headers[name] = value
+                    }
+
+                    const fetchAllowed = async (url: string) => {
+                        if (!await isAllowedProxyTarget(url)) return null
+                        return fetch(url, { headers, redirect: 'manual' })
+                    }
+
+                    let current = target
+                    let permanent = true
+                    let upstream = await fetchAllowed(current)
+                    for (let hop = 0; upstream && hop < MAX_REDIRECTS; hop++) {
+                        const location = upstream.headers.get('location')
+                        if (upstream.status < 300 || upstream.status >= 400 || !location) break
+                        permanent &&= upstream.status === 301 || upstream.status === 308
+                        current = new URL(location, current).href
+                        upstream = await fetchAllowed(current)
+                    }
+                    if (!upstream) {
+                        res.statusCode = 403
+                        res.end(`Proxy target not allowed: ${current}`)
+                        return
+                    }
+                    if (current !== target) {
+                        res.setHeader('X-Folo-Redirect-Url', current)
+                        res.setHeader('X-Folo-Redirect-Permanent', String(permanent))
+                    }
+
+                    res.statusCode = upstream.status
+                    for (const name of ['content-type', 'etag', 'last-modified']) {
+                        const value = upstream.headers.get(name)
+                        if (value) res.setHeader(name, value)
+                    }
+                    res.end(new Uint8Array(await upstream.arrayBuffer()))
+                } catch (err) {
+                    res.statusCode = 502
+                    res.end(`Proxy error: ${(err as Error).message}`)
+                }
+            })
+        },
+    }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-    plugins: [react()],
+    plugins: [react(), devCorsProxy()],
     resolve: {
         alias: {
             '@': path.resolve(__dirname, './src'),